@@ -0,0 +1,13 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity 0.8.27;
+
+import {SFC} from "../sfc/SFC.sol";
+
+/**
+ * @dev SFC implementation changing the state of the proxy on upgrade: the owner is replaced by a fixed address
+ */
+contract OwnerChangingSFC is SFC {
+    function owner() public pure override returns (address) {
+        return 0x000000000000000000000000000000000000dEaD;
+    }
+}
@@ -0,0 +1,31 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity 0.8.27;
+
+/// Subset of Multicall3 (aggregate3) for the batched readers in tests,
+/// live networks use the canonical deployment at 0xcA11bde05977b3631167028862bE2a173976CA11.
+contract TestingMulticall3 {
+    struct Call3 {
+        address target;
+        bool allowFailure;
+        bytes callData;
+    }
+
+    struct Result {
+        bool success;
+        bytes returnData;
+    }
+
+    function aggregate3(Call3[] calldata calls) external payable returns (Result[] memory returnData) {
+        returnData = new Result[](calls.length);
+        for (uint256 i = 0; i < calls.length; i++) {
+            (bool success, bytes memory ret) = calls[i].target.call(calls[i].callData);
+            if (!success && !calls[i].allowFailure) {
+                // bubble up the revert reason of the failed call
+                assembly {
+                    revert(add(ret, 32), mload(ret))
+                }
+            }
+            returnData[i] = Result(success, ret);
+        }
+    }
+}
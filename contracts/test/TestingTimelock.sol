@@ -0,0 +1,14 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity 0.8.27;
+
+import {TimelockController} from "@openzeppelin/contracts/governance/TimelockController.sol";
+
+// Timelock owning the network contracts in the governance proposal tests
+contract TestingTimelock is TimelockController {
+    constructor(
+        uint256 minDelay,
+        address[] memory proposers,
+        address[] memory executors,
+        address admin
+    ) TimelockController(minDelay, proposers, executors, admin) {}
+}
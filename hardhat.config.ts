@@ -8,6 +8,17 @@ import '@typechain/hardhat';
 import 'hardhat-contract-sizer';
 import 'hardhat-gas-reporter';
 import 'solidity-coverage';
+import './tasks/delegation';
+import './tasks/genesis';
+import './tasks/governance';
+import './tasks/indexer';
+import './tasks/redirection';
+import './tasks/subsidies';
+import './tasks/supply';
+import './tasks/treasury';
+import './tasks/upgrade';
+import './tasks/validator';
+import './tasks/vesting';
 
 dotenv.config();
 
@@ -0,0 +1,12 @@
+import { buildModule } from '@nomicfoundation/hardhat-ignition/modules';
+
+// Deployed and funded by the vesting:deploy task, see tasks/vesting.ts.
+// Can be deployed alone with a parameters file ({"CTOTreasuryVestingModule": {"cto": "0x...", "owner": "0x..."}}):
+// npx hardhat ignition deploy ./ignition/modules/CTOTreasuryVesting.ts --parameters params.json --network pano
+
+export default buildModule('CTOTreasuryVestingModule', m => {
+  const cto = m.getParameter('cto');
+  const owner = m.getParameter('owner', m.getAccount(0));
+  const vesting = m.contract('CTOTreasuryVesting', [cto, owner]);
+  return { vesting };
+});
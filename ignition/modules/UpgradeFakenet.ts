@@ -1,16 +1,19 @@
 import { buildModule } from '@nomicfoundation/hardhat-ignition/modules';
+import { ADDRESS_BOOK } from '../../lib/AddressBook';
 
 // To upgrade SFC and NodeDriver on locally running fakenet
 // npx hardhat ignition deploy ./ignition/modules/UpgradeFakenet.ts --network local --deployment-id local
+// without any safety checks, networks with state worth keeping are upgraded with `npx hardhat upgrade:apply`
 
 export default buildModule('UpgradeFakenetModule', m => {
   const nodeDriverImpl = m.contract('NodeDriver', [], { id: 'NodeDriverImpl' });
   const nodeDriverAuthImpl = m.contract('NodeDriverAuth', [], { id: 'NodeDriverAuthImpl' });
   const sfcImpl = m.contract('SFC', [], { id: 'SfcImpl' });
 
-  const nodeDriver = m.contractAt('NodeDriver', '0xd100a01e00000000000000000000000000000000');
-  const nodeDriverAuth = m.contractAt('NodeDriverAuth', '0xd100ae0000000000000000000000000000000000');
-  const sfc = m.contractAt('SFC', '0xfc00face00000000000000000000000000000000');
+  const { nodeDriver: nodeDriverEntry, nodeDriverAuth: nodeDriverAuthEntry, sfc: sfcEntry } = ADDRESS_BOOK.local;
+  const nodeDriver = m.contractAt('NodeDriver', nodeDriverEntry.address);
+  const nodeDriverAuth = m.contractAt('NodeDriverAuth', nodeDriverAuthEntry.address);
+  const sfc = m.contractAt('SFC', sfcEntry.address);
 
   m.call(nodeDriver, 'upgradeToAndCall', [nodeDriverImpl, '0x'], { id: 'upgradeNodeDriver' });
   m.call(nodeDriverAuth, 'upgradeToAndCall', [nodeDriverAuthImpl, '0x'], { id: 'upgradeNodeDriverAuth' });
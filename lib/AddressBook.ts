@@ -0,0 +1,149 @@
+import { AbiCoder, AddressLike, Provider, ZeroAddress, getAddress } from 'ethers';
+
+// Addresses of the network contracts, keyed by the networks of hardhat.config.ts.
+// The system contracts are placed at the same addresses by the genesis of every Pano network,
+// the SubsidiesRegistry is deployed by CREATE2 and therefore shares its address too.
+
+type NetworkName = 'pano' | 'testnet' | 'blaze' | 'local' | 'hardhat';
+
+interface ContractEntry {
+  address: string;
+  // the address is an EIP-1967 proxy
+  proxy: boolean;
+  // expected implementation of the proxy, checked by the loader when set; to be updated with every upgrade
+  implementation?: string;
+}
+
+interface NetworkAddresses {
+  sfc: ContractEntry;
+  nodeDriver: ContractEntry;
+  nodeDriverAuth: ContractEntry;
+  subsidiesRegistry: ContractEntry;
+  evmWriter: ContractEntry;
+}
+
+type ContractName = keyof NetworkAddresses;
+
+// expected implementations overriding the ones of the book, e.g. the ones deployed by a pending upgrade
+type ExpectedImplementations = Partial<Record<ContractName, string>>;
+
+interface AddressCheck {
+  contract: ContractName;
+  address: string;
+  implementation?: string;
+  // failure description, undefined when the check passed
+  error?: string;
+}
+
+const IMPLEMENTATION_SLOT = '0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc'; // EIP-1967
+
+const SYSTEM_CONTRACTS: NetworkAddresses = {
+  sfc: { address: '0xfc00face00000000000000000000000000000000', proxy: true },
+  nodeDriver: { address: '0xd100a01e00000000000000000000000000000000', proxy: true },
+  nodeDriverAuth: { address: '0xd100ae0000000000000000000000000000000000', proxy: true },
+  subsidiesRegistry: { address: '0x7d0E23398b6CA0eC7Cdb5b5Aad7F1b11215012d2', proxy: true },
+  // the EvmWriter is implemented natively by the node, its code is a placeholder
+  evmWriter: { address: '0xd100ec0000000000000000000000000000000000', proxy: false },
+};
+
+// the implementations differ by network: one is pinned by an entry of the network with its implementation
+const ADDRESS_BOOK: Record<NetworkName, NetworkAddresses> = {
+  pano: SYSTEM_CONTRACTS,
+  testnet: SYSTEM_CONTRACTS,
+  blaze: SYSTEM_CONTRACTS,
+  local: SYSTEM_CONTRACTS,
+  // only present when forking one of the networks above
+  hardhat: SYSTEM_CONTRACTS,
+};
+
+/** Addresses of the given network, without checking the chain. */
+function getAddressBook(network: string): NetworkAddresses {
+  if (!(network in ADDRESS_BOOK)) {
+    throw new Error(`Network ${network} is not in the address book (${Object.keys(ADDRESS_BOOK).join(', ')})`);
+  }
+  return ADDRESS_BOOK[network as NetworkName];
+}
+
+/** Read the EIP-1967 implementation of a proxy. */
+async function getImplementation(provider: Provider, address: AddressLike): Promise<string> {
+  const slot = await provider.getStorage(address, IMPLEMENTATION_SLOT);
+  return getAddress(AbiCoder.defaultAbiCoder().decode(['address'], slot)[0]);
+}
+
+/** "sfc=0x...,nodeDriverAuth=0x..." as expected implementations. */
+function parseImplementations(value: string | undefined): ExpectedImplementations {
+  const implementations: ExpectedImplementations = {};
+  for (const item of value ? value.split(',') : []) {
+    const [contract, address] = item.split('=').map(part => part.trim());
+    if (!(contract in SYSTEM_CONTRACTS) || !address) {
+      throw new Error(`Invalid implementation "${item}", expected contract=address`);
+    }
+    implementations[contract as ContractName] = getAddress(address);
+  }
+  return implementations;
+}
+
+/**
+ * Check every address of the book has code and, for proxies, an implementation with code, which is the expected one
+ * when the book or the given implementations have one.
+ */
+async function checkAddressBook(
+  provider: Provider,
+  addresses: NetworkAddresses,
+  implementations: ExpectedImplementations = {},
+): Promise<AddressCheck[]> {
+  const checks: AddressCheck[] = [];
+  for (const [contract, entry] of Object.entries(addresses) as [ContractName, ContractEntry][]) {
+    const check: AddressCheck = { contract, address: entry.address };
+    checks.push(check);
+    if ((await provider.getCode(entry.address)) === '0x') {
+      check.error = 'no code at the address';
+      continue;
+    }
+    if (!entry.proxy) {
+      continue;
+    }
+    check.implementation = await getImplementation(provider, entry.address);
+    const expected = implementations[contract] ?? entry.implementation;
+    if (check.implementation === ZeroAddress) {
+      check.error = 'EIP-1967 implementation slot is empty';
+    } else if (expected && getAddress(expected) !== check.implementation) {
+      check.error = `implementation is ${check.implementation}, expected ${getAddress(expected)}`;
+    } else if ((await provider.getCode(check.implementation)) === '0x') {
+      check.error = `no code at the implementation ${check.implementation}`;
+    }
+  }
+  return checks;
+}
+
+/** Addresses of the given network, verified against the chain of the provider. */
+async function loadAddressBook(
+  network: string,
+  provider: Provider,
+  implementations: ExpectedImplementations = {},
+): Promise<NetworkAddresses> {
+  const addresses = getAddressBook(network);
+  const failed = (await checkAddressBook(provider, addresses, implementations)).filter(check => check.error);
+  if (failed.length > 0) {
+    const details = failed.map(check => `${check.contract} (${check.address}): ${check.error}`).join('; ');
+    throw new Error(`Address book of ${network} does not match the chain: ${details}`);
+  }
+  return addresses;
+}
+
+export {
+  NetworkName,
+  ContractEntry,
+  NetworkAddresses,
+  ContractName,
+  ExpectedImplementations,
+  AddressCheck,
+  ADDRESS_BOOK,
+  SYSTEM_CONTRACTS,
+  IMPLEMENTATION_SLOT,
+  getAddressBook,
+  getImplementation,
+  parseImplementations,
+  checkAddressBook,
+  loadAddressBook,
+};
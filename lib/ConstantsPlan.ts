@@ -0,0 +1,210 @@
+import { BaseContract, getAddress, isAddress, isCallException, parseEther } from 'ethers';
+
+// Planner of ConstantsManager changes from a declarative config of target values. The targets are checked against
+// the bounds the update* setters enforce (mirrored here, keep them in sync with ConstantsManager.sol) and the
+// changed values are turned into update calls, ordered so that no intermediate state is rejected by the contract.
+
+const UNIT = 10n ** 18n;
+
+type ConstantUnit = 'tokens' | 'ratio' | 'integer' | 'address';
+
+interface ConstantSpec {
+  name: string;
+  setter: string;
+  // unit of the config value: whole tokens and ratios are converted to 18 decimals
+  unit: ConstantUnit;
+  min?: bigint;
+  max?: bigint;
+  // value of a ConstantsManager deployed before the constant was added, set by ConstantsMigrator
+  default?: bigint;
+}
+
+// in the order of ConstantsMigrator.deployAndMigrate
+const CONSTANTS: ConstantSpec[] = [
+  { name: 'minSelfStake', setter: 'updateMinSelfStake', unit: 'tokens', min: 100000n * UNIT, max: 10000000n * UNIT },
+  { name: 'maxDelegatedRatio', setter: 'updateMaxDelegatedRatio', unit: 'ratio', min: UNIT, max: 31n * UNIT },
+  { name: 'validatorCommission', setter: 'updateValidatorCommission', unit: 'ratio', max: UNIT / 2n },
+  // burntFeeShare + treasuryFeeShare must not exceed 1 as well
+  { name: 'burntFeeShare', setter: 'updateBurntFeeShare', unit: 'ratio', max: UNIT },
+  { name: 'treasuryFeeShare', setter: 'updateTreasuryFeeShare', unit: 'ratio', max: UNIT },
+  { name: 'withdrawalPeriodEpochs', setter: 'updateWithdrawalPeriodEpochs', unit: 'integer', min: 2n, max: 100n },
+  {
+    name: 'withdrawalPeriodTime',
+    setter: 'updateWithdrawalPeriodTime',
+    unit: 'integer',
+    min: 3600n,
+    max: 30n * 86400n,
+  },
+  { name: 'baseRewardPerSecond', setter: 'updateBaseRewardPerSecond', unit: 'tokens', max: 32n * UNIT },
+  {
+    name: 'offlinePenaltyThresholdTime',
+    setter: 'updateOfflinePenaltyThresholdTime',
+    unit: 'integer',
+    min: 86400n,
+    max: 10n * 86400n,
+  },
+  {
+    name: 'offlinePenaltyThresholdBlocksNum',
+    setter: 'updateOfflinePenaltyThresholdBlocksNum',
+    unit: 'integer',
+    min: 100n,
+    max: 1000000n,
+  },
+  {
+    name: 'averageUptimeEpochWindow',
+    setter: 'updateAverageUptimeEpochWindow',
+    unit: 'integer',
+    min: 10n,
+    max: 87600n,
+  },
+  { name: 'minAverageUptime', setter: 'updateMinAverageUptime', unit: 'ratio', max: (UNIT * 9n) / 10n },
+  { name: 'issuedTokensRecipient', setter: 'updateIssuedTokensRecipient', unit: 'address' },
+  {
+    name: 'extraRewardsBurnRatio',
+    setter: 'updateExtraRewardsBurnRatio',
+    unit: 'ratio',
+    max: UNIT,
+    default: UNIT / 2n,
+  },
+];
+
+// constant values by name, uints as bigint and addresses as checksummed strings
+type NetworkConstants = Record<string, bigint | string>;
+
+interface ConstantViolation {
+  name: string;
+  value: bigint | string;
+  error: 'ValueTooSmall' | 'ValueTooLarge';
+  message: string;
+}
+
+interface ConstantChange {
+  name: string;
+  before?: bigint | string;
+  after: bigint | string;
+}
+
+interface ConstantsPlan {
+  changes: ConstantChange[];
+  // update calls of the ConstantsManager in the order they are to be sent
+  calls: { method: string; args: (bigint | string)[] }[];
+}
+
+function specOf(name: string): ConstantSpec {
+  const spec = CONSTANTS.find(constant => constant.name === name);
+  if (!spec) {
+    throw new Error(`Unknown constant ${name}, expected one of ${CONSTANTS.map(c => c.name).join(', ')}`);
+  }
+  return spec;
+}
+
+/**
+ * Target values of a config like {"minSelfStake": "500000", "validatorCommission": "0.15"}: tokens and ratios as
+ * decimals, numbers of epochs, seconds and blocks as integers, addresses as hex strings.
+ */
+function parseConstantsConfig(config: Record<string, unknown>): NetworkConstants {
+  const targets: NetworkConstants = {};
+  for (const [name, value] of Object.entries(config)) {
+    const spec = specOf(name);
+    const text = String(value).trim();
+    if (spec.unit === 'address') {
+      if (!isAddress(text)) {
+        throw new Error(`${name} must be an address, got ${text}`);
+      }
+      targets[name] = getAddress(text);
+    } else if (spec.unit === 'integer') {
+      if (!/^\d+$/.test(text)) {
+        throw new Error(`${name} must be a non-negative integer, got ${text}`);
+      }
+      targets[name] = BigInt(text);
+    } else {
+      if (!/^\d+(\.\d+)?$/.test(text)) {
+        throw new Error(`${name} must be a non-negative decimal, got ${text}`);
+      }
+      targets[name] = parseEther(text);
+    }
+  }
+  return targets;
+}
+
+/** Current values of every constant of the ConstantsManager, the defaults of the constants it predates. */
+async function readConstants(constants: BaseContract): Promise<NetworkConstants> {
+  const values: NetworkConstants = {};
+  for (const spec of CONSTANTS) {
+    try {
+      values[spec.name] = await constants.getFunction(spec.name).staticCall();
+    } catch (err) {
+      // the getter missing in the contract reverts without data, ethers or the Hardhat network reporting it
+      const data = isCallException(err) ? (err.data ?? '0x') : (err as { data?: unknown }).data;
+      if (spec.default === undefined || data !== '0x') {
+        throw err;
+      }
+      values[spec.name] = spec.default;
+    }
+  }
+  return values;
+}
+
+/** Values the setters would reject, the fee shares are checked together with the other current share. */
+function validateConstants(targets: NetworkConstants, current: NetworkConstants): ConstantViolation[] {
+  const violations: ConstantViolation[] = [];
+  for (const [name, value] of Object.entries(targets)) {
+    const spec = specOf(name);
+    if (typeof value !== 'bigint') {
+      continue;
+    }
+    if (spec.min !== undefined && value < spec.min) {
+      violations.push({ name, value, error: 'ValueTooSmall', message: `${name} ${value} is below ${spec.min}` });
+    } else if (spec.max !== undefined && value > spec.max) {
+      violations.push({ name, value, error: 'ValueTooLarge', message: `${name} ${value} is above ${spec.max}` });
+    }
+  }
+  const shares = { ...current, ...targets };
+  const feeShares = (shares.burntFeeShare as bigint) + (shares.treasuryFeeShare as bigint);
+  if (('burntFeeShare' in targets || 'treasuryFeeShare' in targets) && feeShares > UNIT) {
+    violations.push({
+      name: 'burntFeeShare' in targets ? 'burntFeeShare' : 'treasuryFeeShare',
+      value: feeShares,
+      error: 'ValueTooLarge',
+      message: `burntFeeShare + treasuryFeeShare ${feeShares} is above ${UNIT}`,
+    });
+  }
+  return violations;
+}
+
+/**
+ * Changes from the current values to the targets and their update calls. A lowered fee share is updated before
+ * a raised one, so their sum stays within 1 in between.
+ */
+function planConstants(current: NetworkConstants, targets: NetworkConstants): ConstantsPlan {
+  const changes = CONSTANTS.filter(spec => spec.name in targets && targets[spec.name] !== current[spec.name]).map(
+    spec => ({ name: spec.name, before: current[spec.name], after: targets[spec.name] }),
+  );
+  const raisedShare = (change: ConstantChange) =>
+    change.name.endsWith('FeeShare') && (change.after as bigint) > (change.before as bigint);
+  const ordered = [...changes.filter(change => !raisedShare(change)), ...changes.filter(raisedShare)];
+  return {
+    changes,
+    calls: ordered.map(change => ({ method: specOf(change.name).setter, args: [change.after] })),
+  };
+}
+
+/** Update calls setting every constant of a freshly deployed ConstantsManager, like ConstantsMigrator does. */
+function migrationCalls(current: NetworkConstants, targets: NetworkConstants): ConstantsPlan['calls'] {
+  const values = { ...current, ...targets };
+  return CONSTANTS.map(spec => ({ method: spec.setter, args: [values[spec.name]] }));
+}
+
+export {
+  CONSTANTS,
+  ConstantSpec,
+  NetworkConstants,
+  ConstantViolation,
+  ConstantChange,
+  ConstantsPlan,
+  parseConstantsConfig,
+  readConstants,
+  validateConstants,
+  planConstants,
+  migrationCalls,
+};
@@ -0,0 +1,210 @@
+import { Interface, Provider, Result, getAddress, isCallException } from 'ethers';
+
+// Batched reader of the SFC epoch snapshots. The getEpoch* views are sent in batches, through a Multicall3
+// aggregator when one is given or as concurrent eth_calls otherwise (batched into JSON-RPC batch requests by
+// ethers JsonRpcProvider). Snapshots of sealed epochs never change, so they are cached per epoch once
+// currentSealedEpoch covers them; the current epoch is read again on every call.
+
+// canonical Multicall3 deployment, the same address on every network it is deployed to
+const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
+const SFC_EPOCH_VIEWS = new Interface([
+  'function currentSealedEpoch() view returns (uint256)',
+  'function getEpochValidatorIDs(uint256 epoch) view returns (uint256[])',
+  'function getEpochEndBlock(uint256 epoch) view returns (uint256)',
+  'function epochEndTime(uint256 epoch) view returns (uint256)',
+  'function getEpochReceivedStake(uint256 epoch, uint256 validatorID) view returns (uint256)',
+  'function getEpochAccumulatedRewardPerToken(uint256 epoch, uint256 validatorID) view returns (uint256)',
+  'function getEpochAccumulatedUptime(uint256 epoch, uint256 validatorID) view returns (uint256)',
+  'function getEpochAverageUptime(uint256 epoch, uint256 validatorID) view returns (uint64)',
+  'function getEpochAccumulatedOriginatedTxsFee(uint256 epoch, uint256 validatorID) view returns (uint256)',
+  'function getEpochOfflineTime(uint256 epoch, uint256 validatorID) view returns (uint256)',
+  'function getEpochOfflineBlocks(uint256 epoch, uint256 validatorID) view returns (uint256)',
+]);
+
+const MULTICALL3 = new Interface([
+  'function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)',
+]);
+
+/** Snapshot values of a validator in an epoch, the accumulated ones as stored by the SFC. */
+interface ValidatorSnapshot {
+  validatorID: bigint;
+  receivedStake: bigint;
+  accumulatedRewardPerToken: bigint;
+  accumulatedUptime: bigint;
+  averageUptime: bigint;
+  accumulatedOriginatedTxsFee: bigint;
+  offlineTime: bigint;
+  offlineBlocks: bigint;
+}
+
+interface EpochSnapshot {
+  epoch: bigint;
+  endBlock: bigint;
+  endTime: bigint;
+  validators: ValidatorSnapshot[];
+}
+
+/** Cache of the sealed epoch snapshots, a Map by default. */
+interface EpochCache {
+  get(key: string): EpochSnapshot | undefined;
+  set(key: string, snapshot: EpochSnapshot): void;
+}
+
+interface EpochReaderOptions {
+  // Multicall3 compatible aggregator, plain eth_calls when not given
+  multicall?: string;
+  // calls per aggregate3 call or per group of concurrent eth_calls
+  batchSize?: number;
+  // batches in flight at once
+  concurrency?: number;
+  // retries of a failed batch, reverts are not retried
+  retries?: number;
+  // delay before the first retry in ms, doubled with every retry
+  retryDelay?: number;
+  cache?: EpochCache;
+}
+
+type ReaderProvider = Pick<Provider, 'call' | 'getBlockNumber'>;
+
+interface ViewCall {
+  method: string;
+  args: unknown[];
+}
+
+// per-validator views in the order of ValidatorSnapshot fields
+const VALIDATOR_VIEWS: [keyof ValidatorSnapshot, string][] = [
+  ['receivedStake', 'getEpochReceivedStake'],
+  ['accumulatedRewardPerToken', 'getEpochAccumulatedRewardPerToken'],
+  ['accumulatedUptime', 'getEpochAccumulatedUptime'],
+  ['averageUptime', 'getEpochAverageUptime'],
+  ['accumulatedOriginatedTxsFee', 'getEpochAccumulatedOriginatedTxsFee'],
+  ['offlineTime', 'getEpochOfflineTime'],
+  ['offlineBlocks', 'getEpochOfflineBlocks'],
+];
+
+class EpochReader {
+  public readonly sfc: string;
+  // RPC requests sent so far (eth_call and eth_blockNumber), retries included
+  public requests = 0;
+  private readonly provider: ReaderProvider;
+  private readonly options: Required<Omit<EpochReaderOptions, 'multicall'>> & { multicall?: string };
+
+  constructor(provider: ReaderProvider, sfc: string, options: EpochReaderOptions = {}) {
+    this.provider = provider;
+    this.sfc = getAddress(sfc);
+    this.options = {
+      multicall: options.multicall,
+      batchSize: options.batchSize ?? 200,
+      concurrency: options.concurrency ?? 4,
+      retries: options.retries ?? 3,
+      retryDelay: options.retryDelay ?? 500,
+      cache: options.cache ?? new Map<string, EpochSnapshot>(),
+    };
+  }
+
+  /** Read the snapshots of the given epochs, all at the same block. */
+  async readEpochs(epochs: bigint[]): Promise<EpochSnapshot[]> {
+    const blockTag = await this.retry(() => {
+      this.requests++;
+      return this.provider.getBlockNumber();
+    });
+    const sealedEpoch = (await this.callAll([{ method: 'currentSealedEpoch', args: [] }], blockTag))[0] as bigint;
+    const key = (epoch: bigint) => `${this.sfc}/${epoch}`;
+    const missing = [...new Set(epochs)].filter(epoch => epoch > sealedEpoch || !this.options.cache.get(key(epoch)));
+
+    const epochResults = await this.callAll(
+      missing.flatMap(epoch => [
+        { method: 'getEpochValidatorIDs', args: [epoch] },
+        { method: 'getEpochEndBlock', args: [epoch] },
+        { method: 'epochEndTime', args: [epoch] },
+      ]),
+      blockTag,
+    );
+    const validatorIDs = missing.map((_, i) => [...(epochResults[3 * i] as bigint[])]);
+    const validatorResults = await this.callAll(
+      missing.flatMap((epoch, i) =>
+        validatorIDs[i].flatMap(validatorID =>
+          VALIDATOR_VIEWS.map(([, method]) => ({ method, args: [epoch, validatorID] })),
+        ),
+      ),
+      blockTag,
+    );
+
+    const read = new Map<bigint, EpochSnapshot>();
+    let offset = 0;
+    missing.forEach((epoch, i) => {
+      const validators = validatorIDs[i].map(validatorID => {
+        const snapshot = { validatorID } as ValidatorSnapshot;
+        for (const [field] of VALIDATOR_VIEWS) {
+          snapshot[field] = validatorResults[offset++] as bigint;
+        }
+        return snapshot;
+      });
+      const snapshot: EpochSnapshot = {
+        epoch,
+        endBlock: epochResults[3 * i + 1] as bigint,
+        endTime: epochResults[3 * i + 2] as bigint,
+        validators,
+      };
+      read.set(epoch, snapshot);
+      if (epoch <= sealedEpoch) {
+        this.options.cache.set(key(epoch), snapshot);
+      }
+    });
+    return epochs.map(epoch => read.get(epoch) ?? this.options.cache.get(key(epoch))!);
+  }
+
+  /** Call SFC views at the given block in batches, returning the first value of every result. */
+  async callAll(calls: ViewCall[], blockTag: number): Promise<unknown[]> {
+    const batches: ViewCall[][] = [];
+    for (let i = 0; i < calls.length; i += this.options.batchSize) {
+      batches.push(calls.slice(i, i + this.options.batchSize));
+    }
+    const results: unknown[][] = new Array(batches.length);
+    let next = 0;
+    const worker = async () => {
+      while (next < batches.length) {
+        const i = next++;
+        results[i] = await this.retry(() => this.callBatch(batches[i], blockTag));
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(this.options.concurrency, batches.length) }, worker));
+    return results.flat();
+  }
+
+  private async callBatch(calls: ViewCall[], blockTag: number): Promise<unknown[]> {
+    const data = calls.map(call => SFC_EPOCH_VIEWS.encodeFunctionData(call.method, call.args));
+    const decode = (call: ViewCall, result: string) => SFC_EPOCH_VIEWS.decodeFunctionResult(call.method, result)[0];
+    if (!this.options.multicall) {
+      this.requests += calls.length;
+      const results = await Promise.all(
+        data.map(callData => this.provider.call({ to: this.sfc, data: callData, blockTag })),
+      );
+      return calls.map((call, i) => decode(call, results[i]));
+    }
+    this.requests++;
+    const result = await this.provider.call({
+      to: this.options.multicall,
+      data: MULTICALL3.encodeFunctionData('aggregate3', [data.map(callData => [this.sfc, false, callData])]),
+      blockTag,
+    });
+    const [returnData] = MULTICALL3.decodeFunctionResult('aggregate3', result);
+    return calls.map((call, i) => decode(call, (returnData[i] as Result).returnData));
+  }
+
+  private async retry<T>(fn: () => Promise<T>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await fn();
+      } catch (err) {
+        if (isCallException(err) || attempt >= this.options.retries) {
+          throw err;
+        }
+        await new Promise(resolve => setTimeout(resolve, this.options.retryDelay * 2 ** attempt));
+      }
+    }
+  }
+}
+
+export { MULTICALL3_ADDRESS, ValidatorSnapshot, EpochSnapshot, EpochCache, EpochReaderOptions, EpochReader };
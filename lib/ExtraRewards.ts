@@ -0,0 +1,69 @@
+import type { ConstantsManager, SFC } from '../typechain-types';
+import { ExtraRewardDistribution, computeExtraRewardDistribution } from './RewardSimulator';
+
+// Preview of SFC.distributeExtraReward(epoch, withBurn): the value is split across the validators of the sealed
+// epoch by their received stake in its snapshot, each share is stashed to the validator auth (its delegators get
+// nothing from it) and the rest, the burn share and the rounding dust, is burnt.
+
+interface ExtraRewardShare {
+  validatorID: bigint;
+  // receives the share in its rewards stash, claimable with claimRewards(validatorID)
+  auth: string;
+  receivedStake: bigint;
+  share: bigint;
+}
+
+interface ExtraRewardPreview extends Omit<ExtraRewardDistribution, 'shares'> {
+  epoch: bigint;
+  withBurn: boolean;
+  extraRewardsBurnRatio: bigint;
+  shares: ExtraRewardShare[];
+  // SFC custom error the call would revert with, and why
+  error?: { error: string; message: string };
+}
+
+/** Distribution of the amount across the validators of the epoch, as distributeExtraReward would make it now. */
+async function extraRewardPreview(
+  sfc: SFC,
+  constants: ConstantsManager,
+  epoch: bigint,
+  amount: bigint,
+  withBurn: boolean,
+): Promise<ExtraRewardPreview> {
+  const blockTag = await sfc.runner!.provider!.getBlockNumber();
+  const extraRewardsBurnRatio = await constants.extraRewardsBurnRatio({ blockTag });
+  const currentSealedEpoch = await sfc.currentSealedEpoch({ blockTag });
+  const stakes = [];
+  if (epoch <= currentSealedEpoch) {
+    for (const validatorID of await sfc.getEpochValidatorIDs(epoch, { blockTag })) {
+      stakes.push({ validatorID, receivedStake: await sfc.getEpochReceivedStake(epoch, validatorID, { blockTag }) });
+    }
+  }
+  const distribution = computeExtraRewardDistribution(amount, withBurn, extraRewardsBurnRatio, stakes);
+  const shares: ExtraRewardShare[] = [];
+  for (const { validatorID, share } of distribution.shares) {
+    const { auth } = await sfc.getValidator(validatorID, { blockTag });
+    const { receivedStake } = stakes.find(s => s.validatorID === validatorID)!;
+    shares.push({ validatorID, auth, receivedStake, share });
+  }
+  const preview: ExtraRewardPreview = { ...distribution, epoch, withBurn, extraRewardsBurnRatio, shares };
+
+  // the reverts of distributeExtraReward, in its order
+  const totalSupply = await sfc.totalSupply({ blockTag });
+  if (epoch > currentSealedEpoch) {
+    preview.error = {
+      error: 'InvalidEpoch',
+      message: `epoch ${epoch} is not sealed, the last sealed one is ${currentSealedEpoch}`,
+    };
+  } else if (amount === 0n) {
+    preview.error = { error: 'ZeroRewards', message: 'no value to distribute' };
+  } else if (amount > totalSupply) {
+    preview.error = {
+      error: 'ValueTooLarge',
+      message: `the value is burnt first and exceeds the total supply ${totalSupply}`,
+    };
+  }
+  return preview;
+}
+
+export { ExtraRewardShare, ExtraRewardPreview, extraRewardPreview };
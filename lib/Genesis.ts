@@ -0,0 +1,258 @@
+import { Interface, dataLength, getAddress, parseEther, toBeHex, zeroPadValue } from 'ethers';
+import type { Artifacts } from 'hardhat/types';
+import { IMPLEMENTATION_SLOT, SYSTEM_CONTRACTS } from './AddressBook';
+import { validatePubkey } from './ValidatorPubkey';
+
+// Genesis JSON of the SFC system contracts in the format of example-genesis.json.
+// Contracts are pre-deployed as accounts with code and storage (constructors do not run in genesis),
+// the initialization is done by genesis txs executed by the node: NetworkInitializer.initializeAll
+// (which also creates the ConstantsManager), genesis validators and delegations through the NodeDriver
+// and SubsidiesRegistry.initialize.
+
+const NETWORK_INITIALIZER_ADDRESS = '0xd1005eed00000000000000000000000000000000';
+// OpenZeppelin Initializable storage (ERC-7201), set to max uint64 by _disableInitializers()
+const INITIALIZABLE_SLOT = '0xf0c57e16840df040f15088dc2f81fe391c3923bec73e23a9662efc9c229c6a00';
+const INITIALIZERS_DISABLED = zeroPadValue('0xffffffffffffffff', 32);
+
+type ProxiedContract = 'nodeDriver' | 'nodeDriverAuth' | 'sfc' | 'subsidiesRegistry';
+
+const PROXIED_CONTRACTS: { key: ProxiedContract; contract: string; name: string }[] = [
+  { key: 'nodeDriver', contract: 'NodeDriver', name: 'NodeDriver' },
+  { key: 'nodeDriverAuth', contract: 'NodeDriverAuth', name: 'NodeDriverAuth' },
+  { key: 'sfc', contract: 'SFC', name: 'SFC contract' },
+  { key: 'subsidiesRegistry', contract: 'SubsidiesRegistry', name: 'SubsidiesRegistry' },
+];
+
+// Input of the generator. Amounts are in whole tokens.
+interface GenesisConfig {
+  rules: object;
+  blockZeroTime: string;
+  // owner of all the contracts
+  owner: string;
+  sealedEpoch?: number;
+  // by default the sum of all account balances, stakes are minted on top of it by the genesis delegations
+  totalSupply?: string;
+  // validator IDs are assigned in the order of the list, starting from 1
+  validators: { name?: string; address: string; pubkey: string; stake: string; balance?: string }[];
+  delegations?: { delegator: string; validatorID: number; stake: string }[];
+  accounts?: { name?: string; address: string; balance: string }[];
+  // implementation addresses, by default the proxy address + 1
+  implementations?: Partial<Record<ProxiedContract, string>>;
+}
+
+interface GenesisAccount {
+  name?: string;
+  nonce?: number;
+  address: string;
+  code?: string;
+  storage?: Record<string, string>;
+  balance?: bigint;
+}
+
+interface GenesisTx {
+  name: string;
+  to: string;
+  data: string;
+}
+
+interface Genesis {
+  _: string;
+  rules: object;
+  blockZeroTime: string;
+  accounts: GenesisAccount[];
+  txs: GenesisTx[];
+}
+
+/** Build the genesis from compiled artifacts. */
+async function generateGenesis(artifacts: Artifacts, config: GenesisConfig): Promise<Genesis> {
+  const accounts: GenesisAccount[] = [];
+  const txs: GenesisTx[] = [];
+
+  const initializerArtifact = await artifacts.readArtifact('NetworkInitializer');
+  accounts.push({
+    name: 'Network initializer',
+    nonce: 1,
+    address: NETWORK_INITIALIZER_ADDRESS,
+    code: await deployedBytecode(artifacts, 'NetworkInitializer', NETWORK_INITIALIZER_ADDRESS),
+  });
+
+  const proxyCode = (await artifacts.readArtifact('ERC1967Proxy')).deployedBytecode;
+  for (const { key, contract, name } of PROXIED_CONTRACTS) {
+    const proxy = SYSTEM_CONTRACTS[key].address;
+    const implementation = getAddress(config.implementations?.[key] ?? toBeHex(BigInt(proxy) + 1n, 20));
+    accounts.push({
+      name: `${name} (Proxy)`,
+      nonce: 1,
+      address: proxy,
+      code: proxyCode,
+      storage: { [IMPLEMENTATION_SLOT]: zeroPadValue(implementation, 32) },
+    });
+    accounts.push({
+      name: `${name} (Implementation)`,
+      nonce: 1,
+      address: implementation,
+      code: await deployedBytecode(artifacts, contract, implementation),
+      storage: { [INITIALIZABLE_SLOT]: INITIALIZERS_DISABLED },
+    });
+  }
+  accounts.push({ name: 'EvmWriter', address: SYSTEM_CONTRACTS.evmWriter.address, nonce: 1, code: '0x00' });
+
+  const seen = new Set(accounts.map(account => account.address.toLowerCase()));
+  const addBalance = (name: string | undefined, address: string, balance: string) => {
+    if (seen.has(address.toLowerCase())) {
+      throw new Error(`Duplicate genesis account ${address}`);
+    }
+    seen.add(address.toLowerCase());
+    accounts.push({ name, address: getAddress(address), balance: parseEther(balance) });
+  };
+  config.validators.forEach((v, i) => v.balance && addBalance(v.name ?? `validator${i + 1}`, v.address, v.balance));
+  (config.accounts ?? []).forEach(a => addBalance(a.name, a.address, a.balance));
+
+  const totalSupply =
+    config.totalSupply !== undefined
+      ? parseEther(config.totalSupply)
+      : accounts.reduce((sum, account) => sum + (account.balance ?? 0n), 0n);
+  const { sfc, nodeDriver, nodeDriverAuth, evmWriter, subsidiesRegistry } = SYSTEM_CONTRACTS;
+  txs.push({
+    name: `InitializeAll (set ${config.owner} to be SFC owner)`,
+    to: NETWORK_INITIALIZER_ADDRESS,
+    data: new Interface(initializerArtifact.abi).encodeFunctionData('initializeAll', [
+      config.sealedEpoch ?? 0,
+      totalSupply,
+      sfc.address,
+      nodeDriverAuth.address,
+      nodeDriver.address,
+      evmWriter.address,
+      config.owner,
+    ]),
+  });
+
+  const driver = new Interface((await artifacts.readArtifact('NodeDriver')).abi);
+  const createdTime = Math.floor(Date.parse(config.blockZeroTime) / 1000);
+  if (Number.isNaN(createdTime) || createdTime <= 0) {
+    throw new Error(`Invalid blockZeroTime ${config.blockZeroTime}`);
+  }
+  const pubkeys = new Set<string>();
+  const delegations = [
+    ...config.validators.map((v, i) => ({ delegator: v.address, validatorID: i + 1, stake: v.stake })),
+    ...(config.delegations ?? []),
+  ];
+  config.validators.forEach((v, i) => {
+    const invalid = validatePubkey(v.pubkey);
+    if (invalid) {
+      throw new Error(`Validator ${i + 1}: ${invalid}`);
+    }
+    if (pubkeys.has(v.pubkey.toLowerCase())) {
+      throw new Error(`Validator ${i + 1}: pubkey is used by another validator`);
+    }
+    pubkeys.add(v.pubkey.toLowerCase());
+    txs.push({
+      name: `SetGenesisValidator${i + 1}`,
+      to: nodeDriver.address,
+      data: driver.encodeFunctionData('setGenesisValidator', [v.address, i + 1, v.pubkey, createdTime]),
+    });
+  });
+  delegations.forEach((d, i) => {
+    if (d.validatorID < 1 || d.validatorID > config.validators.length) {
+      throw new Error(`Delegation ${i + 1}: validator ${d.validatorID} does not exist`);
+    }
+    if (parseEther(d.stake) === 0n) {
+      throw new Error(`Delegation ${i + 1}: stake must not be zero`);
+    }
+    txs.push({
+      name: `SetGenesisDelegation${i + 1}`,
+      to: nodeDriver.address,
+      data: driver.encodeFunctionData('setGenesisDelegation', [d.delegator, d.validatorID, parseEther(d.stake)]),
+    });
+  });
+
+  const registry = new Interface((await artifacts.readArtifact('SubsidiesRegistry')).abi);
+  txs.push({
+    name: 'InitializeSubsidiesRegistry',
+    to: subsidiesRegistry.address,
+    data: registry.encodeFunctionData('initialize'),
+  });
+
+  return {
+    _: "Generated by the genesis:generate task. Use 'panotool genesis json <file>' to generate a database from it.",
+    rules: config.rules,
+    blockZeroTime: config.blockZeroTime,
+    accounts,
+    txs,
+  };
+}
+
+/**
+ * Deployed bytecode of the contract placed at the given address.
+ * Constructors do not run in genesis, so immutables are filled in here; only the UUPS self address is supported.
+ */
+async function deployedBytecode(artifacts: Artifacts, contract: string, address: string): Promise<string> {
+  const artifact = await artifacts.readArtifact(contract);
+  const buildInfo = await artifacts.getBuildInfo(`${artifact.sourceName}:${artifact.contractName}`);
+  if (!buildInfo) {
+    throw new Error(`Build info of ${contract} not found, compile the contracts first`);
+  }
+  const output = buildInfo.output.contracts[artifact.sourceName][artifact.contractName];
+  const references = output.evm.deployedBytecode.immutableReferences ?? {};
+  let code = artifact.deployedBytecode;
+  for (const [id, ranges] of Object.entries(references)) {
+    const name = findDeclarationName(buildInfo.output.sources, Number(id));
+    if (name !== '__self') {
+      throw new Error(`${contract} has an unsupported immutable ${name ?? id}`);
+    }
+    const value = zeroPadValue(address, 32).slice(2);
+    for (const { start, length } of ranges) {
+      code = code.slice(0, 2 + start * 2) + value + code.slice(2 + (start + length) * 2);
+    }
+  }
+  return code;
+}
+
+// find the name of an AST node by its ID
+function findDeclarationName(sources: Record<string, { ast: unknown }>, id: number): string | undefined {
+  const visit = (node: unknown): string | undefined => {
+    if (typeof node !== 'object' || node === null) {
+      return undefined;
+    }
+    if ((node as { id?: number }).id === id && typeof (node as { name?: unknown }).name === 'string') {
+      return (node as { name: string }).name;
+    }
+    for (const child of Object.values(node)) {
+      const found = visit(child);
+      if (found !== undefined) {
+        return found;
+      }
+    }
+    return undefined;
+  };
+  for (const source of Object.values(sources)) {
+    const found = visit(source.ast);
+    if (found !== undefined) {
+      return found;
+    }
+  }
+  return undefined;
+}
+
+/** Serialize the genesis like example-genesis.json, with balances as plain JSON numbers. */
+function formatGenesis(genesis: Genesis): string {
+  const json = JSON.stringify(genesis, (_, v) => (typeof v === 'bigint' ? `bigint:${v}` : v), 2);
+  return json.replace(/"bigint:(\d+)"/g, '$1') + '\n';
+}
+
+/** Sizes of the generated code, for a quick sanity check of the output. */
+function codeSizes(genesis: Genesis): Record<string, number> {
+  return Object.fromEntries(genesis.accounts.filter(a => a.code).map(a => [a.name ?? a.address, dataLength(a.code!)]));
+}
+
+export {
+  GenesisConfig,
+  GenesisAccount,
+  GenesisTx,
+  Genesis,
+  NETWORK_INITIALIZER_ADDRESS,
+  INITIALIZABLE_SLOT,
+  generateGenesis,
+  formatGenesis,
+  codeSizes,
+};
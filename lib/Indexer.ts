@@ -0,0 +1,425 @@
+import { Interface, Log, LogDescription, Provider, getAddress } from 'ethers';
+import * as fs from 'fs';
+import initSqlJs, { Database, SqlValue } from 'sql.js';
+
+// Indexer of the SFC, NodeDriver and SubsidiesRegistry events into a SQLite database.
+// Stakes only change by Delegated and Undelegated, so the stakes table matches SFC.getStake once synced from
+// the SFC deployment block. The last indexed block is saved with every batch, an interrupted sync resumes there.
+// Reorganizations are not handled, stay behind the head with the confirmations option.
+
+const SFC_EVENTS = [
+  'event CreatedValidator(uint256 indexed validatorID, address indexed auth, uint256 createdEpoch, uint256 createdTime)',
+  'event DeactivatedValidator(uint256 indexed validatorID, uint256 deactivatedEpoch, uint256 deactivatedTime)',
+  'event ChangedValidatorStatus(uint256 indexed validatorID, uint256 status)',
+  'event Delegated(address indexed delegator, uint256 indexed toValidatorID, uint256 amount)',
+  'event Undelegated(address indexed delegator, uint256 indexed toValidatorID, uint256 indexed wrID, uint256 amount)',
+  'event Withdrawn(address indexed delegator, uint256 indexed toValidatorID, uint256 indexed wrID, uint256 amount, uint256 penalty)',
+  'event ClaimedRewards(address indexed delegator, uint256 indexed toValidatorID, uint256 rewards)',
+  'event RestakedRewards(address indexed delegator, uint256 indexed toValidatorID, uint256 rewards)',
+  'event DistributedExtraRewards(uint256 indexed epochID, uint256 received, uint256 distributed)',
+  'event BurntNativeTokens(uint256 amount)',
+  'event UpdatedSlashingRefundRatio(uint256 indexed validatorID, uint256 refundRatio)',
+  'event AnnouncedRedirection(address indexed from, address indexed to)',
+  'event TreasuryFeesResolved(uint256 amount)',
+];
+
+const NODE_DRIVER_EVENTS = [
+  'event UpdateValidatorWeight(uint256 indexed validatorID, uint256 weight)',
+  'event UpdateValidatorPubkey(uint256 indexed validatorID, bytes pubkey)',
+  'event UpdateNetworkRules(bytes diff)',
+  'event UpdateNetworkVersion(uint256 version)',
+  'event AdvanceEpochs(uint256 num)',
+];
+
+const SUBSIDIES_REGISTRY_EVENTS = [
+  'event Sponsored(bytes32 indexed fundId, address indexed sponsor, uint256 amount)',
+  'event Withdrawn(bytes32 indexed fundId, address indexed sponsor, uint256 amount)',
+];
+
+// amounts are stored as decimal strings, SQLite integers are limited to 64 bits
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS checkpoint (id INTEGER PRIMARY KEY CHECK (id = 1), block_number INTEGER NOT NULL);
+CREATE TABLE IF NOT EXISTS events (
+  block_number INTEGER NOT NULL,
+  log_index INTEGER NOT NULL,
+  tx_hash TEXT NOT NULL,
+  contract TEXT NOT NULL,
+  name TEXT NOT NULL,
+  args TEXT NOT NULL,
+  PRIMARY KEY (block_number, log_index)
+);
+CREATE INDEX IF NOT EXISTS events_name ON events (contract, name);
+CREATE TABLE IF NOT EXISTS validators (
+  validator_id INTEGER PRIMARY KEY,
+  auth TEXT NOT NULL,
+  created_epoch INTEGER NOT NULL,
+  created_time INTEGER NOT NULL,
+  status INTEGER NOT NULL DEFAULT 0,
+  deactivated_epoch INTEGER NOT NULL DEFAULT 0,
+  deactivated_time INTEGER NOT NULL DEFAULT 0,
+  weight TEXT NOT NULL DEFAULT '0',
+  pubkey TEXT
+);
+CREATE TABLE IF NOT EXISTS stakes (
+  delegator TEXT NOT NULL,
+  validator_id INTEGER NOT NULL,
+  amount TEXT NOT NULL,
+  PRIMARY KEY (delegator, validator_id)
+);
+CREATE TABLE IF NOT EXISTS withdrawal_requests (
+  delegator TEXT NOT NULL,
+  validator_id INTEGER NOT NULL,
+  wr_id TEXT NOT NULL,
+  amount TEXT NOT NULL,
+  block_number INTEGER NOT NULL,
+  tx_hash TEXT NOT NULL,
+  PRIMARY KEY (delegator, validator_id, wr_id)
+);
+CREATE TABLE IF NOT EXISTS sponsorships (
+  fund_id TEXT NOT NULL,
+  sponsor TEXT NOT NULL,
+  sponsored TEXT NOT NULL,
+  withdrawn TEXT NOT NULL,
+  PRIMARY KEY (fund_id, sponsor)
+);
+`;
+
+type IndexedContract = 'SFC' | 'NodeDriver' | 'SubsidiesRegistry';
+
+interface IndexerAddresses {
+  sfc: string;
+  nodeDriver: string;
+  subsidiesRegistry?: string;
+}
+
+interface IndexerOptions {
+  // database file, in memory only when not given
+  path?: string;
+  // first block to index when there is no checkpoint yet, e.g. the SFC deployment block
+  startBlock?: number;
+  // blocks per eth_getLogs request
+  batchSize?: number;
+  // blocks behind the head left unindexed
+  confirmations?: number;
+}
+
+interface StakeRow {
+  delegator: string;
+  validatorID: bigint;
+  amount: bigint;
+}
+
+interface WithdrawalRequestRow {
+  delegator: string;
+  validatorID: bigint;
+  wrID: bigint;
+  amount: bigint;
+  blockNumber: number;
+  txHash: string;
+}
+
+interface ValidatorRow {
+  validatorID: bigint;
+  auth: string;
+  createdEpoch: bigint;
+  createdTime: bigint;
+  status: bigint;
+  deactivatedEpoch: bigint;
+  deactivatedTime: bigint;
+  weight: bigint;
+  pubkey?: string;
+}
+
+interface IndexedEvent {
+  blockNumber: number;
+  logIndex: number;
+  txHash: string;
+  contract: IndexedContract;
+  name: string;
+  // values as strings, arrays for tuples
+  args: Record<string, unknown>;
+}
+
+class Indexer {
+  public readonly db: Database;
+  private readonly provider: Provider;
+  private readonly contracts: Map<string, { name: IndexedContract; iface: Interface }>;
+  private readonly options: IndexerOptions;
+
+  private constructor(db: Database, provider: Provider, addresses: IndexerAddresses, options: IndexerOptions) {
+    this.db = db;
+    this.provider = provider;
+    this.options = options;
+    this.contracts = new Map([
+      [getAddress(addresses.sfc), { name: 'SFC', iface: new Interface(SFC_EVENTS) }],
+      [getAddress(addresses.nodeDriver), { name: 'NodeDriver', iface: new Interface(NODE_DRIVER_EVENTS) }],
+    ]);
+    if (addresses.subsidiesRegistry) {
+      this.contracts.set(getAddress(addresses.subsidiesRegistry), {
+        name: 'SubsidiesRegistry',
+        iface: new Interface(SUBSIDIES_REGISTRY_EVENTS),
+      });
+    }
+    this.db.exec(SCHEMA);
+  }
+
+  /** Open the indexer database, loading the file when it exists. */
+  static async open(provider: Provider, addresses: IndexerAddresses, options: IndexerOptions = {}): Promise<Indexer> {
+    const SQL = await initSqlJs();
+    const data = options.path && fs.existsSync(options.path) ? fs.readFileSync(options.path) : undefined;
+    return new Indexer(new SQL.Database(data), provider, addresses, options);
+  }
+
+  /** Last indexed block, undefined before the first sync. */
+  checkpoint(): number | undefined {
+    const row = this.query('SELECT block_number FROM checkpoint WHERE id = 1')[0];
+    return row ? Number(row.block_number) : undefined;
+  }
+
+  /**
+   * Index the events up to the given block (the head minus confirmations by default).
+   * Returns the number of indexed events.
+   */
+  async sync(toBlock?: number, onBatch?: (from: number, to: number, events: number) => void): Promise<number> {
+    const head = (await this.provider.getBlockNumber()) - (this.options.confirmations ?? 0);
+    const target = Math.min(toBlock ?? head, head);
+    const batchSize = this.options.batchSize ?? 2000;
+    let from = (this.checkpoint() ?? (this.options.startBlock ?? 0) - 1) + 1;
+    let indexed = 0;
+    while (from <= target) {
+      const to = Math.min(from + batchSize - 1, target);
+      const logs = await this.provider.getLogs({ address: [...this.contracts.keys()], fromBlock: from, toBlock: to });
+      logs.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+      this.db.exec('BEGIN');
+      try {
+        for (const log of logs) {
+          this.apply(log);
+        }
+        this.db.run('INSERT OR REPLACE INTO checkpoint (id, block_number) VALUES (1, ?)', [to]);
+        this.db.exec('COMMIT');
+      } catch (err) {
+        this.db.exec('ROLLBACK');
+        throw err;
+      }
+      this.save();
+      indexed += logs.length;
+      onBatch?.(from, to, logs.length);
+      from = to + 1;
+    }
+    return indexed;
+  }
+
+  /** Write the database to its file, through a temporary file so an interrupted write keeps the previous one. */
+  save() {
+    if (this.options.path) {
+      fs.writeFileSync(`${this.options.path}.tmp`, this.db.export());
+      fs.renameSync(`${this.options.path}.tmp`, this.options.path);
+    }
+  }
+
+  close() {
+    this.db.close();
+  }
+
+  /** Non-zero stakes, optionally of a single delegator. */
+  stakes(delegator?: string): StakeRow[] {
+    const rows = delegator
+      ? this.query("SELECT * FROM stakes WHERE delegator = ? AND amount != '0' ORDER BY validator_id", [
+          getAddress(delegator),
+        ])
+      : this.query("SELECT * FROM stakes WHERE amount != '0' ORDER BY delegator, validator_id");
+    return rows.map(row => ({
+      delegator: String(row.delegator),
+      validatorID: BigInt(row.validator_id as number),
+      amount: BigInt(row.amount as string),
+    }));
+  }
+
+  /** Stake of the delegator, as SFC.getStake. */
+  getStake(delegator: string, validatorID: bigint): bigint {
+    const row = this.query('SELECT amount FROM stakes WHERE delegator = ? AND validator_id = ?', [
+      getAddress(delegator),
+      Number(validatorID),
+    ])[0];
+    return row ? BigInt(row.amount as string) : 0n;
+  }
+
+  /** Withdrawal requests not withdrawn yet, optionally of a single delegator. */
+  withdrawalRequests(delegator?: string): WithdrawalRequestRow[] {
+    const rows = delegator
+      ? this.query('SELECT * FROM withdrawal_requests WHERE delegator = ? ORDER BY validator_id, block_number', [
+          getAddress(delegator),
+        ])
+      : this.query('SELECT * FROM withdrawal_requests ORDER BY delegator, validator_id, block_number');
+    return rows.map(row => ({
+      delegator: String(row.delegator),
+      validatorID: BigInt(row.validator_id as number),
+      wrID: BigInt(row.wr_id as string),
+      amount: BigInt(row.amount as string),
+      blockNumber: Number(row.block_number),
+      txHash: String(row.tx_hash),
+    }));
+  }
+
+  validators(): ValidatorRow[] {
+    return this.query('SELECT * FROM validators ORDER BY validator_id').map(row => ({
+      validatorID: BigInt(row.validator_id as number),
+      auth: String(row.auth),
+      createdEpoch: BigInt(row.created_epoch as number),
+      createdTime: BigInt(row.created_time as number),
+      status: BigInt(row.status as number),
+      deactivatedEpoch: BigInt(row.deactivated_epoch as number),
+      deactivatedTime: BigInt(row.deactivated_time as number),
+      weight: BigInt(row.weight as string),
+      pubkey: row.pubkey === null ? undefined : String(row.pubkey),
+    }));
+  }
+
+  /** Stored events, optionally filtered by name and emitting contract (the SFC and the registry both emit Withdrawn). */
+  events(name?: string, contract?: IndexedContract): IndexedEvent[] {
+    const filters: string[] = [];
+    const params: SqlValue[] = [];
+    if (name) {
+      filters.push('name = ?');
+      params.push(name);
+    }
+    if (contract) {
+      filters.push('contract = ?');
+      params.push(contract);
+    }
+    const where = filters.length > 0 ? ` WHERE ${filters.join(' AND ')}` : '';
+    const rows = this.query(`SELECT * FROM events${where} ORDER BY block_number, log_index`, params);
+    return rows.map(row => ({
+      blockNumber: Number(row.block_number),
+      logIndex: Number(row.log_index),
+      txHash: String(row.tx_hash),
+      contract: row.contract as IndexedContract,
+      name: String(row.name),
+      args: JSON.parse(String(row.args)),
+    }));
+  }
+
+  /** Rows of a read-only query, for reports not covered by the accessors. */
+  query(sql: string, params: SqlValue[] = []): Record<string, SqlValue>[] {
+    const statement = this.db.prepare(sql, params);
+    const rows: Record<string, SqlValue>[] = [];
+    while (statement.step()) {
+      rows.push(statement.getAsObject());
+    }
+    statement.free();
+    return rows;
+  }
+
+  private apply(log: Log) {
+    const contract = this.contracts.get(getAddress(log.address));
+    const parsed = contract?.iface.parseLog(log);
+    if (!contract || !parsed) {
+      return;
+    }
+    this.db.run(
+      'INSERT OR REPLACE INTO events (block_number, log_index, tx_hash, contract, name, args) VALUES (?, ?, ?, ?, ?, ?)',
+      [log.blockNumber, log.index, log.transactionHash, contract.name, parsed.name, JSON.stringify(eventArgs(parsed))],
+    );
+    const a = parsed.args;
+    switch (`${contract.name}.${parsed.name}`) {
+      case 'SFC.CreatedValidator':
+        this.db.run(
+          'INSERT OR REPLACE INTO validators (validator_id, auth, created_epoch, created_time) VALUES (?, ?, ?, ?)',
+          [Number(a.validatorID), a.auth, Number(a.createdEpoch), Number(a.createdTime)],
+        );
+        break;
+      case 'SFC.DeactivatedValidator':
+        this.db.run('UPDATE validators SET deactivated_epoch = ?, deactivated_time = ? WHERE validator_id = ?', [
+          Number(a.deactivatedEpoch),
+          Number(a.deactivatedTime),
+          Number(a.validatorID),
+        ]);
+        break;
+      case 'SFC.ChangedValidatorStatus':
+        this.db.run('UPDATE validators SET status = ? WHERE validator_id = ?', [
+          Number(a.status),
+          Number(a.validatorID),
+        ]);
+        break;
+      case 'SFC.Delegated':
+        this.addStake(a.delegator, a.toValidatorID, a.amount);
+        break;
+      case 'SFC.Undelegated':
+        this.addStake(a.delegator, a.toValidatorID, -(a.amount as bigint));
+        this.db.run(
+          'INSERT OR REPLACE INTO withdrawal_requests (delegator, validator_id, wr_id, amount, block_number, tx_hash) VALUES (?, ?, ?, ?, ?, ?)',
+          [
+            a.delegator,
+            Number(a.toValidatorID),
+            a.wrID.toString(),
+            a.amount.toString(),
+            log.blockNumber,
+            log.transactionHash,
+          ],
+        );
+        break;
+      case 'SFC.Withdrawn':
+        this.db.run('DELETE FROM withdrawal_requests WHERE delegator = ? AND validator_id = ? AND wr_id = ?', [
+          a.delegator,
+          Number(a.toValidatorID),
+          a.wrID.toString(),
+        ]);
+        break;
+      case 'NodeDriver.UpdateValidatorWeight':
+        this.db.run('UPDATE validators SET weight = ? WHERE validator_id = ?', [
+          a.weight.toString(),
+          Number(a.validatorID),
+        ]);
+        break;
+      case 'NodeDriver.UpdateValidatorPubkey':
+        this.db.run('UPDATE validators SET pubkey = ? WHERE validator_id = ?', [a.pubkey, Number(a.validatorID)]);
+        break;
+      case 'SubsidiesRegistry.Sponsored':
+        this.addContribution(a.fundId, a.sponsor, a.amount, 0n);
+        break;
+      case 'SubsidiesRegistry.Withdrawn':
+        this.addContribution(a.fundId, a.sponsor, 0n, a.amount);
+        break;
+    }
+  }
+
+  private addStake(delegator: string, validatorID: bigint, amount: bigint) {
+    const stake = this.getStake(delegator, validatorID) + amount;
+    this.db.run('INSERT OR REPLACE INTO stakes (delegator, validator_id, amount) VALUES (?, ?, ?)', [
+      delegator,
+      Number(validatorID),
+      stake.toString(),
+    ]);
+  }
+
+  private addContribution(fundId: string, sponsor: string, sponsored: bigint, withdrawn: bigint) {
+    const row = this.query('SELECT * FROM sponsorships WHERE fund_id = ? AND sponsor = ?', [fundId, sponsor])[0];
+    this.db.run('INSERT OR REPLACE INTO sponsorships (fund_id, sponsor, sponsored, withdrawn) VALUES (?, ?, ?, ?)', [
+      fundId,
+      sponsor,
+      (BigInt((row?.sponsored as string) ?? '0') + sponsored).toString(),
+      (BigInt((row?.withdrawn as string) ?? '0') + withdrawn).toString(),
+    ]);
+  }
+}
+
+// named event args with bigints as decimal strings
+function eventArgs(parsed: LogDescription): Record<string, unknown> {
+  return Object.fromEntries(
+    parsed.fragment.inputs.map((input, i) => {
+      const value = parsed.args[i];
+      return [input.name, typeof value === 'bigint' ? value.toString() : value];
+    }),
+  );
+}
+
+export {
+  Indexer,
+  IndexerAddresses,
+  IndexerOptions,
+  IndexedContract,
+  IndexedEvent,
+  StakeRow,
+  WithdrawalRequestRow,
+  ValidatorRow,
+};
@@ -0,0 +1,242 @@
+import { Interface, Provider, hexlify, toUtf8Bytes, toUtf8String } from 'ethers';
+
+// Network rules of the Pano client, as in the "rules" of the genesis JSON. NodeDriver.updateNetworkRules(diff)
+// emits the diff in the UpdateNetworkRules event, the client merges it into the current rules: objects are merged
+// recursively and other values replaced. Durations are in nanoseconds, gas prices in wei.
+
+interface GasPowerRules {
+  AllocPerSec: number;
+  MaxAllocPeriod: number;
+  StartupAllocPeriod: number;
+  MinStartupGas: number;
+}
+
+interface NetworkRules {
+  Name: string;
+  NetworkID: number;
+  Dag: {
+    MaxParents: number;
+    MaxFreeParents: number;
+    MaxExtraData: number;
+  };
+  Emitter: {
+    Interval: number;
+    StallThreshold: number;
+    StalledInterval: number;
+  };
+  Epochs: {
+    MaxEpochGas: number;
+    MaxEpochDuration: number;
+  };
+  Blocks: {
+    MaxBlockGas: number;
+    MaxEmptyBlockSkipPeriod: number;
+  };
+  Economy: {
+    BlockMissedSlack: number;
+    Gas: {
+      MaxEventGas: number;
+      EventGas: number;
+      ParentGas: number;
+      ExtraDataGas: number;
+      BlockVotesBaseGas: number;
+      BlockVoteGas: number;
+      EpochVoteGas: number;
+      MisbehaviourProofGas: number;
+    };
+    MinGasPrice: number;
+    MinBaseFee: number;
+    ShortGasPower: GasPowerRules;
+    LongGasPower: GasPowerRules;
+  };
+  Upgrades: {
+    Berlin: boolean;
+    London: boolean;
+    Llr: boolean;
+    Pano: boolean;
+    Allegro: boolean;
+    Brio: boolean;
+    SingleProposerBlockFormation: boolean;
+    GasSubsidies: boolean;
+  };
+}
+
+// recursive partial of the rules, the shape of a diff
+type RulesDiff = { [key: string]: RulesDiff | number | boolean | string };
+
+type RuleType = 'integer' | 'boolean' | 'string';
+type RulesSchema = { [key: string]: RuleType | RulesSchema };
+
+const GAS_POWER_SCHEMA: RulesSchema = {
+  AllocPerSec: 'integer',
+  MaxAllocPeriod: 'integer',
+  StartupAllocPeriod: 'integer',
+  MinStartupGas: 'integer',
+};
+
+const RULES_SCHEMA: RulesSchema = {
+  Name: 'string',
+  NetworkID: 'integer',
+  Dag: { MaxParents: 'integer', MaxFreeParents: 'integer', MaxExtraData: 'integer' },
+  Emitter: { Interval: 'integer', StallThreshold: 'integer', StalledInterval: 'integer' },
+  Epochs: { MaxEpochGas: 'integer', MaxEpochDuration: 'integer' },
+  Blocks: { MaxBlockGas: 'integer', MaxEmptyBlockSkipPeriod: 'integer' },
+  Economy: {
+    BlockMissedSlack: 'integer',
+    Gas: {
+      MaxEventGas: 'integer',
+      EventGas: 'integer',
+      ParentGas: 'integer',
+      ExtraDataGas: 'integer',
+      BlockVotesBaseGas: 'integer',
+      BlockVoteGas: 'integer',
+      EpochVoteGas: 'integer',
+      MisbehaviourProofGas: 'integer',
+    },
+    MinGasPrice: 'integer',
+    MinBaseFee: 'integer',
+    ShortGasPower: GAS_POWER_SCHEMA,
+    LongGasPower: GAS_POWER_SCHEMA,
+  },
+  Upgrades: {
+    Berlin: 'boolean',
+    London: 'boolean',
+    Llr: 'boolean',
+    Pano: 'boolean',
+    Allegro: 'boolean',
+    Brio: 'boolean',
+    SingleProposerBlockFormation: 'boolean',
+    GasSubsidies: 'boolean',
+  },
+};
+
+// identity of the network, never changed by a diff
+const IMMUTABLE_RULES = ['Name', 'NetworkID'];
+
+const NODE_DRIVER_RULES_EVENTS = new Interface(['event UpdateNetworkRules(bytes diff)']);
+
+const isObject = (value: unknown): value is RulesDiff =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Schema violations of rules or of a diff (partial = true), e.g. "Economy.MinBaseFee must be a non-negative integer".
+ * Integers must be safe JavaScript integers, the client parses them as uint64 at most.
+ */
+function validateRules(rules: unknown, partial = false, schema = RULES_SCHEMA, prefix = ''): string[] {
+  if (!isObject(rules)) {
+    return [`${prefix || 'rules'} must be an object`];
+  }
+  const errors: string[] = [];
+  for (const key of Object.keys(rules)) {
+    if (!(key in schema)) {
+      errors.push(`${prefix}${key} is not a network rule`);
+    }
+  }
+  for (const [key, type] of Object.entries(schema)) {
+    const path = `${prefix}${key}`;
+    const value = rules[key];
+    if (value === undefined) {
+      if (!partial) {
+        errors.push(`${path} is missing`);
+      }
+    } else if (typeof type === 'object') {
+      errors.push(...validateRules(value, partial, type, `${path}.`));
+    } else if (type === 'integer' && !(Number.isSafeInteger(value) && (value as number) >= 0)) {
+      errors.push(`${path} must be a non-negative integer, got ${JSON.stringify(value)}`);
+    } else if (type !== 'integer' && typeof value !== type) {
+      errors.push(`${path} must be a ${type}, got ${JSON.stringify(value)}`);
+    }
+  }
+  return errors;
+}
+
+/** Rules with the diff merged in, the way the client applies it. */
+function mergeRules<T extends object>(rules: T, diff: RulesDiff): T {
+  const merged: RulesDiff = { ...(rules as RulesDiff) };
+  for (const [key, value] of Object.entries(diff)) {
+    merged[key] = isObject(value) && isObject(merged[key]) ? mergeRules(merged[key] as RulesDiff, value) : value;
+  }
+  return merged as T;
+}
+
+/** Minimal diff turning the current rules into the desired ones, undefined when they are equal. */
+function diffRules(current: object, desired: object): RulesDiff | undefined {
+  const diff: RulesDiff = {};
+  for (const [key, value] of Object.entries(desired)) {
+    const before = (current as RulesDiff)[key];
+    if (isObject(value) && isObject(before)) {
+      const nested = diffRules(before, value);
+      if (nested) {
+        diff[key] = nested;
+      }
+    } else if (JSON.stringify(value) !== JSON.stringify(before)) {
+      diff[key] = value as RulesDiff;
+    }
+  }
+  return Object.keys(diff).length > 0 ? diff : undefined;
+}
+
+/** Changed rules of a diff as flat paths, e.g. ["Economy.MinBaseFee", "Upgrades.Brio"]. */
+function diffPaths(diff: RulesDiff, prefix = ''): string[] {
+  return Object.entries(diff).flatMap(([key, value]) =>
+    isObject(value) ? diffPaths(value, `${prefix}${key}.`) : [`${prefix}${key}`],
+  );
+}
+
+/** Bytes argument of updateNetworkRules: the diff as compact UTF-8 JSON. */
+function encodeRulesDiff(diff: RulesDiff): string {
+  return hexlify(toUtf8Bytes(JSON.stringify(diff)));
+}
+
+function decodeRulesDiff(data: string): RulesDiff {
+  return JSON.parse(toUtf8String(data));
+}
+
+interface RulesUpdate {
+  blockNumber: number;
+  transactionHash: string;
+  diff?: RulesDiff;
+  // why the client could not apply the diff, it keeps the rules unchanged then
+  error?: string;
+}
+
+/** Diffs emitted by the NodeDriver in the block range, in chain order. */
+async function networkRulesUpdates(
+  provider: Provider,
+  nodeDriver: string,
+  fromBlock: number,
+  toBlock?: number,
+): Promise<RulesUpdate[]> {
+  const logs = await provider.getLogs({
+    address: nodeDriver,
+    topics: [NODE_DRIVER_RULES_EVENTS.getEvent('UpdateNetworkRules')!.topicHash],
+    fromBlock,
+    toBlock: toBlock ?? 'latest',
+  });
+  return logs.map(log => {
+    const update = { blockNumber: log.blockNumber, transactionHash: log.transactionHash };
+    let diff: unknown;
+    try {
+      diff = decodeRulesDiff(NODE_DRIVER_RULES_EVENTS.parseLog(log)!.args.diff);
+    } catch (err) {
+      return { ...update, error: `not a JSON diff: ${(err as Error).message}` };
+    }
+    const errors = validateRules(diff, true);
+    return errors.length > 0 ? { ...update, error: errors.join(', ') } : { ...update, diff: diff as RulesDiff };
+  });
+}
+
+export {
+  NetworkRules,
+  RulesDiff,
+  RulesUpdate,
+  RULES_SCHEMA,
+  IMMUTABLE_RULES,
+  validateRules,
+  mergeRules,
+  diffRules,
+  diffPaths,
+  encodeRulesDiff,
+  decodeRulesDiff,
+  networkRulesUpdates,
+};
@@ -0,0 +1,191 @@
+import { ZeroAddress } from 'ethers';
+import type { ConstantsManager, SFC } from '../typechain-types';
+
+// Everything the SFC holds for a delegator: stakes with rewards, open withdrawal requests and redirections.
+
+const DECIMAL_UNIT = 10n ** 18n;
+
+interface PortfolioDelegation {
+  validatorID: bigint;
+  stake: bigint;
+  pendingRewards: bigint;
+  rewardsStash: bigint;
+  stashedRewardsUntilEpoch: bigint;
+  slashed: boolean;
+  refundRatio: bigint;
+  // burnt from the stake if it was withdrawn now
+  slashingPenalty: bigint;
+}
+
+interface PortfolioWithdrawalRequest {
+  validatorID: bigint;
+  wrID: bigint;
+  amount: bigint;
+  epoch: bigint;
+  time: bigint;
+  // the request is withdrawable once both the epoch is current and the time has passed,
+  // counted from the deactivation of the validator when it was deactivated before the request
+  withdrawableEpoch: bigint;
+  withdrawableTime: bigint;
+  withdrawable: boolean;
+  slashed: boolean;
+  refundRatio: bigint;
+  slashingPenalty: bigint;
+}
+
+interface Portfolio {
+  delegator: string;
+  blockNumber: number;
+  timestamp: bigint;
+  currentEpoch: bigint;
+  // receiver of withdrawals and claims of the delegator, when redirected
+  redirection?: string;
+  // redirection initiated by the authorizer, waiting for the delegator to accept it
+  redirectionRequest?: string;
+  delegations: PortfolioDelegation[];
+  withdrawalRequests: PortfolioWithdrawalRequest[];
+}
+
+interface RequestID {
+  validatorID: bigint;
+  wrID: bigint;
+}
+
+/**
+ * Epoch and time from which a withdrawal request is withdrawable as SFC._withdraw checks them, counted from the
+ * deactivation of the validator when it was deactivated before the request.
+ */
+function withdrawableFrom(
+  request: { epoch: bigint; time: bigint },
+  validator: { deactivatedEpoch: bigint; deactivatedTime: bigint },
+  periodEpochs: bigint,
+  periodTime: bigint,
+): { epoch: bigint; time: bigint; deactivatedFirst: boolean } {
+  const deactivatedFirst = validator.deactivatedTime !== 0n && validator.deactivatedTime < request.time;
+  return {
+    epoch: (deactivatedFirst ? validator.deactivatedEpoch : request.epoch) + periodEpochs,
+    time: (deactivatedFirst ? validator.deactivatedTime : request.time) + periodTime,
+    deactivatedFirst,
+  };
+}
+
+/** Slashing penalty of a withdrawal, rounded up as SFC._getSlashingPenalty. */
+function slashingPenalty(amount: bigint, slashed: boolean, refundRatio: bigint): bigint {
+  if (!slashed || refundRatio >= DECIMAL_UNIT) {
+    return 0n;
+  }
+  const penalty = (amount * (DECIMAL_UNIT - refundRatio)) / DECIMAL_UNIT + 1n;
+  return penalty > amount ? amount : penalty;
+}
+
+/** IDs of the withdrawal requests created by the delegator, from the Undelegated events. */
+async function undelegatedRequestIDs(sfc: SFC, delegator: string, fromBlock = 0, toBlock?: number) {
+  const events = await sfc.queryFilter(sfc.filters.Undelegated(delegator), fromBlock, toBlock);
+  return events.map(e => ({ validatorID: e.args.toValidatorID, wrID: e.args.wrID }));
+}
+
+/**
+ * Read the portfolio of the delegator at the given block, with the constants of the SFC. Stakes and rewards are
+ * read for every validator, withdrawal requests cannot be enumerated on chain so the candidate IDs are given
+ * (withdrawn ones are skipped).
+ */
+async function delegatorPortfolio(
+  sfc: SFC,
+  constants: ConstantsManager,
+  delegator: string,
+  requestIDs: RequestID[],
+  blockNumber?: number,
+): Promise<Portfolio> {
+  const block = (await sfc.runner!.provider!.getBlock(blockNumber ?? 'latest'))!;
+  const blockTag = block.number;
+  const periodEpochs = await constants.withdrawalPeriodEpochs({ blockTag });
+  const periodTime = await constants.withdrawalPeriodTime({ blockTag });
+  const currentEpoch = await sfc.currentEpoch({ blockTag });
+  const validators = new Map<bigint, { slashed: boolean; refundRatio: bigint }>();
+  const validator = async (validatorID: bigint) => {
+    if (!validators.has(validatorID)) {
+      validators.set(validatorID, {
+        slashed: await sfc.isSlashed(validatorID, { blockTag }),
+        refundRatio: await sfc.slashingRefundRatio(validatorID, { blockTag }),
+      });
+    }
+    return validators.get(validatorID)!;
+  };
+
+  const delegations: PortfolioDelegation[] = [];
+  const lastValidatorID = await sfc.lastValidatorID({ blockTag });
+  for (let validatorID = 1n; validatorID <= lastValidatorID; validatorID++) {
+    const stake = await sfc.getStake(delegator, validatorID, { blockTag });
+    const pendingRewards = await sfc.pendingRewards(delegator, validatorID, { blockTag });
+    if (stake === 0n && pendingRewards === 0n) {
+      continue;
+    }
+    const { slashed, refundRatio } = await validator(validatorID);
+    delegations.push({
+      validatorID,
+      stake,
+      pendingRewards,
+      rewardsStash: await sfc.rewardsStash(delegator, validatorID, { blockTag }),
+      stashedRewardsUntilEpoch: await sfc.stashedRewardsUntilEpoch(delegator, validatorID, { blockTag }),
+      slashed,
+      refundRatio,
+      slashingPenalty: slashingPenalty(stake, slashed, refundRatio),
+    });
+  }
+
+  const withdrawalRequests: PortfolioWithdrawalRequest[] = [];
+  const seen = new Set<string>();
+  for (const { validatorID, wrID } of requestIDs) {
+    const key = `${validatorID}/${wrID}`;
+    if (seen.has(key)) {
+      continue;
+    }
+    seen.add(key);
+    const request = await sfc.getWithdrawalRequest(delegator, validatorID, wrID, { blockTag });
+    if (request.amount === 0n) {
+      continue;
+    }
+    const { slashed, refundRatio } = await validator(validatorID);
+    const from = withdrawableFrom(request, await sfc.getValidator(validatorID, { blockTag }), periodEpochs, periodTime);
+    const [withdrawableEpoch, withdrawableTime] = [from.epoch, from.time];
+    withdrawalRequests.push({
+      validatorID,
+      wrID,
+      amount: request.amount,
+      epoch: request.epoch,
+      time: request.time,
+      withdrawableEpoch,
+      withdrawableTime,
+      withdrawable: currentEpoch >= withdrawableEpoch && BigInt(block.timestamp) >= withdrawableTime,
+      slashed,
+      refundRatio,
+      slashingPenalty: slashingPenalty(request.amount, slashed, refundRatio),
+    });
+  }
+  withdrawalRequests.sort((a, b) => Number(a.validatorID - b.validatorID) || Number(a.wrID - b.wrID));
+
+  const redirection = await sfc.getRedirection(delegator, { blockTag });
+  const redirectionRequest = await sfc.getRedirectionRequest(delegator, { blockTag });
+  return {
+    delegator,
+    blockNumber: block.number,
+    timestamp: BigInt(block.timestamp),
+    currentEpoch,
+    redirection: redirection === ZeroAddress ? undefined : redirection,
+    redirectionRequest:
+      redirectionRequest === ZeroAddress || redirectionRequest === redirection ? undefined : redirectionRequest,
+    delegations,
+    withdrawalRequests,
+  };
+}
+
+export {
+  Portfolio,
+  PortfolioDelegation,
+  PortfolioWithdrawalRequest,
+  RequestID,
+  slashingPenalty,
+  withdrawableFrom,
+  undelegatedRequestIDs,
+  delegatorPortfolio,
+};
@@ -0,0 +1,124 @@
+import { ZeroAddress, getAddress } from 'ethers';
+import type { SFC } from '../typechain-types';
+
+// Redirection of the withdrawals and claims of an account whose key was compromised. The flow spans three actors:
+//  1. the victim announces the redirection with announceRedirection(to) (AnnouncedRedirection event),
+//  2. the redirectionAuthorizer initiates it with initiateRedirection(from, to) (getRedirectionRequest),
+//  3. the victim, still holding the key, accepts it with redirect(to) (getRedirection).
+// The checks below mirror the reverts of the SFC, so the transactions are only produced when they would pass.
+
+type RedirectionStatus = 'none' | 'announced' | 'initiated' | 'redirected';
+
+interface RedirectionAnnouncement {
+  to: string;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+interface RedirectionState {
+  from: string;
+  // announcements of the account, oldest first
+  announcements: RedirectionAnnouncement[];
+  // initiated by the authorizer, waiting for the acceptance
+  request?: string;
+  // active redirection
+  redirection?: string;
+  status: RedirectionStatus;
+}
+
+// SFC custom error a transaction would revert with, and why
+interface RedirectionError {
+  error: string;
+  message: string;
+}
+
+/** Pending and active redirection of an account. */
+async function redirectionState(
+  sfc: SFC,
+  from: string,
+  announcements: RedirectionAnnouncement[] = [],
+  blockTag?: number,
+): Promise<RedirectionState> {
+  const request = await sfc.getRedirectionRequest(from, { blockTag });
+  const redirection = await sfc.getRedirection(from, { blockTag });
+  const state: RedirectionState = {
+    from: getAddress(from),
+    announcements,
+    status: announcements.length > 0 ? 'announced' : 'none',
+  };
+  if (redirection !== ZeroAddress) {
+    state.redirection = redirection;
+    state.status = 'redirected';
+  }
+  if (request !== ZeroAddress) {
+    state.request = request;
+    state.status = 'initiated';
+  }
+  return state;
+}
+
+/** Accounts which announced a redirection in the block range, with their current state, by first announcement. */
+async function announcedRedirections(
+  sfc: SFC,
+  fromBlock = 0,
+  toBlock?: number,
+  from?: string,
+): Promise<RedirectionState[]> {
+  const events = await sfc.queryFilter(sfc.filters.AnnouncedRedirection(from), fromBlock, toBlock);
+  const announcements = new Map<string, RedirectionAnnouncement[]>();
+  for (const event of events) {
+    const list = announcements.get(event.args.from) ?? [];
+    list.push({ to: event.args.to, blockNumber: event.blockNumber, transactionHash: event.transactionHash });
+    announcements.set(event.args.from, list);
+  }
+  const states: RedirectionState[] = [];
+  for (const [account, list] of announcements) {
+    states.push(await redirectionState(sfc, account, list, toBlock));
+  }
+  return states;
+}
+
+/** Error initiateRedirection(from, to) sent by the authorizer would revert with, undefined when it passes. */
+function initiateRedirectionError(
+  state: RedirectionState,
+  to: string,
+  authorizer: string,
+): RedirectionError | undefined {
+  if (authorizer === ZeroAddress) {
+    return { error: 'NotAuthorized', message: 'no redirection authorizer is set, see SFC.setRedirectionAuthorizer' };
+  }
+  if ((state.redirection ?? ZeroAddress) === getAddress(to)) {
+    return { error: 'AlreadyRedirected', message: `${state.from} is already redirected to ${to}` };
+  }
+  if (state.from === getAddress(to)) {
+    return { error: 'SameAddress', message: 'an account can not be redirected to itself' };
+  }
+  return undefined;
+}
+
+/** Error redirect(to) sent by the redirected account would revert with, undefined when it passes. */
+function acceptRedirectionError(state: RedirectionState, to: string): RedirectionError | undefined {
+  if (getAddress(to) === ZeroAddress) {
+    return { error: 'ZeroAddress', message: 'redirection to the zero address' };
+  }
+  if ((state.request ?? ZeroAddress) !== getAddress(to)) {
+    return {
+      error: 'RequestNotExists',
+      message: state.request
+        ? `the initiated redirection of ${state.from} is to ${state.request}, not to ${to}`
+        : `no redirection of ${state.from} was initiated by the authorizer`,
+    };
+  }
+  return undefined;
+}
+
+export {
+  RedirectionStatus,
+  RedirectionAnnouncement,
+  RedirectionState,
+  RedirectionError,
+  redirectionState,
+  announcedRedirections,
+  initiateRedirectionError,
+  acceptRedirectionError,
+};
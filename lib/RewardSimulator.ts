@@ -0,0 +1,451 @@
+// Off-chain model of the SFC epoch economics.
+// Mirrors SFC._sealEpochOffline(), SFC._sealEpochRewards() and the rewards stashing logic with the same
+// integer arithmetic, so the computed values are expected to match the contract state to the last wei.
+// The module does not depend on Hardhat and can be used by any TypeScript consumer (dashboards, scripts, tests).
+
+const DECIMAL_UNIT = 10n ** 18n;
+
+/**
+ * Subset of ConstantsManager values used while sealing an epoch.
+ */
+interface EconomicConstants {
+  baseRewardPerSecond: bigint;
+  validatorCommission: bigint;
+  burntFeeShare: bigint;
+  treasuryFeeShare: bigint;
+  offlinePenaltyThresholdBlocksNum: bigint;
+  offlinePenaltyThresholdTime: bigint;
+}
+
+/**
+ * Per-validator inputs of a single sealEpoch() call.
+ */
+interface ValidatorEpochInput {
+  validatorID: bigint;
+  // validator weight stored in the epoch snapshot by sealEpochValidators()
+  snapshotStake: bigint;
+  // latest received stake of the validator (used for reward per token)
+  receivedStake: bigint;
+  // self-stake of the validator; the commission is not paid when zero
+  selfStake: bigint;
+  offlineTime: bigint;
+  offlineBlocks: bigint;
+  uptime: bigint;
+  // accumulated originated txs fee as passed to sealEpoch()
+  accumulatedOriginatedTxsFee: bigint;
+  // accumulated originated txs fee stored in the previous epoch snapshot
+  prevAccumulatedOriginatedTxsFee: bigint;
+}
+
+interface SealEpochInput {
+  epochDuration: bigint;
+  validators: ValidatorEpochInput[];
+  // whether SFC.treasuryAddress is set (the treasury fee share is minted only then)
+  treasurySet: boolean;
+}
+
+interface ValidatorEpochRewards {
+  validatorID: bigint;
+  baseReward: bigint;
+  txReward: bigint;
+  rawReward: bigint;
+  // commission stashed to the validator auth (zero when the validator has no self-stake)
+  commission: bigint;
+  delegatorsReward: bigint;
+  // increment of accumulatedRewardPerToken for the sealed epoch
+  rewardPerToken: bigint;
+  // validator is deactivated by OFFLINE_BIT during the sealing
+  offline: boolean;
+}
+
+interface SealEpochRewards {
+  epochFee: bigint;
+  // fees minted to the treasury address
+  treasuryFee: bigint;
+  // fees paid as validators tx rewards (minted later, on claim)
+  txRewards: bigint;
+  // fees removed from the supply for good, including rounding dust
+  burntFee: bigint;
+  baseRewards: bigint;
+  validators: ValidatorEpochRewards[];
+}
+
+/**
+ * Compute the rewards of a single epoch the same way as SFC._sealEpochRewards() does.
+ */
+function computeSealEpochRewards(constants: EconomicConstants, input: SealEpochInput): SealEpochRewards {
+  const duration = input.epochDuration > 0n ? input.epochDuration : 1n;
+
+  let epochFee = 0n;
+  let totalTxRewardWeight = 0n;
+  let totalBaseRewardWeight = 0n;
+  const txRewardWeights: bigint[] = [];
+  const baseRewardWeights: bigint[] = [];
+  for (const v of input.validators) {
+    let originatedTxsFee = 0n;
+    if (v.accumulatedOriginatedTxsFee > v.prevAccumulatedOriginatedTxsFee) {
+      originatedTxsFee = v.accumulatedOriginatedTxsFee - v.prevAccumulatedOriginatedTxsFee;
+    }
+    const txRewardWeight = (originatedTxsFee * v.uptime) / duration;
+    txRewardWeights.push(txRewardWeight);
+    totalTxRewardWeight += txRewardWeight;
+    epochFee += originatedTxsFee;
+
+    const baseRewardWeight = (((v.snapshotStake * v.uptime) / duration) * v.uptime) / duration;
+    baseRewardWeights.push(baseRewardWeight);
+    totalBaseRewardWeight += baseRewardWeight;
+  }
+
+  const result: SealEpochRewards = {
+    epochFee,
+    treasuryFee: 0n,
+    txRewards: 0n,
+    burntFee: 0n,
+    baseRewards: 0n,
+    validators: [],
+  };
+
+  input.validators.forEach((v, i) => {
+    let baseReward = 0n;
+    if (baseRewardWeights[i] !== 0n) {
+      baseReward = (duration * constants.baseRewardPerSecond * baseRewardWeights[i]) / totalBaseRewardWeight;
+    }
+    let txReward = 0n;
+    if (txRewardWeights[i] !== 0n) {
+      txReward = (epochFee * txRewardWeights[i]) / totalTxRewardWeight;
+      txReward = (txReward * (DECIMAL_UNIT - constants.burntFeeShare - constants.treasuryFeeShare)) / DECIMAL_UNIT;
+    }
+    const rawReward = baseReward + txReward;
+    const commissionFull = (rawReward * constants.validatorCommission) / DECIMAL_UNIT;
+    const delegatorsReward = rawReward - commissionFull;
+    let rewardPerToken = 0n;
+    if (v.receivedStake !== 0n) {
+      rewardPerToken = (delegatorsReward * DECIMAL_UNIT) / v.receivedStake;
+    }
+
+    result.baseRewards += baseReward;
+    result.txRewards += txReward;
+    result.validators.push({
+      validatorID: v.validatorID,
+      baseReward,
+      txReward,
+      rawReward,
+      commission: v.selfStake !== 0n ? commissionFull : 0n,
+      delegatorsReward,
+      rewardPerToken,
+      offline:
+        v.offlineBlocks > constants.offlinePenaltyThresholdBlocksNum &&
+        v.offlineTime >= constants.offlinePenaltyThresholdTime,
+    });
+  });
+
+  if (input.treasurySet) {
+    result.treasuryFee = (epochFee * constants.treasuryFeeShare) / DECIMAL_UNIT;
+  }
+  result.burntFee = epochFee - result.treasuryFee - result.txRewards;
+  return result;
+}
+
+interface ExtraRewardDistribution {
+  // value sent with the distributeExtraReward() call
+  received: bigint;
+  // amount meant to be distributed after the optional burn
+  toDistribute: bigint;
+  // sum of the validators shares, as emitted in DistributedExtraRewards
+  distributed: bigint;
+  // burnt for good, including rounding dust
+  burnt: bigint;
+  // validator shares stashed to the validator auth
+  shares: { validatorID: bigint; share: bigint }[];
+}
+
+/**
+ * Split extra rewards among validators of an epoch the same way as SFC.distributeExtraReward() does.
+ */
+function computeExtraRewardDistribution(
+  amount: bigint,
+  withBurn: boolean,
+  extraRewardsBurnRatio: bigint,
+  epochStakes: { validatorID: bigint; receivedStake: bigint }[],
+): ExtraRewardDistribution {
+  let toDistribute = amount;
+  if (withBurn) {
+    toDistribute = (amount * (DECIMAL_UNIT - extraRewardsBurnRatio)) / DECIMAL_UNIT;
+  }
+  const totalStake = epochStakes.reduce((acc, v) => acc + v.receivedStake, 0n);
+  const shares: { validatorID: bigint; share: bigint }[] = [];
+  let distributed = 0n;
+  for (const { validatorID, receivedStake } of epochStakes) {
+    const share = (toDistribute * receivedStake) / totalStake;
+    if (share > 0n) {
+      shares.push({ validatorID, share });
+      distributed += share;
+    }
+  }
+  return { received: amount, toDistribute, distributed, burnt: amount - distributed, shares };
+}
+
+/**
+ * Metrics of a validator reported by the node for a sealed epoch.
+ */
+interface EpochMetrics {
+  offlineTime: bigint;
+  offlineBlocks: bigint;
+  uptime: bigint;
+  // accumulated, i.e. the same value as passed to sealEpoch()
+  originatedTxsFee: bigint;
+}
+
+interface SimulatedValidator {
+  auth: string;
+  receivedStake: bigint;
+  deactivatedEpoch: bigint;
+}
+
+/**
+ * Stateful model of the SFC staking and rewarding.
+ * The caller replays validator creations, (un)delegations, claims and epoch sealing in the same order
+ * as they happened on chain; the model then provides the expected epoch rewards and pending rewards.
+ */
+class RewardSimulator {
+  public currentSealedEpoch: bigint;
+  public readonly validators: Map<bigint, SimulatedValidator> = new Map();
+  public readonly epochRewards: Map<bigint, SealEpochRewards> = new Map();
+
+  private readonly stakes: Map<string, bigint> = new Map();
+  private readonly rewardsStash: Map<string, bigint> = new Map();
+  private readonly stashedRewardsUntilEpoch: Map<string, bigint> = new Map();
+  // epoch => validator ID => accumulated reward per token
+  private readonly accumulatedRewardPerToken: Map<bigint, Map<bigint, bigint>> = new Map();
+  // validator ID => accumulated originated txs fee of the last sealed epoch
+  private readonly accumulatedOriginatedTxsFee: Map<bigint, bigint> = new Map();
+  // epoch => validator ID => validator weight stored by sealEpochValidators()
+  private readonly epochReceivedStakes: Map<bigint, Map<bigint, bigint>> = new Map();
+
+  constructor(sealedEpoch: bigint = 0n) {
+    this.currentSealedEpoch = sealedEpoch;
+  }
+
+  /**
+   * Deep copy of the simulator state, e.g. for what-if calculations.
+   */
+  clone(): RewardSimulator {
+    return Object.assign(Object.create(RewardSimulator.prototype), structuredClone({ ...this }));
+  }
+
+  currentEpoch(): bigint {
+    return this.currentSealedEpoch + 1n;
+  }
+
+  createValidator(validatorID: bigint, auth: string) {
+    this.validators.set(validatorID, { auth: auth.toLowerCase(), receivedStake: 0n, deactivatedEpoch: 0n });
+  }
+
+  deactivateValidator(validatorID: bigint) {
+    const validator = this.getValidator(validatorID);
+    if (validator.deactivatedEpoch === 0n) {
+      validator.deactivatedEpoch = this.currentEpoch();
+    }
+  }
+
+  delegate(delegator: string, validatorID: bigint, amount: bigint) {
+    this.stashRewards(delegator, validatorID);
+    const key = this.key(delegator, validatorID);
+    this.stakes.set(key, this.getStake(delegator, validatorID) + amount);
+    this.getValidator(validatorID).receivedStake += amount;
+  }
+
+  undelegate(delegator: string, validatorID: bigint, amount: bigint) {
+    this.stashRewards(delegator, validatorID);
+    const key = this.key(delegator, validatorID);
+    this.stakes.set(key, this.getStake(delegator, validatorID) - amount);
+    this.getValidator(validatorID).receivedStake -= amount;
+  }
+
+  /**
+   * Claim (or restake) all the rewards; returns the claimed amount.
+   */
+  claimRewards(delegator: string, validatorID: bigint): bigint {
+    this.stashRewards(delegator, validatorID);
+    const key = this.key(delegator, validatorID);
+    const rewards = this.rewardsStash.get(key) ?? 0n;
+    this.rewardsStash.delete(key);
+    return rewards;
+  }
+
+  stashRewards(delegator: string, validatorID: bigint): boolean {
+    const key = this.key(delegator, validatorID);
+    const rewards = this.newRewards(delegator, validatorID);
+    this.stashedRewardsUntilEpoch.set(key, this.highestPayableEpoch(validatorID));
+    this.rewardsStash.set(key, (this.rewardsStash.get(key) ?? 0n) + rewards);
+    return rewards !== 0n;
+  }
+
+  /**
+   * Seal the current epoch - the counterpart of SFC.sealEpoch().
+   * Metrics of validators missing in the map default to a full uptime without fees.
+   */
+  sealEpoch(
+    constants: EconomicConstants,
+    epochDuration: bigint,
+    metrics: Map<bigint, EpochMetrics> = new Map(),
+    treasurySet: boolean = false,
+  ): SealEpochRewards {
+    const epoch = this.currentEpoch();
+    const inputs: ValidatorEpochInput[] = [];
+    for (const [validatorID, snapshotStake] of this.getEpochReceivedStakes(epoch)) {
+      const validator = this.getValidator(validatorID);
+      const m = metrics.get(validatorID) ?? {
+        offlineTime: 0n,
+        offlineBlocks: 0n,
+        uptime: epochDuration,
+        originatedTxsFee: 0n,
+      };
+      inputs.push({
+        validatorID,
+        snapshotStake,
+        receivedStake: validator.receivedStake,
+        selfStake: this.getStake(validator.auth, validatorID),
+        offlineTime: m.offlineTime,
+        offlineBlocks: m.offlineBlocks,
+        uptime: m.uptime,
+        accumulatedOriginatedTxsFee: m.originatedTxsFee,
+        prevAccumulatedOriginatedTxsFee: this.accumulatedOriginatedTxsFee.get(validatorID) ?? 0n,
+      });
+    }
+
+    const rewards = computeSealEpochRewards(constants, { epochDuration, validators: inputs, treasurySet });
+
+    const accumulated = new Map<bigint, bigint>();
+    for (const [i, r] of rewards.validators.entries()) {
+      if (r.offline) {
+        this.deactivateValidator(r.validatorID);
+      }
+      const validator = this.getValidator(r.validatorID);
+      if (r.commission !== 0n) {
+        const key = this.key(validator.auth, r.validatorID);
+        this.rewardsStash.set(key, (this.rewardsStash.get(key) ?? 0n) + r.commission);
+      }
+      const prev = this.getAccumulatedRewardPerToken(this.currentSealedEpoch, r.validatorID);
+      accumulated.set(r.validatorID, prev + r.rewardPerToken);
+      this.accumulatedOriginatedTxsFee.set(r.validatorID, inputs[i].accumulatedOriginatedTxsFee);
+    }
+    this.accumulatedRewardPerToken.set(epoch, accumulated);
+    this.epochRewards.set(epoch, rewards);
+    this.currentSealedEpoch = epoch;
+    return rewards;
+  }
+
+  /**
+   * Set validators of the new epoch - the counterpart of SFC.sealEpochValidators().
+   */
+  sealEpochValidators(nextValidatorIDs: bigint[]) {
+    this.epochReceivedStakes.set(
+      this.currentEpoch(),
+      new Map(nextValidatorIDs.map(id => [id, this.getValidator(id).receivedStake])),
+    );
+  }
+
+  /**
+   * Distribute extra rewards of a sealed epoch - the counterpart of SFC.distributeExtraReward().
+   */
+  distributeExtraReward(
+    epoch: bigint,
+    amount: bigint,
+    withBurn: boolean,
+    extraRewardsBurnRatio: bigint,
+  ): ExtraRewardDistribution {
+    if (epoch > this.currentSealedEpoch) {
+      throw new Error(`Epoch ${epoch} is not sealed yet`);
+    }
+    const stakes = Array.from(this.getEpochReceivedStakes(epoch), ([validatorID, receivedStake]) => ({
+      validatorID,
+      receivedStake,
+    }));
+    const distribution = computeExtraRewardDistribution(amount, withBurn, extraRewardsBurnRatio, stakes);
+    for (const { validatorID, share } of distribution.shares) {
+      const key = this.key(this.getValidator(validatorID).auth, validatorID);
+      this.rewardsStash.set(key, (this.rewardsStash.get(key) ?? 0n) + share);
+    }
+    return distribution;
+  }
+
+  /**
+   * Validators of the given epoch with their weights in the epoch snapshot.
+   */
+  getEpochReceivedStakes(epoch: bigint): Map<bigint, bigint> {
+    return this.epochReceivedStakes.get(epoch) ?? new Map();
+  }
+
+  getStake(delegator: string, validatorID: bigint): bigint {
+    return this.stakes.get(this.key(delegator, validatorID)) ?? 0n;
+  }
+
+  getAccumulatedRewardPerToken(epoch: bigint, validatorID: bigint): bigint {
+    return this.accumulatedRewardPerToken.get(epoch)?.get(validatorID) ?? 0n;
+  }
+
+  pendingRewards(delegator: string, validatorID: bigint): bigint {
+    const stash = this.rewardsStash.get(this.key(delegator, validatorID)) ?? 0n;
+    return stash + this.newRewards(delegator, validatorID);
+  }
+
+  /**
+   * All known delegations as [delegator, validatorID] pairs.
+   */
+  delegations(): [string, bigint][] {
+    return Array.from(this.stakes.keys()).map(key => {
+      const [delegator, validatorID] = key.split(':');
+      return [delegator, BigInt(validatorID)];
+    });
+  }
+
+  private newRewards(delegator: string, validatorID: bigint): bigint {
+    const fromEpoch = this.stashedRewardsUntilEpoch.get(this.key(delegator, validatorID)) ?? 0n;
+    const toEpoch = this.highestPayableEpoch(validatorID);
+    if (fromEpoch >= toEpoch) {
+      return 0n;
+    }
+    const stashedRate = this.getAccumulatedRewardPerToken(fromEpoch, validatorID);
+    const currentRate = this.getAccumulatedRewardPerToken(toEpoch, validatorID);
+    if (currentRate < stashedRate) {
+      throw new Error(`Accumulated reward per token of validator ${validatorID} decreased in epoch ${toEpoch}`);
+    }
+    return ((currentRate - stashedRate) * this.getStake(delegator, validatorID)) / DECIMAL_UNIT;
+  }
+
+  private highestPayableEpoch(validatorID: bigint): bigint {
+    const deactivatedEpoch = this.validators.get(validatorID)?.deactivatedEpoch ?? 0n;
+    if (deactivatedEpoch !== 0n && deactivatedEpoch < this.currentSealedEpoch) {
+      return deactivatedEpoch;
+    }
+    return this.currentSealedEpoch;
+  }
+
+  private getValidator(validatorID: bigint): SimulatedValidator {
+    const validator = this.validators.get(validatorID);
+    if (!validator) {
+      throw new Error(`Validator ${validatorID} is not known to the simulator`);
+    }
+    return validator;
+  }
+
+  private key(delegator: string, validatorID: bigint): string {
+    return `${delegator.toLowerCase()}:${validatorID}`;
+  }
+}
+
+export {
+  DECIMAL_UNIT,
+  EconomicConstants,
+  ValidatorEpochInput,
+  SealEpochInput,
+  ValidatorEpochRewards,
+  SealEpochRewards,
+  ExtraRewardDistribution,
+  EpochMetrics,
+  SimulatedValidator,
+  RewardSimulator,
+  computeSealEpochRewards,
+  computeExtraRewardDistribution,
+};
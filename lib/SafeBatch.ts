@@ -0,0 +1,201 @@
+import { FunctionFragment, Interface, Result, ZeroHash, formatEther, getAddress } from 'ethers';
+
+// Governance proposals of the owner-only calls as Safe Transaction Builder batches (the JSON the Safe{Wallet}
+// Transaction Builder app imports), each call with a decoded summary for the reviewers. When the owner is a
+// TimelockController, the batch schedules the calls with scheduleBatch and a second batch executes them.
+
+// units of the uint arguments of the governance calls, ratios and shares have 18 decimals
+const ARGUMENT_UNITS: Record<string, 'tokens' | 'ratio' | 'seconds'> = {
+  updateMinSelfStake: 'tokens',
+  updateBaseRewardPerSecond: 'tokens',
+  issueTokens: 'tokens',
+  updateMaxDelegatedRatio: 'ratio',
+  updateValidatorCommission: 'ratio',
+  updateBurntFeeShare: 'ratio',
+  updateTreasuryFeeShare: 'ratio',
+  updateExtraRewardsBurnRatio: 'ratio',
+  updateMinAverageUptime: 'ratio',
+  updateSlashingRefundRatio: 'ratio',
+  updateWithdrawalPeriodTime: 'seconds',
+  updateOfflinePenaltyThresholdTime: 'seconds',
+};
+
+const TIMELOCK = new Interface([
+  'function scheduleBatch(address[] targets, uint256[] values, bytes[] payloads, bytes32 predecessor, bytes32 salt, uint256 delay)',
+  'function executeBatch(address[] targets, uint256[] values, bytes[] payloads, bytes32 predecessor, bytes32 salt) payable',
+  'function getMinDelay() view returns (uint256)',
+]);
+
+const TX_BUILDER_VERSION = '1.16.5';
+
+interface SafeTransaction {
+  to: string;
+  value: string;
+  data: string;
+  contractMethod: {
+    name: string;
+    payable: boolean;
+    inputs: { name: string; type: string; internalType: string }[];
+  };
+  contractInputsValues: Record<string, string>;
+}
+
+interface SafeBatch {
+  version: '1.0';
+  chainId: string;
+  createdAt: number;
+  meta: {
+    name: string;
+    description: string;
+    txBuilderVersion: string;
+    createdFromSafeAddress: string;
+  };
+  transactions: SafeTransaction[];
+}
+
+/** A call of a network contract to be proposed, e.g. ConstantsManager.updateMinSelfStake(v). */
+interface GovernanceCall {
+  // contract name shown in the summary
+  contract: string;
+  to: string;
+  iface: Interface;
+  method: string;
+  args: unknown[];
+  value?: bigint;
+}
+
+/** Contract, method and arguments of a call written as "constants.updateMinSelfStake(500000000000000000000000)". */
+function parseCallSpec(spec: string): { contract: string; method: string; args: string[] } {
+  const match = /^\s*(\w+)\.(\w+)\((.*)\)\s*$/s.exec(spec);
+  if (!match) {
+    throw new Error(`Invalid call "${spec}", expected contract.method(arg, ...)`);
+  }
+  const [, contract, method, args] = match;
+  return { contract, method, args: args.trim() ? args.split(',').map(arg => arg.trim()) : [] };
+}
+
+/** Value of an argument of the method with its unit, e.g. "500000.0 tokens" of updateMinSelfStake. */
+function formatArgument(method: string, type: string, value: unknown): string {
+  if (typeof value !== 'bigint' || !type.startsWith('uint')) {
+    return value instanceof Result ? JSON.stringify(value.toArray().map(String)) : String(value);
+  }
+  switch (ARGUMENT_UNITS[method]) {
+    case 'tokens':
+      return `${formatEther(value)} tokens`;
+    case 'ratio':
+      return `${formatEther(value * 100n)}%`;
+    case 'seconds':
+      return `${value}s (${Number(value) / 86400} days)`;
+    default:
+      return value.toString();
+  }
+}
+
+function functionOf(call: GovernanceCall): FunctionFragment {
+  const fragment = call.iface.getFunction(call.method);
+  if (!fragment) {
+    throw new Error(`${call.contract} has no function ${call.method}`);
+  }
+  return fragment;
+}
+
+/** Human summary of a call, e.g. "ConstantsManager.updateMinSelfStake(v=500000.0 tokens)". */
+function describeCall(call: GovernanceCall): string {
+  const fragment = functionOf(call);
+  const decoded = call.iface.decodeFunctionData(fragment, encodeCall(call));
+  // IDs (validatorID of updateSlashingRefundRatio) are shown as they are, the unit is the one of the value
+  const args = fragment.inputs.map((input, i) => {
+    const shown = input.name.endsWith('ID')
+      ? String(decoded[i])
+      : formatArgument(fragment.name, input.type, decoded[i]);
+    return `${input.name}=${shown}`;
+  });
+  const value = call.value ? ` with ${formatEther(call.value)} tokens` : '';
+  return `${call.contract}.${fragment.name}(${args.join(', ')})${value}`;
+}
+
+function encodeCall(call: GovernanceCall): string {
+  return call.iface.encodeFunctionData(functionOf(call), call.args);
+}
+
+/** Transaction Builder entry of a call, with the method and its inputs for the app to display. */
+function safeTransaction(call: GovernanceCall): SafeTransaction {
+  const fragment = functionOf(call);
+  const decoded = call.iface.decodeFunctionData(fragment, encodeCall(call));
+  const inputsValues: Record<string, string> = {};
+  fragment.inputs.forEach((input, i) => {
+    const value = decoded[i];
+    inputsValues[input.name] = value instanceof Result ? JSON.stringify(value.toArray().map(String)) : String(value);
+  });
+  return {
+    to: getAddress(call.to),
+    value: (call.value ?? 0n).toString(),
+    data: encodeCall(call),
+    contractMethod: {
+      name: fragment.name,
+      payable: fragment.payable,
+      inputs: fragment.inputs.map(input => ({ name: input.name, type: input.type, internalType: input.type })),
+    },
+    contractInputsValues: inputsValues,
+  };
+}
+
+/** Batch of the calls to be executed by the Safe, the summaries of the calls make up its description by default. */
+function buildSafeBatch(
+  chainId: bigint,
+  safe: string,
+  name: string,
+  calls: GovernanceCall[],
+  description = calls.map(describeCall).join('\n'),
+): SafeBatch {
+  return {
+    version: '1.0',
+    chainId: chainId.toString(),
+    createdAt: Date.now(),
+    meta: {
+      name,
+      description,
+      txBuilderVersion: TX_BUILDER_VERSION,
+      createdFromSafeAddress: getAddress(safe),
+    },
+    transactions: calls.map(safeTransaction),
+  };
+}
+
+/** scheduleBatch and executeBatch calls of a TimelockController running the given calls. */
+function timelockCalls(
+  timelock: string,
+  calls: GovernanceCall[],
+  delay: bigint,
+  salt: string,
+): { schedule: GovernanceCall; execute: GovernanceCall } {
+  const targets = calls.map(call => getAddress(call.to));
+  const values = calls.map(call => call.value ?? 0n);
+  const payloads = calls.map(encodeCall);
+  const call = (method: string, args: unknown[]): GovernanceCall => ({
+    contract: 'TimelockController',
+    to: timelock,
+    iface: TIMELOCK,
+    method,
+    args,
+    value: method === 'executeBatch' ? values.reduce((sum, value) => sum + value, 0n) : undefined,
+  });
+  return {
+    schedule: call('scheduleBatch', [targets, values, payloads, ZeroHash, salt, delay]),
+    execute: call('executeBatch', [targets, values, payloads, ZeroHash, salt]),
+  };
+}
+
+export {
+  TIMELOCK,
+  SafeTransaction,
+  SafeBatch,
+  GovernanceCall,
+  parseCallSpec,
+  formatArgument,
+  describeCall,
+  encodeCall,
+  safeTransaction,
+  buildSafeBatch,
+  timelockCalls,
+};
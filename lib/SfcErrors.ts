@@ -0,0 +1,80 @@
+import { ErrorDescription, Interface, isCallException, isHexString } from 'ethers';
+
+// Human-readable explanations of SFC custom errors, used by the operator tasks.
+const SFC_ERROR_MESSAGES: Record<string, string> = {
+  NotDriverAuth: 'caller is not the NodeDriverAuth contract',
+  NotAuthorized: 'caller is not authorized to perform this operation',
+  ZeroAddress: 'address must not be zero',
+  SameAddress: 'address is already set to this value',
+  ZeroAmount: 'amount must be greater than zero',
+  ZeroRewards: 'there are no rewards to claim or restake',
+  ValueTooLarge: 'value is too large',
+  PubkeyUsedByOtherValidator: 'public key is already used by another validator',
+  MalformedPubkey: 'public key must be 66 bytes long and start with 0xc0',
+  AlreadyRedirected: 'redirection is already set to this address',
+  SameRedirectionAuthorizer: 'redirection authorizer is already set to this address',
+  ValidatorNotExists: 'validator does not exist',
+  ValidatorExists: 'the account has already created a validator',
+  ValidatorNotActive: 'validator is not active (deactivated or offline)',
+  ValidatorDelegationLimitExceeded: 'validator delegation limit exceeded, its self-stake is too low for more stake',
+  NotDeactivatedStatus: 'status is not a deactivation status',
+  RequestExists: 'withdrawal request with this ID already exists, use another wrID',
+  RequestNotExists: 'withdrawal request with this ID does not exist',
+  TransfersNotAllowed: 'transfers are not allowed',
+  TransferFailed: 'transfer of native tokens failed',
+  StakeSubscriberFailed: 'stake subscriber rejected the stake change',
+  InsufficientSelfStake: 'remaining self-stake would be below the minimum self-stake',
+  NotEnoughTimePassed: 'withdrawal period time has not passed yet',
+  NotEnoughEpochsPassed: 'withdrawal period epochs have not passed yet',
+  StakeIsFullySlashed: 'stake is fully slashed, nothing to withdraw',
+  NothingToStash: 'there are no rewards to stash',
+  InvalidEpoch: 'epoch is not sealed yet',
+  ValidatorNotSlashed: 'validator is not slashed',
+  RefundRatioTooHigh: 'refund ratio must not exceed 100%',
+  TreasuryNotSet: 'treasury address is not set',
+  NoUnresolvedTreasuryFees: 'there are no unresolved treasury fees',
+  OwnableUnauthorizedAccount: 'caller is not the owner',
+};
+
+/** Decode a custom error from a failed call or transaction, returns undefined when not decodable. */
+function decodeContractError(err: unknown, iface: Interface): ErrorDescription | undefined {
+  const data = findRevertData(err);
+  if (data === undefined) {
+    return undefined;
+  }
+  return iface.parseError(data) ?? undefined;
+}
+
+/** Describe a failed call or transaction in human-readable form. */
+function describeContractError(err: unknown, iface: Interface): string {
+  const decoded = decodeContractError(err, iface);
+  if (decoded) {
+    const args = decoded.args.length > 0 ? `(${decoded.args.map(String).join(', ')})` : '';
+    const message = SFC_ERROR_MESSAGES[decoded.name];
+    return message ? `${decoded.name}${args}: ${message}` : `${decoded.name}${args}`;
+  }
+  if (isCallException(err)) {
+    return err.shortMessage;
+  }
+  return err instanceof Error ? err.message : String(err);
+}
+
+// revert data may be nested in the error returned by the provider
+function findRevertData(err: unknown, depth = 0): string | undefined {
+  if (typeof err !== 'object' || err === null || depth > 4) {
+    return undefined;
+  }
+  const { data } = err as { data?: unknown };
+  if (isHexString(data) && data.length >= 10) {
+    return data;
+  }
+  for (const key of ['error', 'info', 'cause']) {
+    const found = findRevertData((err as Record<string, unknown>)[key], depth + 1);
+    if (found !== undefined) {
+      return found;
+    }
+  }
+  return undefined;
+}
+
+export { SFC_ERROR_MESSAGES, decodeContractError, describeContractError };
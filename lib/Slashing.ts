@@ -0,0 +1,114 @@
+import { getAddress } from 'ethers';
+import type { SFC } from '../typechain-types';
+import { slashingPenalty } from './Portfolio';
+
+// Impact of the slashingRefundRatio of a validator deactivated with DOUBLESIGN_BIT: every stake and open withdrawal
+// request of its delegators is burnt by the penalty of SFC._getSlashingPenalty when withdrawn, the refund ratio set
+// by governance decides how much of it is paid out.
+
+interface SlashedWithdrawalRequest {
+  wrID: bigint;
+  amount: bigint;
+}
+
+interface SlashingExposure {
+  delegator: string;
+  stake: bigint;
+  withdrawalRequests: SlashedWithdrawalRequest[];
+}
+
+interface SlashedValidator {
+  validatorID: bigint;
+  status: bigint;
+  slashed: boolean;
+  refundRatio: bigint;
+  deactivatedEpoch: bigint;
+  exposures: SlashingExposure[];
+}
+
+interface DelegatorImpact {
+  delegator: string;
+  amount: bigint;
+  // burnt when everything is withdrawn, the stake as a single request
+  penalty: bigint;
+  refund: bigint;
+}
+
+interface RefundRatioImpact {
+  refundRatio: bigint;
+  amount: bigint;
+  penalty: bigint;
+  refund: bigint;
+  // delegators without anything to withdraw, their withdrawals revert with StakeIsFullySlashed
+  fullySlashed: number;
+  delegators: DelegatorImpact[];
+}
+
+/**
+ * Delegators of the validator with their stakes and open withdrawal requests. Delegators and request IDs are taken
+ * from the Delegated and Undelegated events, stakes and amounts read at the block.
+ */
+async function slashedValidator(
+  sfc: SFC,
+  validatorID: bigint,
+  fromBlock = 0,
+  blockNumber?: number,
+): Promise<SlashedValidator> {
+  const blockTag = blockNumber ?? (await sfc.runner!.provider!.getBlockNumber());
+  const validator = await sfc.getValidator(validatorID, { blockTag });
+  const delegated = await sfc.queryFilter(sfc.filters.Delegated(undefined, validatorID), fromBlock, blockTag);
+  const undelegated = await sfc.queryFilter(sfc.filters.Undelegated(undefined, validatorID), fromBlock, blockTag);
+  const delegators = [...new Set([...delegated, ...undelegated].map(e => getAddress(e.args.delegator)))];
+
+  const exposures: SlashingExposure[] = [];
+  for (const delegator of delegators) {
+    const withdrawalRequests: SlashedWithdrawalRequest[] = [];
+    for (const event of undelegated.filter(e => getAddress(e.args.delegator) === delegator)) {
+      const request = await sfc.getWithdrawalRequest(delegator, validatorID, event.args.wrID, { blockTag });
+      if (request.amount !== 0n) {
+        withdrawalRequests.push({ wrID: event.args.wrID, amount: request.amount });
+      }
+    }
+    const stake = await sfc.getStake(delegator, validatorID, { blockTag });
+    if (stake !== 0n || withdrawalRequests.length > 0) {
+      exposures.push({ delegator, stake, withdrawalRequests });
+    }
+  }
+  return {
+    validatorID,
+    status: validator.status,
+    slashed: await sfc.isSlashed(validatorID, { blockTag }),
+    refundRatio: await sfc.slashingRefundRatio(validatorID, { blockTag }),
+    deactivatedEpoch: validator.deactivatedEpoch,
+    exposures,
+  };
+}
+
+/** Penalties of the delegators under the refund ratio, each withdrawal rounded up as the SFC does. */
+function refundRatioImpact(exposures: SlashingExposure[], refundRatio: bigint): RefundRatioImpact {
+  const delegators = exposures.map(exposure => {
+    const amounts = [exposure.stake, ...exposure.withdrawalRequests.map(r => r.amount)].filter(a => a !== 0n);
+    const amount = amounts.reduce((total, a) => total + a, 0n);
+    const penalty = amounts.reduce((total, a) => total + slashingPenalty(a, true, refundRatio), 0n);
+    return { delegator: exposure.delegator, amount, penalty, refund: amount - penalty };
+  });
+  const sum = (key: 'amount' | 'penalty' | 'refund') => delegators.reduce((total, d) => total + d[key], 0n);
+  return {
+    refundRatio,
+    amount: sum('amount'),
+    penalty: sum('penalty'),
+    refund: sum('refund'),
+    fullySlashed: delegators.filter(d => d.refund === 0n).length,
+    delegators,
+  };
+}
+
+export {
+  SlashedWithdrawalRequest,
+  SlashingExposure,
+  SlashedValidator,
+  DelegatorImpact,
+  RefundRatioImpact,
+  slashedValidator,
+  refundRatioImpact,
+};
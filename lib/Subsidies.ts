@@ -0,0 +1,227 @@
+import {
+  BlockTag,
+  FunctionFragment,
+  Interface,
+  Provider,
+  ZeroAddress,
+  ZeroHash,
+  dataLength,
+  formatEther,
+  isHexString,
+  solidityPackedKeccak256,
+} from 'ethers';
+import type { SubsidiesRegistry } from '../typechain-types';
+
+// Fund IDs of the SubsidiesRegistry sponsorships, derived the same way as the registry does.
+// Listed in the order of precedence used by SubsidiesRegistry.chooseFund.
+
+type FundType = 'account-operation' | 'approval' | 'operation' | 'bootstrap' | 'contract' | 'account';
+
+const FUND_TYPES: FundType[] = ['account-operation', 'approval', 'operation', 'bootstrap', 'contract', 'account'];
+
+interface FundSpec {
+  type: FundType;
+  // sender of the sponsored txs
+  from?: string;
+  // called contract, or the ERC20 token of approvals
+  to?: string;
+  // function signature like "transfer(address,uint256)" or a 4 bytes selector
+  function?: string;
+  // spender of sponsored ERC20 approvals
+  spender?: string;
+}
+
+interface Fund {
+  fundId: string;
+  description: string;
+}
+
+/** Selector of a function signature, a selector is returned as is. */
+function functionSelector(signature: string): string {
+  if (isHexString(signature, 4)) {
+    return signature.toLowerCase();
+  }
+  try {
+    return FunctionFragment.from(signature.startsWith('function ') ? signature : `function ${signature}`).selector;
+  } catch {
+    throw new Error(`Invalid function signature ${signature}, expected e.g. "transfer(address,uint256)"`);
+  }
+}
+
+/** Derive the fund ID of a sponsorship, throwing when an input of the fund type is missing. */
+function deriveFund(spec: FundSpec): Fund {
+  const required = (name: 'from' | 'to' | 'function' | 'spender'): string => {
+    const value = spec[name];
+    if (!value) {
+      throw new Error(`${spec.type} sponsorship requires --${name}`);
+    }
+    return value;
+  };
+  switch (spec.type) {
+    case 'account':
+      return {
+        fundId: solidityPackedKeccak256(['string', 'address'], ['a', required('from')]),
+        description: `all txs sent from ${spec.from}`,
+      };
+    case 'contract':
+      return {
+        fundId: solidityPackedKeccak256(['string', 'address'], ['c', required('to')]),
+        description: `all txs sent to ${spec.to}`,
+      };
+    case 'operation': {
+      const selector = functionSelector(required('function'));
+      return {
+        fundId: solidityPackedKeccak256(['string', 'address', 'bytes4'], ['o', required('to'), selector]),
+        description: `calls of ${spec.function} (${selector}) on ${spec.to}`,
+      };
+    }
+    case 'account-operation': {
+      const selector = functionSelector(required('function'));
+      return {
+        fundId: solidityPackedKeccak256(
+          ['string', 'address', 'address', 'bytes4'],
+          ['ao', required('from'), required('to'), selector],
+        ),
+        description: `calls of ${spec.function} (${selector}) on ${spec.to} sent from ${spec.from}`,
+      };
+    }
+    case 'approval':
+      return {
+        fundId: solidityPackedKeccak256(
+          ['string', 'address', 'address'],
+          ['approval', required('to'), required('spender')],
+        ),
+        description: `approvals of ${spec.to} tokens to ${spec.spender}`,
+      };
+    case 'bootstrap':
+      return {
+        fundId: solidityPackedKeccak256(['string'], ['b']),
+        description: 'the first 3 txs of every account',
+      };
+    default:
+      throw new Error(`Unknown sponsorship type ${spec.type}, expected one of ${FUND_TYPES.join(', ')}`);
+  }
+}
+
+// transaction checked by SubsidiesRegistry.chooseFund
+interface SponsoredTx {
+  from: string;
+  // zero address for contract creations
+  to: string;
+  value: bigint;
+  nonce: bigint;
+  data: string;
+}
+
+interface FundCandidate {
+  type: FundType;
+  // zero when the fund type does not apply to the tx
+  fundId: string;
+  available?: bigint;
+  // chosen: the fund covering the tx, eligible: would cover it but a fund of higher precedence was chosen
+  status: 'chosen' | 'eligible' | 'rejected';
+  reason?: string;
+}
+
+const ERC20 = new Interface([
+  'function approve(address spender, uint256 value)',
+  'function allowance(address owner, address spender) view returns (uint256)',
+  'function balanceOf(address account) view returns (uint256)',
+]);
+
+/**
+ * Evaluate the funds of the tx in the precedence order of chooseFund, explaining why each one is rejected.
+ * Fund IDs are read from the registry, so the result matches the registry at the given block.
+ */
+async function explainChooseFund(
+  registry: SubsidiesRegistry,
+  provider: Provider,
+  tx: SponsoredTx,
+  fee: bigint,
+  blockTag: BlockTag = 'latest',
+): Promise<FundCandidate[]> {
+  const { from, to, nonce, data } = tx;
+  const fundIds: Record<FundType, string> = {
+    'account-operation': await registry.accountOperationSponsorshipFundId(from, to, data, { blockTag }),
+    approval: await registry.approvalSponsorshipFundId(from, to, data, { blockTag }),
+    operation: await registry.operationSponsorshipFundId(to, data, { blockTag }),
+    bootstrap: await registry.bootstrapSponsorshipFund(nonce, { blockTag }),
+    contract: await registry.contractSponsorshipFundId(to, { blockTag }),
+    account: await registry.accountSponsorshipFundId(from, { blockTag }),
+  };
+  const notCall = to === ZeroAddress ? 'contract creation' : 'calldata shorter than a function selector';
+  const candidates: FundCandidate[] = [];
+  for (const type of FUND_TYPES) {
+    const fundId = fundIds[type];
+    if (fundId === ZeroHash) {
+      const reason =
+        type === 'approval'
+          ? await approvalRejection(provider, tx, blockTag)
+          : type === 'bootstrap'
+            ? `nonce ${nonce} is not one of the first 3`
+            : notCall;
+      candidates.push({ type, fundId, status: 'rejected', reason });
+      continue;
+    }
+    const available = await registry.getAvailableFunds(fundId, { blockTag });
+    if (available < fee) {
+      const reason =
+        available === 0n ? 'not sponsored' : `insufficient funds, ${formatEther(available)} < fee ${formatEther(fee)}`;
+      candidates.push({ type, fundId, available, status: 'rejected', reason });
+      continue;
+    }
+    const chosen = !candidates.some(c => c.status === 'chosen');
+    candidates.push({ type, fundId, available, status: chosen ? 'chosen' : 'eligible' });
+  }
+  return candidates;
+}
+
+// why approvalSponsorshipFundId returns zero, following its checks
+async function approvalRejection(provider: Provider, tx: SponsoredTx, blockTag: BlockTag): Promise<string> {
+  if (tx.to === ZeroAddress) {
+    return 'contract creation';
+  }
+  const approve = ERC20.getFunction('approve')!;
+  if (dataLength(tx.data) !== 4 + 2 * 32 || !tx.data.toLowerCase().startsWith(approve.selector)) {
+    return 'not an ERC20 approve(address,uint256) call';
+  }
+  const [spender, value] = ERC20.decodeFunctionData(approve, tx.data);
+  if (value === 0n) {
+    return 'approval of zero value';
+  }
+  const read = async (name: 'allowance' | 'balanceOf', args: unknown[]): Promise<bigint | undefined> => {
+    try {
+      const result = await provider.call({ to: tx.to, data: ERC20.encodeFunctionData(name, args), blockTag });
+      return ERC20.decodeFunctionResult(name, result)[0];
+    } catch {
+      return undefined;
+    }
+  };
+  const allowance = await read('allowance', [tx.from, spender]);
+  if (allowance === undefined) {
+    return 'allowance() call on the token failed';
+  }
+  if (allowance !== 0n) {
+    return `existing allowance ${allowance} for ${spender} has to be used up first`;
+  }
+  const balance = await read('balanceOf', [tx.from]);
+  if (balance === undefined) {
+    return 'balanceOf() call on the token failed';
+  }
+  if (balance === 0n) {
+    return 'sender has zero token balance';
+  }
+  return 'rejected by the registry';
+}
+
+export {
+  FundType,
+  FUND_TYPES,
+  FundSpec,
+  Fund,
+  SponsoredTx,
+  FundCandidate,
+  functionSelector,
+  deriveFund,
+  explainChooseFund,
+};
@@ -0,0 +1,213 @@
+import { Contract, ZeroAddress } from 'ethers';
+import type { SFC } from '../typechain-types';
+
+// Reconciliation of the native token supply kept by the SFC (totalSupply, stored in the snapshot of every sealed
+// epoch). Between two seals the supply changes by
+//  - rewards minted when claimed or restaked (ClaimedRewards, RestakedRewards),
+//  - tokens burnt by burnNativeTokens (BurntNativeTokens), distributeExtraReward (DistributedExtraRewards.received)
+//    and slashing penalties (Withdrawn.penalty),
+//  - issueTokens of the owner, which emits no event: the issuances are located by bisection as the blocks where
+//    totalSupply departs from the replayed events, so the state at historical blocks must be available,
+// and the seal itself burns the epoch fees (EpochSnapshot.epochFee) and mints their treasury share when the treasury
+// is set. The node runs the sealEpoch call at the start of the sealing block, so the supply changes of the later txs
+// of that block are attributed to the next epoch: the block is split at the index of the sealEpoch tx.
+
+const DECIMAL_UNIT = 10n ** 18n;
+
+const TREASURY_FEE_SHARE = ['function treasuryFeeShare() view returns (uint256)'];
+
+interface SupplyIssuance {
+  blockNumber: number;
+  amount: bigint;
+}
+
+interface SupplyLedgerEntry {
+  epoch: bigint;
+  // blocks from the seal of the previous epoch up to the seal of this one, the txs after the seal in fromBlock and
+  // before it in toBlock
+  fromBlock: number;
+  toBlock: number;
+  // supply in the snapshot of the previous epoch
+  opening: bigint;
+  rewardsMinted: bigint;
+  treasuryFeesMinted: bigint;
+  issued: bigint;
+  issuances: SupplyIssuance[];
+  nativeTokensBurnt: bigint;
+  extraRewardsBurnt: bigint;
+  slashingBurnt: bigint;
+  feesBurnt: bigint;
+  // opening with the changes replayed, compared to the supply in the snapshot of the epoch
+  expected: bigint;
+  closing: bigint;
+  gap: bigint;
+}
+
+interface SupplyChange {
+  blockNumber: number;
+  transactionIndex: number;
+  kind: 'rewardsMinted' | 'nativeTokensBurnt' | 'extraRewardsBurnt' | 'slashingBurnt';
+  amount: bigint;
+}
+
+/** Sealed epochs whose seal is in the block range, the first epoch sealed at fromBlock or later first. */
+async function epochsInBlockRange(sfc: SFC, fromBlock: number, toBlock: number): Promise<bigint[]> {
+  const sealed = await sfc.currentSealedEpoch({ blockTag: toBlock });
+  // first epoch sealed at fromBlock or later, by bisection over the ascending end blocks
+  let low = 1n;
+  let high = sealed + 1n;
+  while (low < high) {
+    const mid = (low + high) / 2n;
+    if ((await sfc.getEpochEndBlock(mid)) < BigInt(fromBlock)) {
+      low = mid + 1n;
+    } else {
+      high = mid;
+    }
+  }
+  return Array.from({ length: Number(sealed - low + 1n) }, (_, i) => low + BigInt(i));
+}
+
+/** Evented supply changes of the block range. */
+async function supplyChanges(sfc: SFC, fromBlock: number, toBlock: number): Promise<SupplyChange[]> {
+  const changes: SupplyChange[] = [];
+  const push = (kind: SupplyChange['kind'], e: { blockNumber: number; transactionIndex: number }, amount: bigint) => {
+    if (amount !== 0n) {
+      changes.push({ blockNumber: e.blockNumber, transactionIndex: e.transactionIndex, kind, amount });
+    }
+  };
+  for (const e of await sfc.queryFilter(sfc.filters.ClaimedRewards(), fromBlock, toBlock)) {
+    push('rewardsMinted', e, e.args.rewards);
+  }
+  for (const e of await sfc.queryFilter(sfc.filters.RestakedRewards(), fromBlock, toBlock)) {
+    push('rewardsMinted', e, e.args.rewards);
+  }
+  for (const e of await sfc.queryFilter(sfc.filters.BurntNativeTokens(), fromBlock, toBlock)) {
+    push('nativeTokensBurnt', e, e.args.amount);
+  }
+  for (const e of await sfc.queryFilter(sfc.filters.DistributedExtraRewards(), fromBlock, toBlock)) {
+    push('extraRewardsBurnt', e, e.args.received);
+  }
+  for (const e of await sfc.queryFilter(sfc.filters.Withdrawn(), fromBlock, toBlock)) {
+    push('slashingBurnt', e, e.args.penalty);
+  }
+  return changes;
+}
+
+/** Index of the sealEpoch tx in the sealing block, -1 for a block without one (the snapshot of epoch 0). */
+async function sealIndex(sfc: SFC, blockNumber: number): Promise<number> {
+  const provider = sfc.runner!.provider!;
+  const selector = sfc.interface.getFunction('sealEpoch').selector;
+  const block = await provider.getBlock(blockNumber, true);
+  // sent to the NodeDriver by the node, to the NodeDriverAuth or the SFC directly on test chains
+  for (const [index, tx] of (block?.prefetchedTransactions ?? []).entries()) {
+    if (tx.data.startsWith(selector) && (await provider.getTransactionReceipt(tx.hash))?.status === 1) {
+      return index;
+    }
+  }
+  return -1;
+}
+
+const signed = (change: SupplyChange) => (change.kind === 'rewardsMinted' ? change.amount : -change.amount);
+
+/**
+ * Blocks of the range where totalSupply departs from the opening supply with the evented changes replayed, each
+ * found by bisection. Departures cancelling out within the range are not found.
+ */
+async function locateIssuances(
+  sfc: SFC,
+  opening: bigint,
+  changes: SupplyChange[],
+  fromBlock: number,
+  toBlock: number,
+): Promise<SupplyIssuance[]> {
+  const residual = async (block: number) =>
+    (await sfc.totalSupply({ blockTag: block })) -
+    opening -
+    changes.filter(change => change.blockNumber <= block).reduce((total, change) => total + signed(change), 0n);
+  const issuances: SupplyIssuance[] = [];
+  let low = fromBlock - 1;
+  let base = 0n;
+  while (low < toBlock && (await residual(toBlock)) !== base) {
+    // residual(low) is base, residual(high) is not
+    let high = toBlock;
+    while (high - low > 1) {
+      const mid = Math.floor((low + high) / 2);
+      if ((await residual(mid)) === base) {
+        low = mid;
+      } else {
+        high = mid;
+      }
+    }
+    const value = await residual(high);
+    issuances.push({ blockNumber: high, amount: value - base });
+    low = high;
+    base = value;
+  }
+  return issuances;
+}
+
+/** Supply ledger of the sealed epochs, in the given (ascending, consecutive) order. */
+async function supplyLedger(sfc: SFC, epochs: bigint[]): Promise<SupplyLedgerEntry[]> {
+  if (epochs.length === 0) {
+    return [];
+  }
+  const provider = sfc.runner!.provider!;
+  const first = await sfc.getEpochSnapshot(epochs[0] - 1n);
+  const last = await sfc.getEpochSnapshot(epochs[epochs.length - 1]);
+  const changes = await supplyChanges(sfc, Number(first.endBlock), Number(last.endBlock));
+
+  const ledger: SupplyLedgerEntry[] = [];
+  let previous = first;
+  let previousSealIndex = await sealIndex(sfc, Number(first.endBlock));
+  for (const epoch of epochs) {
+    const snapshot = await sfc.getEpochSnapshot(epoch);
+    const [fromBlock, toBlock] = [Number(previous.endBlock), Number(snapshot.endBlock)];
+    const toSealIndex = await sealIndex(sfc, toBlock);
+    const after = (change: SupplyChange, block: number, index: number) =>
+      change.blockNumber > block || (change.blockNumber === block && change.transactionIndex > index);
+    const epochChanges = changes.filter(
+      change => after(change, fromBlock, previousSealIndex) && !after(change, toBlock, toSealIndex),
+    );
+    const sum = (kind: SupplyChange['kind']) =>
+      epochChanges.filter(change => change.kind === kind).reduce((total, change) => total + change.amount, 0n);
+    // the supply is known at the end of the blocks only: issuances are looked for from the end of the previous
+    // sealing block, the ones before the seal in the sealing block are not told apart from the seal
+    const issuances = await locateIssuances(sfc, previous.totalSupply, epochChanges, fromBlock, toBlock - 1);
+    const entry: SupplyLedgerEntry = {
+      epoch,
+      fromBlock,
+      toBlock,
+      opening: previous.totalSupply,
+      rewardsMinted: sum('rewardsMinted'),
+      treasuryFeesMinted: 0n,
+      issued: issuances.reduce((total, issuance) => total + issuance.amount, 0n),
+      issuances,
+      nativeTokensBurnt: sum('nativeTokensBurnt'),
+      extraRewardsBurnt: sum('extraRewardsBurnt'),
+      slashingBurnt: sum('slashingBurnt'),
+      feesBurnt: 0n,
+      expected: 0n,
+      closing: snapshot.totalSupply,
+      gap: 0n,
+    };
+
+    // the seal burns the fees, flooring the supply at zero, and mints the treasury share of them
+    let supply = entry.opening + epochChanges.reduce((total, change) => total + signed(change), 0n) + entry.issued;
+    entry.feesBurnt = supply > snapshot.epochFee ? snapshot.epochFee : supply;
+    supply -= entry.feesBurnt;
+    if ((await sfc.treasuryAddress({ blockTag: toBlock })) !== ZeroAddress) {
+      const constants = new Contract(await sfc.constsAddress({ blockTag: toBlock }), TREASURY_FEE_SHARE, provider);
+      const share: bigint = await constants.treasuryFeeShare({ blockTag: toBlock });
+      entry.treasuryFeesMinted = (snapshot.epochFee * share) / DECIMAL_UNIT;
+      supply += entry.treasuryFeesMinted;
+    }
+    entry.expected = supply;
+    entry.gap = entry.closing - entry.expected;
+    ledger.push(entry);
+    previous = snapshot;
+    previousSealIndex = toSealIndex;
+  }
+  return ledger;
+}
+
+export { SupplyIssuance, SupplyLedgerEntry, epochsInBlockRange, supplyLedger };
@@ -0,0 +1,31 @@
+// Plain text tables, CSV and JSON with bigint values for the reports printed by scripts and tasks.
+
+type Cell = string | number | bigint | boolean | undefined;
+
+/** Format rows as a plain text table with aligned columns. */
+function formatTable(headers: string[], rows: Cell[][]): string {
+  const cells = [headers, ...rows.map(row => row.map(cell => (cell === undefined ? '' : String(cell))))];
+  const widths = headers.map((_, i) => Math.max(...cells.map(row => (row[i] ?? '').length)));
+  const line = (row: string[]) =>
+    row
+      .map((cell, i) => cell.padEnd(widths[i]))
+      .join('  ')
+      .trimEnd();
+  return [line(cells[0]), widths.map(width => '-'.repeat(width)).join('  '), ...cells.slice(1).map(line)].join('\n');
+}
+
+/** Format rows as CSV, quoting cells with commas, quotes or line breaks. */
+function toCsv(headers: string[], rows: Cell[][]): string {
+  const cell = (value: Cell) => {
+    const text = value === undefined ? '' : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return [headers, ...rows].map(row => row.map(cell).join(',')).join('\n');
+}
+
+/** JSON.stringify with bigints written as decimal strings. */
+function toJson(value: unknown): string {
+  return JSON.stringify(value, (_, v) => (typeof v === 'bigint' ? v.toString() : v), 2);
+}
+
+export { Cell, formatTable, toCsv, toJson };
@@ -0,0 +1,55 @@
+import type { SFC } from '../typechain-types';
+import { describeContractError } from './SfcErrors';
+
+// Treasury fees the SFC failed to send to the treasuryAddress while sealing an epoch (e.g. a treasury rejecting
+// native transfers) accumulate in unresolvedTreasuryFees, until anyone calls resolveTreasuryFees() to send them.
+
+interface TreasuryFeesStatus {
+  blockNumber: number;
+  treasury: string;
+  unresolvedFees: bigint;
+  // the fees are paid from the SFC balance
+  sfcBalance: bigint;
+  // revert resolveTreasuryFees() would fail with at the block, e.g. "TransferFailed: ...", checked when fees are due
+  resolveError?: string;
+}
+
+interface ResolvedTreasuryFees {
+  blockNumber: number;
+  transactionHash: string;
+  amount: bigint;
+}
+
+/** Unresolved treasury fees at the latest block, with resolveTreasuryFees() simulated from the given account. */
+async function treasuryFeesStatus(sfc: SFC, from?: string): Promise<TreasuryFeesStatus> {
+  const provider = sfc.runner!.provider!;
+  const blockNumber = await provider.getBlockNumber();
+  const status: TreasuryFeesStatus = {
+    blockNumber,
+    treasury: await sfc.treasuryAddress({ blockTag: blockNumber }),
+    unresolvedFees: await sfc.unresolvedTreasuryFees({ blockTag: blockNumber }),
+    sfcBalance: await provider.getBalance(await sfc.getAddress(), blockNumber),
+  };
+  if (status.unresolvedFees !== 0n) {
+    try {
+      // through the provider, the account is not necessarily the signer of the contract
+      await sfc.connect(provider).resolveTreasuryFees.staticCall({ from, blockTag: blockNumber });
+    } catch (err) {
+      status.resolveError = describeContractError(err, sfc.interface);
+    }
+  }
+  return status;
+}
+
+/** TreasuryFeesResolved events in the block range, in chain order. */
+async function resolvedTreasuryFees(sfc: SFC, fromBlock: number, toBlock?: number): Promise<ResolvedTreasuryFees[]> {
+  const events = await sfc.queryFilter(sfc.filters.TreasuryFeesResolved(), fromBlock, toBlock);
+  return events.map(e => ({ blockNumber: e.blockNumber, transactionHash: e.transactionHash, amount: e.args.amount }));
+}
+
+/** Seconds until the next check, doubled with every consecutive failure up to the maximum. */
+function backoffDelay(interval: number, failures: number, maxDelay: number): number {
+  return Math.min(interval * 2 ** failures, Math.max(interval, maxDelay));
+}
+
+export { TreasuryFeesStatus, ResolvedTreasuryFees, treasuryFeesStatus, resolvedTreasuryFees, backoffDelay };
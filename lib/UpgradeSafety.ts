@@ -0,0 +1,133 @@
+import { BaseContract, Provider, Result, dataSlice } from 'ethers';
+import { ContractName, getImplementation } from './AddressBook';
+
+// State snapshots taken before and after a simulated upgrade of the network contracts.
+// Every view without arguments of the contracts is read, plus the validators and stakes of the SFC,
+// so an upgrade changing anything but the implementations (and the reported version) shows up in the diff.
+
+// proxies upgradeable by upgradeToAndCall and the contracts of their new implementations by default
+const UPGRADEABLE_CONTRACTS: Partial<Record<ContractName, string>> = {
+  sfc: 'SFC',
+  nodeDriver: 'NodeDriver',
+  nodeDriverAuth: 'NodeDriverAuth',
+  subsidiesRegistry: 'SubsidiesRegistry',
+};
+
+// flat state, keys like "sfc.totalStake" or "sfc.getStake(0x...,1)"
+type StateSnapshot = Record<string, string>;
+
+interface StateChange {
+  key: string;
+  // undefined when the value could not be read (e.g. a view added by the upgrade)
+  before?: string;
+  after?: string;
+}
+
+// value of a view as a string, nested results as JSON
+function stringify(value: unknown): string {
+  const plain = (v: unknown): unknown =>
+    v instanceof Result ? v.toArray().map(plain) : typeof v === 'bigint' ? v.toString() : v;
+  const result = plain(value);
+  return typeof result === 'string' ? result : JSON.stringify(result);
+}
+
+/** Read every view without arguments of the contract, views which revert are left out. */
+async function snapshotViews(prefix: string, contract: BaseContract, snapshot: StateSnapshot, blockTag?: number) {
+  const views = contract.interface.fragments.filter(
+    fragment =>
+      fragment.type === 'function' &&
+      'stateMutability' in fragment &&
+      (fragment.stateMutability === 'view' || fragment.stateMutability === 'pure') &&
+      'inputs' in fragment &&
+      fragment.inputs.length === 0,
+  );
+  for (const fragment of views) {
+    const name = (fragment as unknown as { name: string }).name;
+    try {
+      const result = await contract.getFunction(name).staticCallResult({ blockTag });
+      snapshot[`${prefix}.${name}`] = stringify(result.length === 1 ? result[0] : result);
+    } catch {
+      // e.g. proxiableUUID() reverts when called through the proxy
+    }
+  }
+}
+
+/** Read the validators of the SFC, the self-stakes and the stakes of the given delegators to every validator. */
+async function snapshotSfc(sfc: BaseContract, delegators: string[], snapshot: StateSnapshot, blockTag?: number) {
+  const call = (name: string, ...args: unknown[]) => sfc.getFunction(name).staticCall(...args, { blockTag });
+  const lastValidatorID: bigint = await call('lastValidatorID');
+  for (let validatorID = 1n; validatorID <= lastValidatorID; validatorID++) {
+    snapshot[`sfc.getValidator(${validatorID})`] = stringify(await call('getValidator', validatorID));
+    snapshot[`sfc.getValidatorPubkey(${validatorID})`] = await call('getValidatorPubkey', validatorID);
+    snapshot[`sfc.getSelfStake(${validatorID})`] = stringify(await call('getSelfStake', validatorID));
+    for (const delegator of delegators) {
+      const stake: bigint = await call('getStake', delegator, validatorID);
+      if (stake !== 0n) {
+        snapshot[`sfc.getStake(${delegator},${validatorID})`] = stake.toString();
+      }
+    }
+  }
+}
+
+/** EIP-1967 implementations of the proxies. */
+async function snapshotImplementations(
+  provider: Provider,
+  proxies: Partial<Record<ContractName, string>>,
+  snapshot: StateSnapshot,
+) {
+  for (const [name, address] of Object.entries(proxies)) {
+    snapshot[`${name}.implementation`] = await getImplementation(provider, address);
+  }
+}
+
+/** Keys with different values in the snapshots, sorted by key. */
+function diffSnapshots(before: StateSnapshot, after: StateSnapshot): StateChange[] {
+  const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort();
+  return keys.filter(key => before[key] !== after[key]).map(key => ({ key, before: before[key], after: after[key] }));
+}
+
+/** Changes expected from upgrading the given proxies: their implementations and versions, and views they add. */
+function isExpectedChange(change: StateChange, upgraded: string[]): boolean {
+  const [contract, view] = change.key.split('.');
+  if (!upgraded.includes(contract)) {
+    return false;
+  }
+  return view === 'implementation' || view === 'version' || change.before === undefined;
+}
+
+/**
+ * Whether the code deployed at an address was compiled from the given deployed bytecode,
+ * the immutable values (e.g. the UUPS __self address) are not compared.
+ */
+function codeMatches(
+  code: string,
+  deployedBytecode: string,
+  immutableReferences: Record<string, { start: number; length: number }[]> = {},
+): boolean {
+  if (code.length !== deployedBytecode.length) {
+    return false;
+  }
+  const ranges = Object.values(immutableReferences)
+    .flat()
+    .sort((a, b) => a.start - b.start);
+  let offset = 0;
+  for (const range of [...ranges, { start: (code.length - 2) / 2, length: 0 }]) {
+    if (dataSlice(code, offset, range.start) !== dataSlice(deployedBytecode, offset, range.start)) {
+      return false;
+    }
+    offset = range.start + range.length;
+  }
+  return true;
+}
+
+export {
+  UPGRADEABLE_CONTRACTS,
+  StateSnapshot,
+  StateChange,
+  snapshotViews,
+  snapshotSfc,
+  snapshotImplementations,
+  diffSnapshots,
+  isExpectedChange,
+  codeMatches,
+};
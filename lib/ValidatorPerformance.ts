@@ -0,0 +1,107 @@
+import type { EpochSnapshot } from './EpochReader';
+
+// Validator health per sealed epoch from the SFC epoch snapshots read by EpochReader: uptime, delegators APR,
+// offline blocks and the risk of deactivation by the offline penalty or by the minimum average uptime.
+// Rows are flat records of numbers and decimal strings, so they can be loaded into CSV and Parquet tooling as is.
+
+const DECIMAL_UNIT = 10n ** 18n;
+const SECONDS_PER_YEAR = 365n * 24n * 60n * 60n;
+
+/** Subset of ConstantsManager values deciding the deactivation of validators. */
+interface PerformanceConstants {
+  minAverageUptime: bigint;
+  offlinePenaltyThresholdBlocksNum: bigint;
+  offlinePenaltyThresholdTime: bigint;
+}
+
+type PerformanceRisk = 'ok' | 'warning' | 'critical';
+
+interface ValidatorPerformanceRow {
+  epoch: number;
+  endBlock: number;
+  endTime: number;
+  duration: number;
+  validatorID: number;
+  receivedStake: string;
+  // percentages with 4 decimals
+  uptime: number;
+  averageUptime: number;
+  apr: number;
+  offlineBlocks: number;
+  offlineTime: number;
+  originatedTxsFee: string;
+  risk: PerformanceRisk;
+  riskReason: string;
+}
+
+// ratio as a percentage with 4 decimals
+function percent(numerator: bigint, denominator: bigint): number {
+  return denominator === 0n ? 0 : Number((numerator * 1_000_000n) / denominator) / 10_000;
+}
+
+/**
+ * Per-validator performance of every snapshot but the first one, which only provides the values the
+ * accumulated ones of the next epoch are compared to. The snapshots must be of consecutive epochs.
+ * Validators within warningMargin (decimal fraction) above the minimum average uptime get a warning.
+ */
+function computePerformance(
+  snapshots: EpochSnapshot[],
+  constants: PerformanceConstants,
+  warningMargin = DECIMAL_UNIT / 20n,
+): ValidatorPerformanceRow[] {
+  const rows: ValidatorPerformanceRow[] = [];
+  for (let i = 1; i < snapshots.length; i++) {
+    const prev = snapshots[i - 1];
+    const snapshot = snapshots[i];
+    if (snapshot.epoch !== prev.epoch + 1n) {
+      throw new Error(`Epoch ${snapshot.epoch} does not follow epoch ${prev.epoch}`);
+    }
+    const duration = snapshot.endTime - prev.endTime;
+    const previous = new Map(prev.validators.map(v => [v.validatorID, v]));
+    for (const v of snapshot.validators) {
+      const p = previous.get(v.validatorID);
+      const uptime = v.accumulatedUptime - (p?.accumulatedUptime ?? 0n);
+      const rewardPerToken = v.accumulatedRewardPerToken - (p?.accumulatedRewardPerToken ?? 0n);
+      const fee = v.accumulatedOriginatedTxsFee - (p?.accumulatedOriginatedTxsFee ?? 0n);
+
+      let risk: PerformanceRisk = 'ok';
+      let riskReason = '';
+      if (
+        v.offlineBlocks > constants.offlinePenaltyThresholdBlocksNum &&
+        v.offlineTime >= constants.offlinePenaltyThresholdTime
+      ) {
+        risk = 'critical';
+        riskReason = `offline for ${v.offlineBlocks} blocks and ${v.offlineTime}s, above the offline penalty thresholds`;
+      } else if (v.averageUptime < constants.minAverageUptime) {
+        risk = 'critical';
+        riskReason = 'average uptime below minAverageUptime, deactivated once the averaging window is full';
+      } else if (constants.minAverageUptime !== 0n && v.averageUptime < constants.minAverageUptime + warningMargin) {
+        risk = 'warning';
+        riskReason = 'average uptime close to minAverageUptime';
+      } else if (v.offlineBlocks !== 0n) {
+        risk = 'warning';
+        riskReason = `offline for ${v.offlineBlocks} blocks`;
+      }
+
+      rows.push({
+        epoch: Number(snapshot.epoch),
+        endBlock: Number(snapshot.endBlock),
+        endTime: Number(snapshot.endTime),
+        duration: Number(duration),
+        validatorID: Number(v.validatorID),
+        receivedStake: v.receivedStake.toString(),
+        uptime: Math.min(percent(uptime, duration), 100),
+        averageUptime: percent(v.averageUptime, DECIMAL_UNIT),
+        apr: duration === 0n ? 0 : percent(rewardPerToken * SECONDS_PER_YEAR, duration * DECIMAL_UNIT),
+        offlineBlocks: Number(v.offlineBlocks),
+        offlineTime: Number(v.offlineTime),
+        originatedTxsFee: (fee > 0n ? fee : 0n).toString(),
+        risk,
+        riskReason,
+      });
+    }
+  }
+  return rows;
+}
+
+export { PerformanceConstants, PerformanceRisk, ValidatorPerformanceRow, computePerformance };
@@ -0,0 +1,35 @@
+import { SigningKey, dataSlice, getAddress, getBytes, isHexString, keccak256 } from 'ethers';
+
+// Validator pubkeys are a type byte 0xc0 (secp256k1) followed by the 65 bytes uncompressed public key (0x04...).
+const PUBKEY_TYPE_SECP256K1 = 0xc0;
+const PUBKEY_LENGTH = 66;
+
+/** Returns the reason why the pubkey would be rejected by the SFC or is not a valid key, undefined if valid. */
+function validatePubkey(pubkey: string): string | undefined {
+  if (!isHexString(pubkey)) {
+    return 'pubkey must be a hex string';
+  }
+  const bytes = getBytes(pubkey);
+  if (bytes.length !== PUBKEY_LENGTH) {
+    return `pubkey must be ${PUBKEY_LENGTH} bytes long, got ${bytes.length}`;
+  }
+  if (bytes[0] !== PUBKEY_TYPE_SECP256K1) {
+    return `pubkey must start with 0xc0 (secp256k1), got 0x${bytes[0].toString(16).padStart(2, '0')}`;
+  }
+  if (bytes[1] !== 0x04) {
+    return 'pubkey must contain an uncompressed secp256k1 key (0xc004...)';
+  }
+  try {
+    SigningKey.computePublicKey(bytes.slice(1));
+  } catch {
+    return 'pubkey is not a point on the secp256k1 curve';
+  }
+  return undefined;
+}
+
+/** Address derived from the pubkey the same way as SFC._pubkeyToAddress. */
+function pubkeyToAddress(pubkey: string): string {
+  return getAddress(dataSlice(keccak256(dataSlice(pubkey, 2)), 12));
+}
+
+export { validatePubkey, pubkeyToAddress };
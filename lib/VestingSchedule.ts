@@ -0,0 +1,57 @@
+// Release schedule of the CTOTreasuryVesting, computed the same way as the contract.
+// MONTHLY_RELEASE unlocks every SECONDS_PER_MONTH, after VESTING_DURATION months everything left is unlocked,
+// so the last month unlocks the remainder of TOTAL_TOKENS instead of MONTHLY_RELEASE.
+
+interface VestingParams {
+  // 0 while the vesting has not been started
+  startTime: bigint;
+  totalTokens: bigint;
+  monthlyRelease: bigint;
+  vestingDuration: bigint;
+  secondsPerMonth: bigint;
+}
+
+interface ScheduleRow {
+  month: number;
+  unlockTime: bigint;
+  amount: bigint;
+  // unlocked in total once the month is reached
+  cumulative: bigint;
+}
+
+/** Month-by-month unlocks of the vesting, unlock times are only meaningful once it has been started. */
+function vestingSchedule(params: VestingParams): ScheduleRow[] {
+  const rows: ScheduleRow[] = [];
+  for (let month = 1n; month <= params.vestingDuration; month++) {
+    const cumulative = month < params.vestingDuration ? month * params.monthlyRelease : params.totalTokens;
+    rows.push({
+      month: Number(month),
+      unlockTime: params.startTime + month * params.secondsPerMonth,
+      amount: cumulative - (rows.at(-1)?.cumulative ?? 0n),
+      cumulative,
+    });
+  }
+  return rows;
+}
+
+/** Mirror of CTOTreasuryVesting.vestedAmount() at the given timestamp. */
+function vestedAt(params: VestingParams, totalReleased: bigint, timestamp: bigint): bigint {
+  if (params.startTime === 0n || timestamp < params.startTime) {
+    return 0n;
+  }
+  const monthsElapsed = (timestamp - params.startTime) / params.secondsPerMonth;
+  if (monthsElapsed >= params.vestingDuration) {
+    return params.totalTokens - totalReleased;
+  }
+  return monthsElapsed * params.monthlyRelease - totalReleased;
+}
+
+/** Next unlock after the timestamp, undefined when not started or everything is unlocked. */
+function nextUnlock(params: VestingParams, timestamp: bigint): ScheduleRow | undefined {
+  if (params.startTime === 0n) {
+    return undefined;
+  }
+  return vestingSchedule(params).find(row => row.unlockTime > timestamp);
+}
+
+export { VestingParams, ScheduleRow, vestingSchedule, vestedAt, nextUnlock };
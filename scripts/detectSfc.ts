@@ -1,55 +1,234 @@
-import { ethers } from 'hardhat';
-import { AddressLike } from 'ethers';
+import { ethers, network } from 'hardhat';
+import * as fs from 'fs';
+import { checkAddressBook, getAddressBook, getImplementation, parseImplementations } from '../lib/AddressBook';
+import { formatTable, toJson } from '../lib/Table';
 
-// Detect NodeDriver and SFC used on the given chain:
+// Detect NodeDriver and SFC used on the given chain and audit their configuration:
 // npx hardhat run scripts/detectSfc.ts --no-compile --network local
+//
+// Optional env:
+//   EXPECTED_OWNER  - owner (multisig) all the contracts must have, by default they must share the SFC owner
+//   EXPECTED_CONSTS - ConstantsManager the SFC must use, it is not a system contract of the address book
+//   EXPECTED_IMPLEMENTATIONS - implementations the proxies must have, overriding the ones pinned by the address book,
+//                     e.g. sfc=0x...,nodeDriverAuth=0x...
+//   AUDIT_JSON      - file to write the machine-readable report to, "-" to print it instead of the tables
+// Exits with a non-zero code when any check fails.
+
+interface Check {
+  name: string;
+  ok: boolean;
+  // warnings are reported but do not fail the audit
+  warning?: boolean;
+  details: string;
+}
+
+const CONSTANTS = [
+  'minSelfStake',
+  'maxDelegatedRatio',
+  'validatorCommission',
+  'burntFeeShare',
+  'treasuryFeeShare',
+  'extraRewardsBurnRatio',
+  'withdrawalPeriodEpochs',
+  'withdrawalPeriodTime',
+  'baseRewardPerSecond',
+  'offlinePenaltyThresholdBlocksNum',
+  'offlinePenaltyThresholdTime',
+  'averageUptimeEpochWindow',
+  'minAverageUptime',
+  'issuedTokensRecipient',
+] as const;
 
 async function main() {
-  const NODE_DRIVER_ADDRESS = '0xd100a01e00000000000000000000000000000000';
-  const SUBSIDIES_REGISTRY_ADDRESS = '0x7d0E23398b6CA0eC7Cdb5b5Aad7F1b11215012d2';
-  const ZERO_SLOT = '0x' + '0'.repeat(64);
-
-  const nodeDriver = await ethers.getContractAt('NodeDriver', NODE_DRIVER_ADDRESS);
-  console.log('NodeDriver: ', NODE_DRIVER_ADDRESS);
-  console.log(' - implementation: ', await getImplementation(nodeDriver));
-  console.log(' - owner: ', await nodeDriver.owner());
-
-  const nodeDriverAuthAddress = storageToAddress(await ethers.provider.getStorage(nodeDriver, ZERO_SLOT));
-  const nodeDriverAuth = await ethers.getContractAt('NodeDriverAuth', nodeDriverAuthAddress);
-  console.log('NodeDriverAuth: ', nodeDriverAuthAddress);
-  console.log(' - implementation: ', await getImplementation(nodeDriverAuth));
-  console.log(' - owner: ', await nodeDriverAuth.owner());
-
-  const sfcAddress = storageToAddress(await ethers.provider.getStorage(nodeDriverAuth, ZERO_SLOT));
-  const sfc = await ethers.getContractAt('SFC', sfcAddress);
-  console.log('SFC: ', sfcAddress);
-  console.log(' - implementation: ', await getImplementation(sfc));
-  console.log(' - owner: ', await sfc.owner());
-  console.log(' - lastValidatorID: ', (await sfc.lastValidatorID()).toString());
-
-  const constantsManagerAddress = await sfc.constsAddress();
-  const constantsManager = await ethers.getContractAt('ConstantsManager', constantsManagerAddress);
-  console.log('ConstantsManager:', constantsManagerAddress);
-  console.log(' - owner: ', await constantsManager.owner());
-  console.log(' - issuedTokensRecipient: ', await constantsManager.issuedTokensRecipient());
-
-  const subsidiesRegistry = await ethers.getContractAt('SubsidiesRegistry', SUBSIDIES_REGISTRY_ADDRESS);
-  console.log('SubsidiesRegistry: ', SUBSIDIES_REGISTRY_ADDRESS);
-  console.log(' - implementation: ', await getImplementation(subsidiesRegistry));
-  console.log(' - owner: ', await subsidiesRegistry.owner());
-  console.log(' - getGasConfig: ', await subsidiesRegistry.getGasConfig());
+  const addresses = getAddressBook(network.name);
+  const checks: Check[] = [];
+  const check = (name: string, ok: boolean, details: string, warning = false) =>
+    checks.push({ name, ok, details, ...(warning ? { warning } : {}) });
+  const sameAddress = (a: string, b: string) => ethers.getAddress(a) === ethers.getAddress(b);
+
+  const implementations = parseImplementations(process.env.EXPECTED_IMPLEMENTATIONS);
+  for (const entry of await checkAddressBook(ethers.provider, addresses, implementations)) {
+    check(`${entry.contract} deployed`, !entry.error, entry.error ?? `${entry.address} ${entry.implementation ?? ''}`);
+  }
+  if (checks.some(c => !c.ok)) {
+    // nothing else can be read reliably
+    writeJson({ network: network.name, checks, ok: false });
+    if (process.env.AUDIT_JSON !== '-') {
+      console.log(
+        formatTable(
+          ['Check', 'Result', 'Details'],
+          checks.map(c => [c.name, c.ok ? 'OK' : 'FAILED', c.details]),
+        ),
+      );
+    }
+    process.exitCode = 1;
+    return;
+  }
+
+  const nodeDriver = await ethers.getContractAt('NodeDriver', addresses.nodeDriver.address);
+  const nodeDriverBackend = await readAddressSlot(nodeDriver, 0);
+  const nodeDriverEvmWriter = await readAddressSlot(nodeDriver, 1);
+  const nodeDriverAuth = await ethers.getContractAt('NodeDriverAuth', nodeDriverBackend);
+  const nodeDriverAuthSfc = await readAddressSlot(nodeDriverAuth, 0);
+  const nodeDriverAuthDriver = await readAddressSlot(nodeDriverAuth, 1);
+  const sfc = await ethers.getContractAt('SFC', nodeDriverAuthSfc);
+  const sfcNode = await readAddressSlot(sfc, 0);
+  const constantsManager = await ethers.getContractAt('ConstantsManager', await sfc.constsAddress());
+  const subsidiesRegistry = await ethers.getContractAt('SubsidiesRegistry', addresses.subsidiesRegistry.address);
+
+  check('NodeDriver backend', sameAddress(nodeDriverBackend, addresses.nodeDriverAuth.address), nodeDriverBackend);
+  check('NodeDriver evmWriter', sameAddress(nodeDriverEvmWriter, addresses.evmWriter.address), nodeDriverEvmWriter);
+  check('NodeDriverAuth sfc', sameAddress(nodeDriverAuthSfc, addresses.sfc.address), nodeDriverAuthSfc);
+  check('NodeDriverAuth driver', sameAddress(nodeDriverAuthDriver, addresses.nodeDriver.address), nodeDriverAuthDriver);
+  check('SFC node', sameAddress(sfcNode, nodeDriverBackend), sfcNode);
+  const constsAddress = await constantsManager.getAddress();
+  const constsCode = await ethers.provider.getCode(constantsManager);
+  const expectedConsts = process.env.EXPECTED_CONSTS;
+  check(
+    'SFC constsAddress',
+    constsCode !== '0x' && (!expectedConsts || sameAddress(constsAddress, expectedConsts)),
+    `${constsAddress} (${constsCode.length / 2 - 1} bytes)` + (expectedConsts ? `, expected ${expectedConsts}` : ''),
+  );
+  if (!expectedConsts) {
+    check('SFC constsAddress expected', false, 'EXPECTED_CONSTS is not set, only the code is checked', true);
+  }
+
+  const contracts = [
+    { name: 'NodeDriver', contract: nodeDriver, proxy: true },
+    { name: 'NodeDriverAuth', contract: nodeDriverAuth, proxy: true },
+    { name: 'SFC', contract: sfc, proxy: true },
+    { name: 'ConstantsManager', contract: constantsManager, proxy: false },
+    { name: 'SubsidiesRegistry', contract: subsidiesRegistry, proxy: true },
+  ];
+  const contractRows = [];
+  const expectedOwner = process.env.EXPECTED_OWNER ?? (await sfc.owner());
+  for (const { name, contract, proxy } of contracts) {
+    const owner = await contract.owner();
+    check(`${name} owner`, sameAddress(owner, expectedOwner), `${owner}, expected ${expectedOwner}`);
+    contractRows.push({
+      name,
+      address: await contract.getAddress(),
+      implementation: proxy ? await getImplementation(ethers.provider, contract) : undefined,
+      owner,
+    });
+  }
+
+  // getters missing in outdated implementations are reported as warnings
+  const read = async <T>(name: string, getter: () => Promise<T>): Promise<T | undefined> => {
+    try {
+      return await getter();
+    } catch {
+      check(`${name} readable`, false, 'call failed, outdated implementation?', true);
+      return undefined;
+    }
+  };
+
+  const constants: Record<string, bigint | string | undefined> = {};
+  for (const name of CONSTANTS) {
+    constants[name] = await read(`ConstantsManager.${name}`, () => constantsManager.getFunction(name)());
+  }
+
+  const totals = {
+    currentSealedEpoch: await sfc.currentSealedEpoch(),
+    lastValidatorID: await sfc.lastValidatorID(),
+    totalStake: await sfc.totalStake(),
+    totalActiveStake: await sfc.totalActiveStake(),
+    totalSupply: await sfc.totalSupply(),
+    unresolvedTreasuryFees: await read('SFC.unresolvedTreasuryFees', () => sfc.unresolvedTreasuryFees()),
+    balance: await ethers.provider.getBalance(sfc),
+  };
+  check(
+    'totalActiveStake <= totalStake',
+    totals.totalActiveStake <= totals.totalStake,
+    `${totals.totalActiveStake} <= ${totals.totalStake}`,
+  );
+  check(
+    'SFC balance covers totalStake',
+    totals.balance >= totals.totalStake,
+    `${totals.balance} >= ${totals.totalStake}`,
+  );
+
+  const roles = {
+    treasuryAddress: await sfc.treasuryAddress(),
+    stakeSubscriberAddress: await read('SFC.stakeSubscriberAddress', () => sfc.stakeSubscriberAddress()),
+    redirectionAuthorizer: await read('SFC.redirectionAuthorizer', () => sfc.redirectionAuthorizer()),
+  };
+  const treasurySet = roles.treasuryAddress !== ethers.ZeroAddress;
+  check('Treasury set', treasurySet, roles.treasuryAddress, true);
+  check(
+    'Treasury fees resolved',
+    !treasurySet || !totals.unresolvedTreasuryFees,
+    `${ethers.formatEther(totals.unresolvedTreasuryFees ?? 0n)} unresolved`,
+    true,
+  );
+
+  const gasConfig = await subsidiesRegistry.getGasConfig();
+  const subsidies = {
+    chooseFundGasLimit: gasConfig[0],
+    deductFeesGasLimit: gasConfig[1],
+    overheadCharge: gasConfig[2],
+  };
+
+  const failures = checks.filter(c => !c.ok && !c.warning);
+  const report = {
+    network: network.name,
+    chainId: (await ethers.provider.getNetwork()).chainId,
+    contracts: contractRows,
+    constants,
+    totals,
+    roles,
+    subsidies,
+    checks,
+    ok: failures.length === 0,
+  };
+
+  writeJson(report);
+  if (process.env.AUDIT_JSON !== '-') {
+    const values = (record: object) => Object.entries(record).map(([key, value]) => [key, value]);
+    console.log(`Network ${report.network} (chain ID ${report.chainId})\n`);
+    console.log(
+      formatTable(
+        ['Contract', 'Address', 'Implementation', 'Owner'],
+        contractRows.map(c => [c.name, c.address, c.implementation, c.owner]),
+      ),
+    );
+    console.log('\n' + formatTable(['ConstantsManager', 'Value'], values(constants)));
+    console.log('\n' + formatTable(['SFC', 'Value'], [...values(totals), ...values(roles)]));
+    console.log('\n' + formatTable(['SubsidiesRegistry', 'Value'], values(subsidies)));
+    console.log(
+      '\n' +
+        formatTable(
+          ['Check', 'Result', 'Details'],
+          checks.map(c => [c.name, c.ok ? 'OK' : c.warning ? 'WARNING' : 'FAILED', c.details]),
+        ),
+    );
+    console.log(`\n${failures.length === 0 ? 'All checks passed' : `${failures.length} check(s) failed`}`);
+  }
+  if (failures.length > 0) {
+    process.exitCode = 1;
+  }
+}
+
+function writeJson(report: object) {
+  if (process.env.AUDIT_JSON === '-') {
+    console.log(toJson(report));
+  } else if (process.env.AUDIT_JSON) {
+    fs.writeFileSync(process.env.AUDIT_JSON, toJson(report));
+  }
 }
 
-function storageToAddress(storageSlot: string): string {
-  return ethers.AbiCoder.defaultAbiCoder().decode(['address'], storageSlot)[0];
+// read an address stored in a plain storage slot of a contract
+async function readAddressSlot(contract: { getAddress(): Promise<string> }, slot: number): Promise<string> {
+  const value = await ethers.provider.getStorage(await contract.getAddress(), slot);
+  return ethers.AbiCoder.defaultAbiCoder().decode(['address'], value)[0];
 }
 
-async function getImplementation(address: AddressLike): Promise<string> {
-  const IMPLEMENTATION_SLOT = '0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc'; // EIP-1967
-  return storageToAddress(await ethers.provider.getStorage(address, IMPLEMENTATION_SLOT));
+// the tests run the audit in-process
+if (require.main === module) {
+  main().catch(err => {
+    console.error(err);
+    process.exit(1);
+  });
 }
 
-main().catch(err => {
-  console.error(err);
-  process.exit(1);
-});
+export { main };
@@ -1,11 +1,12 @@
-import { ethers } from 'hardhat';
+import { ethers, network } from 'hardhat';
+import { loadAddressBook } from '../lib/AddressBook';
 
 // Issue native tokens to a specific address on the local testing network:
 // (requires .env with appropriate PRIVATE_KEY)
 // npx hardhat run scripts/issueTokens.ts --no-compile --network local
 
 async function main() {
-  const SFC_ADDRESS = '0xfc00face00000000000000000000000000000000';
+  const SFC_ADDRESS = (await loadAddressBook(network.name, ethers.provider)).sfc.address;
   const TARGET_ADDRESS = '0xfc00face00000000000000000000000000000012'; // must be different from signer, otherwise reverts
 
   const [signer] = await ethers.getSigners();
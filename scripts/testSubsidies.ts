@@ -1,8 +1,10 @@
 import { expect } from 'chai';
-import { ethers } from 'hardhat';
+import { ethers, network } from 'hardhat';
+import { loadAddressBook } from '../lib/AddressBook';
 
 // Test Gas Subsidies on a live Pano chain
-// This script must run against a real Pano node (not Hardhat).
+// This script must run against a real Pano node (not Hardhat),
+// the same flow runs on the Hardhat network with a node stand-in in test/SponsoredTransactions.ts.
 // Requirements:
 //   * Use --network pointing to a chain where GasSubsidies upgrade is enabled.
 //   * Set PRIVATE_KEY env variable to an account holding at least 0.2 S.
@@ -10,7 +12,7 @@ import { ethers } from 'hardhat';
 // npx hardhat run scripts/testSubsidies.ts --no-compile --network local
 
 async function main() {
-  const SUBSIDIES_REGISTRY_ADDRESS = '0x7d0E23398b6CA0eC7Cdb5b5Aad7F1b11215012d2';
+  const SUBSIDIES_REGISTRY_ADDRESS = (await loadAddressBook(network.name, ethers.provider)).subsidiesRegistry.address;
 
   const subsidiesRegistry = await ethers.getContractAt('SubsidiesRegistry', SUBSIDIES_REGISTRY_ADDRESS);
 
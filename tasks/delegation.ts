@@ -0,0 +1,250 @@
+import { task, types } from 'hardhat/config';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { HardhatPluginError } from 'hardhat/plugins';
+import { ContractTransactionReceipt, formatEther } from 'ethers';
+import { Indexer } from '../lib/Indexer';
+import { Portfolio, RequestID, delegatorPortfolio, undelegatedRequestIDs, withdrawableFrom } from '../lib/Portfolio';
+import { formatTable, toCsv, toJson } from '../lib/Table';
+import { addressBook, sendTx, sfcAddress } from './utils';
+
+// Delegator operations on the SFC, e.g.:
+// npx hardhat sfc:delegate --validator 1 --amount 1000 --network testnet
+// (requires .env with appropriate PRIVATE_KEY)
+// Read-only report of a delegator (table, JSON or CSV), withdrawal requests from the events or the indexer database:
+// npx hardhat sfc:portfolio --delegator 0x... [--format csv] [--db sfc.sqlite] --network pano
+
+interface DelegatorArgs {
+  sfc?: string;
+  validator: bigint;
+}
+
+async function connect(hre: HardhatRuntimeEnvironment, address?: string) {
+  const [signer] = await hre.ethers.getSigners();
+  console.log('Using signer:', signer.address);
+  const sfc = await hre.ethers.getContractAt('SFC', await sfcAddress(hre, address), signer);
+  return { signer, sfc };
+}
+
+task('sfc:delegate', 'Delegate native tokens to a validator')
+  .addParam('validator', 'Validator ID', undefined, types.bigint)
+  .addParam('amount', 'Amount of tokens to delegate', undefined, types.string)
+  .addOptionalParam('sfc', 'SFC address, from the address book by default', undefined, types.string)
+  .setAction(async (args: DelegatorArgs & { amount: string }, hre): Promise<ContractTransactionReceipt> => {
+    const { sfc } = await connect(hre, args.sfc);
+    const amount = hre.ethers.parseEther(args.amount);
+    return sendTx(sfc.interface, `Delegating ${args.amount} tokens to validator ${args.validator}`, () =>
+      sfc.delegate(args.validator, { value: amount }),
+    );
+  });
+
+task('sfc:undelegate', 'Create a withdrawal request for delegated tokens')
+  .addParam('validator', 'Validator ID', undefined, types.bigint)
+  .addParam('amount', 'Amount of tokens to undelegate', undefined, types.string)
+  .addOptionalParam('wrId', 'Withdrawal request ID, the first unused one by default', undefined, types.bigint)
+  .addOptionalParam('sfc', 'SFC address, from the address book by default', undefined, types.string)
+  .setAction(
+    async (args: DelegatorArgs & { amount: string; wrId?: bigint }, hre): Promise<ContractTransactionReceipt> => {
+      const { signer, sfc } = await connect(hre, args.sfc);
+      let wrID = args.wrId;
+      if (wrID === undefined) {
+        wrID = 0n;
+        while ((await sfc.getWithdrawalRequest(signer, args.validator, wrID)).amount !== 0n) {
+          wrID++;
+        }
+      }
+      const amount = hre.ethers.parseEther(args.amount);
+      return sendTx(
+        sfc.interface,
+        `Undelegating ${args.amount} tokens from validator ${args.validator}, wrID ${wrID}`,
+        () => sfc.undelegate(args.validator, wrID, amount),
+      );
+    },
+  );
+
+task('sfc:withdraw', 'Withdraw undelegated tokens once the withdrawal period has passed')
+  .addParam('validator', 'Validator ID', undefined, types.bigint)
+  .addParam('wrId', 'Withdrawal request ID', undefined, types.bigint)
+  .addOptionalParam('sfc', 'SFC address, from the address book by default', undefined, types.string)
+  .setAction(async (args: DelegatorArgs & { wrId: bigint }, hre): Promise<ContractTransactionReceipt> => {
+    const { signer, sfc } = await connect(hre, args.sfc);
+    const request = await sfc.getWithdrawalRequest(signer, args.validator, args.wrId);
+    if (request.amount !== 0n) {
+      const constants = await hre.ethers.getContractAt('ConstantsManager', await sfc.constsAddress());
+      const from = withdrawableFrom(
+        request,
+        await sfc.getValidator(args.validator),
+        await constants.withdrawalPeriodEpochs(),
+        await constants.withdrawalPeriodTime(),
+      );
+      console.log(
+        `Withdrawal request of ${hre.ethers.formatEther(request.amount)} tokens, created in epoch ${request.epoch}, ` +
+          `withdrawable from epoch ${from.epoch} (current ${await sfc.currentEpoch()}) ` +
+          `after ${new Date(Number(from.time) * 1000).toISOString()}` +
+          (from.deactivatedFirst ? ', counted from the deactivation of the validator' : ''),
+      );
+    }
+    return sendTx(sfc.interface, `Withdrawing request ${args.wrId} from validator ${args.validator}`, () =>
+      sfc.withdraw(args.validator, args.wrId),
+    );
+  });
+
+task('sfc:claim', 'Claim rewards of a delegation')
+  .addParam('validator', 'Validator ID', undefined, types.bigint)
+  .addOptionalParam('sfc', 'SFC address, from the address book by default', undefined, types.string)
+  .setAction(async (args: DelegatorArgs, hre): Promise<ContractTransactionReceipt> => {
+    const { signer, sfc } = await connect(hre, args.sfc);
+    console.log('Pending rewards:', hre.ethers.formatEther(await sfc.pendingRewards(signer, args.validator)));
+    return sendTx(sfc.interface, `Claiming rewards from validator ${args.validator}`, () =>
+      sfc.claimRewards(args.validator),
+    );
+  });
+
+task('sfc:restake', 'Restake rewards of a delegation')
+  .addParam('validator', 'Validator ID', undefined, types.bigint)
+  .addOptionalParam('sfc', 'SFC address, from the address book by default', undefined, types.string)
+  .setAction(async (args: DelegatorArgs, hre): Promise<ContractTransactionReceipt> => {
+    const { signer, sfc } = await connect(hre, args.sfc);
+    console.log('Pending rewards:', hre.ethers.formatEther(await sfc.pendingRewards(signer, args.validator)));
+    return sendTx(sfc.interface, `Restaking rewards to validator ${args.validator}`, () =>
+      sfc.restakeRewards(args.validator),
+    );
+  });
+
+task('sfc:stash', 'Stash rewards of a delegation, so they stop depending on the validator')
+  .addParam('validator', 'Validator ID', undefined, types.bigint)
+  .addOptionalParam('delegator', 'Delegator address, the signer by default', undefined, types.string)
+  .addOptionalParam('sfc', 'SFC address, from the address book by default', undefined, types.string)
+  .setAction(async (args: DelegatorArgs & { delegator?: string }, hre): Promise<ContractTransactionReceipt> => {
+    const { signer, sfc } = await connect(hre, args.sfc);
+    const delegator = args.delegator ?? signer.address;
+    return sendTx(sfc.interface, `Stashing rewards of ${delegator} from validator ${args.validator}`, () =>
+      sfc.stashRewards(delegator, args.validator),
+    );
+  });
+
+interface PortfolioArgs {
+  delegator: string;
+  format: string;
+  db?: string;
+  fromBlock: number;
+  block?: number;
+  sfc?: string;
+}
+
+task('sfc:portfolio', 'Print stakes, rewards, withdrawal requests and redirection of a delegator')
+  .addParam('delegator', 'Delegator address', undefined, types.string)
+  .addOptionalParam('format', 'Output format: table, json or csv', 'table', types.string)
+  .addOptionalParam(
+    'db',
+    'Indexer database to take the withdrawal requests from, see indexer:sync',
+    undefined,
+    types.inputFile,
+  )
+  .addOptionalParam('fromBlock', 'First block searched for Undelegated events when no database is given', 0, types.int)
+  .addOptionalParam('block', 'Block to report at, the latest by default', undefined, types.int)
+  .addOptionalParam('sfc', 'SFC address, from the address book by default', undefined, types.string)
+  .setAction(async (args: PortfolioArgs, hre): Promise<Portfolio> => {
+    if (!['table', 'json', 'csv'].includes(args.format)) {
+      throw new HardhatPluginError('pano-sfc', `Unknown format ${args.format}, expected table, json or csv`);
+    }
+    const delegator = hre.ethers.getAddress(args.delegator);
+    const sfc = await hre.ethers.getContractAt('SFC', await sfcAddress(hre, args.sfc));
+    const constants = await hre.ethers.getContractAt('ConstantsManager', await sfc.constsAddress());
+    let requestIDs: RequestID[];
+    if (args.db) {
+      const book = await addressBook(hre);
+      const indexer = await Indexer.open(
+        hre.ethers.provider,
+        { sfc: await sfc.getAddress(), nodeDriver: book.nodeDriver.address },
+        { path: args.db },
+      );
+      requestIDs = indexer.withdrawalRequests(delegator);
+      indexer.close();
+    } else {
+      requestIDs = await undelegatedRequestIDs(sfc, delegator, args.fromBlock, args.block);
+    }
+    const portfolio = await delegatorPortfolio(sfc, constants, delegator, requestIDs, args.block);
+    console.log(formatPortfolio(portfolio, args.format));
+    return portfolio;
+  });
+
+const PORTFOLIO_COLUMNS = [
+  'Type',
+  'Validator',
+  'wrID',
+  'Amount',
+  'Pending rewards',
+  'Rewards stash',
+  'Stashed until epoch',
+  'Withdrawable epoch',
+  'Withdrawable time',
+  'Withdrawable',
+  'Slashed',
+  'Refund ratio',
+  'Slashing penalty',
+];
+
+function formatPortfolio(portfolio: Portfolio, format: string): string {
+  if (format === 'json') {
+    return toJson(portfolio);
+  }
+  const date = (time: bigint) => new Date(Number(time) * 1000).toISOString();
+  const rows = [
+    ...portfolio.delegations.map(d => [
+      'stake',
+      d.validatorID,
+      undefined,
+      formatEther(d.stake),
+      formatEther(d.pendingRewards),
+      formatEther(d.rewardsStash),
+      d.stashedRewardsUntilEpoch,
+      undefined,
+      undefined,
+      undefined,
+      d.slashed,
+      d.slashed ? formatEther(d.refundRatio) : undefined,
+      formatEther(d.slashingPenalty),
+    ]),
+    ...portfolio.withdrawalRequests.map(r => [
+      'withdrawal-request',
+      r.validatorID,
+      r.wrID,
+      formatEther(r.amount),
+      undefined,
+      undefined,
+      undefined,
+      r.withdrawableEpoch,
+      date(r.withdrawableTime),
+      r.withdrawable,
+      r.slashed,
+      r.slashed ? formatEther(r.refundRatio) : undefined,
+      formatEther(r.slashingPenalty),
+    ]),
+  ];
+  if (format === 'csv') {
+    // one row per stake and withdrawal request, with the delegator and the receiver of its withdrawals
+    return toCsv(
+      [
+        'delegator',
+        'receiver',
+        ...PORTFOLIO_COLUMNS.map(column =>
+          column
+            .replace(/([a-z])([A-Z])/g, '$1_$2')
+            .replace(/ /g, '_')
+            .toLowerCase(),
+        ),
+      ],
+      rows.map(row => [portfolio.delegator, portfolio.redirection ?? portfolio.delegator, ...row]),
+    );
+  }
+  const redirection = [
+    portfolio.redirection ? `Withdrawals and claims are redirected to ${portfolio.redirection}` : undefined,
+    portfolio.redirectionRequest ? `Redirection to ${portfolio.redirectionRequest} waits for acceptance` : undefined,
+  ].filter(line => line !== undefined);
+  return [
+    `Delegator ${portfolio.delegator} at block ${portfolio.blockNumber} (epoch ${portfolio.currentEpoch}, ${date(portfolio.timestamp)})`,
+    ...redirection,
+    '',
+    formatTable(PORTFOLIO_COLUMNS, rows),
+  ].join('\n');
+}
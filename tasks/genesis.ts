@@ -0,0 +1,29 @@
+import { task, types } from 'hardhat/config';
+import * as fs from 'fs';
+import { GenesisConfig, codeSizes, formatGenesis, generateGenesis } from '../lib/Genesis';
+
+// Generate a genesis JSON with the SFC system contracts, e.g.:
+// npx hardhat genesis:generate --input example-genesis-config.json --out genesis.json
+
+task('genesis:generate', 'Generate a genesis JSON with the SFC system contracts from compiled artifacts')
+  .addParam(
+    'input',
+    'Genesis config JSON (rules, owner, validators, delegations, accounts)',
+    undefined,
+    types.inputFile,
+  )
+  .addParam('out', 'Output genesis JSON file', undefined, types.string)
+  .setAction(async (args: { input: string; out: string }, hre) => {
+    await hre.run('compile', { quiet: true });
+    const config: GenesisConfig = JSON.parse(fs.readFileSync(args.input, 'utf8'));
+    const genesis = await generateGenesis(hre.artifacts, config);
+    fs.writeFileSync(args.out, formatGenesis(genesis));
+
+    for (const [name, size] of Object.entries(codeSizes(genesis))) {
+      console.log(` - ${name}: ${size} bytes`);
+    }
+    console.log(
+      `Genesis with ${genesis.accounts.length} accounts and ${genesis.txs.length} txs written to ${args.out}`,
+    );
+    return genesis;
+  });
@@ -0,0 +1,631 @@
+import { task, types } from 'hardhat/config';
+import { HardhatPluginError } from 'hardhat/plugins';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { Contract, Interface, Signer, ZeroHash, formatEther, getAddress, getCreateAddress, parseEther } from 'ethers';
+import * as fs from 'fs';
+import { ContractName } from '../lib/AddressBook';
+import {
+  CONSTANTS,
+  ConstantsPlan,
+  NetworkConstants,
+  migrationCalls,
+  parseConstantsConfig,
+  planConstants,
+  readConstants,
+  validateConstants,
+} from '../lib/ConstantsPlan';
+import {
+  GovernanceCall,
+  SafeBatch,
+  TIMELOCK,
+  buildSafeBatch,
+  describeCall,
+  encodeCall,
+  formatArgument,
+  parseCallSpec,
+  timelockCalls,
+} from '../lib/SafeBatch';
+import {
+  IMMUTABLE_RULES,
+  NetworkRules,
+  RulesDiff,
+  diffPaths,
+  diffRules,
+  encodeRulesDiff,
+  mergeRules,
+  networkRulesUpdates,
+  validateRules,
+} from '../lib/NetworkRules';
+import { describeContractError } from '../lib/SfcErrors';
+import { RefundRatioImpact, SlashedValidator, refundRatioImpact, slashedValidator } from '../lib/Slashing';
+import { formatTable, toJson } from '../lib/Table';
+import { ForkProvider, bookAddress, forkNetwork, impersonate, sendTx, sfcAddress } from './utils';
+
+// Owner-only calls of the network contracts as Safe Transaction Builder batches, proposed and reviewed in the Safe
+// instead of being signed with the PRIVATE_KEY of .env. The calls are simulated as the owner on a fork first, e.g.:
+// npx hardhat gov:propose "constants.updateMinSelfStake(500000000000000000000000)" \
+//   "sfc.updateTreasuryAddress(0x...)" [--safe 0x...] --out proposal.json --network pano
+// When the owner is a TimelockController, the batch schedules the calls and <out>.execute.json executes them:
+// npx hardhat gov:propose ... --safe 0x... --timelock 0x... [--delay 86400] --out proposal.json --network pano
+//
+// ConstantsManager changes planned from a config of target values, checked against the bounds of the setters
+// client-side; --migrate deploys a new ConstantsManager instead and proposes switching the SFC to it:
+// npx hardhat gov:constants --targets constants.json [--dry-run] [--migrate] --out proposal.json --network pano
+//
+// Network rules changes as the minimal updateNetworkRules diff, the current rules are the ones of the genesis with
+// the UpdateNetworkRules events of the NodeDriver applied:
+// npx hardhat gov:network-rules --rules rules.json --current example-genesis.json [--dry-run] --out proposal.json
+//
+// Penalties of the delegators of a slashed validator under candidate refund ratios, proposing the chosen one:
+// npx hardhat gov:slashing-refund --validator 1 [--ratios 0,0.5,1] [--ratio 0.5] --out proposal.json --network pano
+
+interface ProposeArgs {
+  calls: string[];
+  safe?: string;
+  timelock?: string;
+  delay?: bigint;
+  salt: string;
+  name?: string;
+  out?: string;
+  sfc?: string;
+  nodeDriverAuth?: string;
+  registry?: string;
+}
+
+interface ProposedCall {
+  summary: string;
+  // value of the matching getter (e.g. minSelfStake() of updateMinSelfStake) before and after the simulation
+  before?: string;
+  after?: string;
+}
+
+interface Proposal {
+  calls: ProposedCall[];
+  batch: SafeBatch;
+  // batch executing the scheduled calls once the timelock delay passed
+  execute?: SafeBatch;
+}
+
+interface ConstantsArgs {
+  targets: string;
+  migrate: boolean;
+  dryRun: boolean;
+  safe?: string;
+  timelock?: string;
+  delay?: bigint;
+  out?: string;
+  sfc?: string;
+}
+
+interface ConstantsPlanReport {
+  plan: ConstantsPlan;
+  // new ConstantsManager of a migration
+  migratedTo?: string;
+  proposal?: Proposal;
+}
+
+interface NetworkRulesArgs {
+  rules: string;
+  current: string;
+  fromBlock: number;
+  nodeDriver?: string;
+  dryRun: boolean;
+  safe?: string;
+  timelock?: string;
+  delay?: bigint;
+  out?: string;
+  sfc?: string;
+  nodeDriverAuth?: string;
+}
+
+interface NetworkRulesReport {
+  current: NetworkRules;
+  desired: NetworkRules;
+  diff?: RulesDiff;
+  proposal?: Proposal;
+}
+
+interface SlashingRefundArgs {
+  validator: bigint;
+  ratios: string;
+  ratio?: string;
+  fromBlock: number;
+  report?: string;
+  safe?: string;
+  timelock?: string;
+  delay?: bigint;
+  out?: string;
+  sfc?: string;
+}
+
+interface SlashingRefundReport {
+  validator: SlashedValidator;
+  impacts: RefundRatioImpact[];
+  proposal?: Proposal;
+}
+
+// contracts the calls may target, by the name used in the call specs
+const GOVERNED_CONTRACTS: Record<string, string> = {
+  sfc: 'SFC',
+  constants: 'ConstantsManager',
+  nodeDriverAuth: 'NodeDriverAuth',
+  subsidiesRegistry: 'SubsidiesRegistry',
+};
+
+/** Address of a governed contract, the constants one from the SFC. */
+async function governedAddress(hre: HardhatRuntimeEnvironment, args: ProposeArgs, name: string): Promise<string> {
+  if (name === 'constants') {
+    return (await hre.ethers.getContractAt('SFC', await sfcAddress(hre, args.sfc))).constsAddress();
+  }
+  const overrides: Record<string, string | undefined> = {
+    sfc: args.sfc,
+    nodeDriverAuth: args.nodeDriverAuth,
+    subsidiesRegistry: args.registry,
+  };
+  return bookAddress(hre, name as ContractName, overrides[name]);
+}
+
+// getter of the value an update* call sets, e.g. minSelfStake() of updateMinSelfStake(v)
+async function readGetter(call: GovernanceCall, provider: ForkProvider): Promise<string | undefined> {
+  const name = call.method.replace(/^update(\w)/, (_, first: string) => first.toLowerCase());
+  const getter = name !== call.method ? call.iface.getFunction(name) : null;
+  if (!getter || getter.inputs.length > 0) {
+    return undefined;
+  }
+  const [value] = await new Contract(call.to, call.iface, provider).getFunction(getter).staticCallResult();
+  return formatArgument(call.method, getter.outputs[0].type, value);
+}
+
+/**
+ * Send the calls as the owner on the fork, through the timelock when given, and read the getters around them. The
+ * prepare step runs on the fork first, e.g. deploying a contract the calls refer to.
+ */
+async function simulate(
+  hre: HardhatRuntimeEnvironment,
+  calls: GovernanceCall[],
+  safe: string,
+  timelock?: { schedule: GovernanceCall; execute: GovernanceCall; delay: bigint },
+  prepare?: (provider: ForkProvider) => Promise<void>,
+): Promise<ProposedCall[]> {
+  const fork = await forkNetwork(hre);
+  try {
+    await prepare?.(fork.provider);
+    const proposed: ProposedCall[] = [];
+    for (const call of calls) {
+      proposed.push({ summary: describeCall(call), before: await readGetter(call, fork.provider) });
+    }
+    const signer = await impersonate(fork.provider, safe);
+    const send = async (call: GovernanceCall) => {
+      try {
+        await (await signer.sendTransaction({ to: call.to, data: encodeCall(call), value: call.value ?? 0n })).wait();
+      } catch (err) {
+        throw new HardhatPluginError(
+          'pano-sfc',
+          `Simulation of ${describeCall(call)} failed: ${describeContractError(err, call.iface)}`,
+        );
+      }
+    };
+    if (timelock) {
+      await send(timelock.schedule);
+      await fork.provider.send('evm_increaseTime', [Number(timelock.delay)]);
+      await send(timelock.execute);
+    } else {
+      for (const call of calls) {
+        await send(call);
+      }
+    }
+    for (let i = 0; i < calls.length; i++) {
+      proposed[i].after = await readGetter(calls[i], fork.provider);
+    }
+    return proposed;
+  } finally {
+    await fork.release();
+  }
+}
+
+/** Calls of the specs, checked against the functions of the governed contracts. */
+async function parseCalls(hre: HardhatRuntimeEnvironment, args: ProposeArgs): Promise<GovernanceCall[]> {
+  const calls: GovernanceCall[] = [];
+  for (const spec of args.calls) {
+    let parsed;
+    try {
+      parsed = parseCallSpec(spec);
+    } catch (err) {
+      throw new HardhatPluginError('pano-sfc', (err as Error).message);
+    }
+    const contract = GOVERNED_CONTRACTS[parsed.contract];
+    if (!contract) {
+      throw new HardhatPluginError(
+        'pano-sfc',
+        `Unknown contract ${parsed.contract}, expected one of ${Object.keys(GOVERNED_CONTRACTS).join(', ')}`,
+      );
+    }
+    const iface = new Interface((await hre.artifacts.readArtifact(contract)).abi);
+    const fragment = iface.getFunction(parsed.method);
+    if (!fragment || fragment.constant) {
+      throw new HardhatPluginError('pano-sfc', `${contract}.${parsed.method} is not a state changing function`);
+    }
+    const to = await governedAddress(hre, args, parsed.contract);
+    const call = { contract, to, iface, method: fragment.name, args: parsed.args };
+    try {
+      encodeCall(call);
+    } catch (err) {
+      throw new HardhatPluginError('pano-sfc', `Invalid arguments of ${spec}: ${(err as Error).message}`);
+    }
+    calls.push(call);
+  }
+  return calls;
+}
+
+/** Batches of the calls, checked against the owners of the called contracts and simulated on a fork. */
+async function buildProposal(
+  hre: HardhatRuntimeEnvironment,
+  calls: GovernanceCall[],
+  args: ProposeArgs,
+  prepare?: (provider: ForkProvider) => Promise<void>,
+): Promise<Proposal> {
+  const { ethers } = hre;
+  // the executor (the timelock or the Safe) must own every called contract
+  const owners = new Map<string, string>();
+  for (const call of calls) {
+    const ownable = new Contract(call.to, ['function owner() view returns (address)'], ethers.provider);
+    owners.set(call.contract, getAddress(await ownable.owner()));
+  }
+  const executor = args.timelock ? getAddress(args.timelock) : args.safe ? getAddress(args.safe) : undefined;
+  const [owner] = new Set(owners.values());
+  for (const [contract, contractOwner] of owners) {
+    if (contractOwner !== (executor ?? owner)) {
+      throw new HardhatPluginError(
+        'pano-sfc',
+        `${contract} is owned by ${contractOwner}, not by ${executor ?? owner}` +
+          (executor ? '' : ', propose the calls of each owner separately'),
+      );
+    }
+  }
+  if (args.timelock && !args.safe) {
+    throw new HardhatPluginError('pano-sfc', 'The Safe proposing to the timelock must be given with --safe');
+  }
+  const safe = args.safe ? getAddress(args.safe) : owner;
+
+  const { chainId } = await ethers.provider.getNetwork();
+  const name = args.name ?? `Governance proposal of ${calls.length} calls`;
+  const description = calls.map(describeCall).join('\n');
+  if (args.timelock) {
+    const delay = args.delay ?? (await new Contract(args.timelock, TIMELOCK, ethers.provider).getMinDelay());
+    const { schedule, execute } = timelockCalls(args.timelock, calls, delay, args.salt);
+    return {
+      calls: await simulate(hre, calls, safe, { schedule, execute, delay }, prepare),
+      batch: buildSafeBatch(chainId, safe, `${name} (schedule)`, [schedule], description),
+      execute: buildSafeBatch(chainId, safe, `${name} (execute)`, [execute], description),
+    };
+  }
+  return {
+    calls: await simulate(hre, calls, safe, undefined, prepare),
+    batch: buildSafeBatch(chainId, safe, name, calls),
+  };
+}
+
+/** Print the simulated calls and write the batches to the out file, printed when not given. */
+function writeProposal(proposal: Proposal, out?: string) {
+  console.log(
+    formatTable(
+      ['Call', 'Before', 'After'],
+      proposal.calls.map(call => [call.summary, call.before, call.after]),
+    ),
+  );
+  if (!out) {
+    console.log(toJson(proposal.execute ? [proposal.batch, proposal.execute] : proposal.batch));
+    return;
+  }
+  fs.writeFileSync(out, toJson(proposal.batch) + '\n');
+  console.log(`Safe transaction batch written to ${out}`);
+  if (proposal.execute) {
+    const executeFile = out.replace(/(\.json)?$/, '.execute.json');
+    fs.writeFileSync(executeFile, toJson(proposal.execute) + '\n');
+    console.log(`Timelock execution batch written to ${executeFile}`);
+  }
+}
+
+task('gov:propose', 'Build a Safe transaction batch of owner-only calls of the network contracts')
+  .addVariadicPositionalParam('calls', 'Calls like constants.updateMinSelfStake(500000000000000000000000)')
+  .addOptionalParam('safe', 'Safe proposing the calls, the owner of the called contracts by default')
+  .addOptionalParam('timelock', 'TimelockController owning the contracts, executing the calls scheduled by the Safe')
+  .addOptionalParam('delay', 'Timelock delay in seconds, its minimum delay by default', undefined, types.bigint)
+  .addOptionalParam('salt', 'Timelock operation salt', ZeroHash)
+  .addOptionalParam('name', 'Name of the batch in the Safe')
+  .addOptionalParam('out', 'File to write the batch to, printed when not given')
+  .addOptionalParam('sfc', 'SFC address, the address book one by default')
+  .addOptionalParam('nodeDriverAuth', 'NodeDriverAuth address, the address book one by default')
+  .addOptionalParam('registry', 'SubsidiesRegistry address, the address book one by default')
+  .setAction(async (args: ProposeArgs, hre): Promise<Proposal> => {
+    const proposal = await buildProposal(hre, await parseCalls(hre, args), args);
+    writeProposal(proposal, args.out);
+    return proposal;
+  });
+
+/** Deploy a ConstantsManager with the current constants changed to the targets, owned by the owner. */
+async function migrateConstants(
+  hre: HardhatRuntimeEnvironment,
+  signer: Signer,
+  owner: string,
+  current: NetworkConstants,
+  targets: NetworkConstants,
+): Promise<string> {
+  const migrated = await (
+    await hre.ethers.getContractFactory('ConstantsManager', signer)
+  ).deploy(await signer.getAddress());
+  await migrated.waitForDeployment();
+  const address = await migrated.getAddress();
+  console.log(`ConstantsManager deployed at ${address}`);
+  for (const call of migrationCalls(current, targets)) {
+    await sendTx(migrated.interface, `Setting ${call.method}(${call.args.join(',')})`, () =>
+      migrated.getFunction(call.method).send(...call.args),
+    );
+  }
+  // the ownership mirrors the current ConstantsManager, as ConstantsMigrator does
+  await sendTx(migrated.interface, `Transferring ownership to ${owner}`, () => migrated.transferOwnership(owner));
+  return address;
+}
+
+task('gov:constants', 'Plan ConstantsManager changes from a config of target values and propose them')
+  .addParam('targets', 'JSON file of the target constants, e.g. {"minSelfStake": "500000", "burntFeeShare": "0.2"}')
+  .addFlag('migrate', 'Deploy a new ConstantsManager with the targets and propose switching the SFC to it')
+  .addFlag('dryRun', 'Only validate the targets and print the diff')
+  .addOptionalParam('safe', 'Safe proposing the calls, the owner of the called contracts by default')
+  .addOptionalParam('timelock', 'TimelockController owning the contracts, executing the calls scheduled by the Safe')
+  .addOptionalParam('delay', 'Timelock delay in seconds, its minimum delay by default', undefined, types.bigint)
+  .addOptionalParam('out', 'File to write the batch to, printed when not given')
+  .addOptionalParam('sfc', 'SFC address, the address book one by default')
+  .setAction(async (args: ConstantsArgs, hre): Promise<ConstantsPlanReport> => {
+    const { ethers } = hre;
+    let targets: NetworkConstants;
+    try {
+      targets = parseConstantsConfig(JSON.parse(fs.readFileSync(args.targets, 'utf8')));
+    } catch (err) {
+      throw new HardhatPluginError('pano-sfc', `Invalid constants config ${args.targets}: ${(err as Error).message}`);
+    }
+    const sfc = await ethers.getContractAt('SFC', await sfcAddress(hre, args.sfc));
+    const constants = await ethers.getContractAt('ConstantsManager', await sfc.constsAddress());
+    const current = await readConstants(constants);
+    const violations = validateConstants(targets, current);
+    if (violations.length > 0) {
+      throw new HardhatPluginError(
+        'pano-sfc',
+        `Constants rejected by ConstantsManager:\n${violations.map(v => ` - ${v.error}: ${v.message}`).join('\n')}`,
+      );
+    }
+    const plan = planConstants(current, targets);
+    const format = (name: string, value?: bigint | string) =>
+      value === undefined ? undefined : formatArgument(CONSTANTS.find(c => c.name === name)!.setter, 'uint256', value);
+    console.log(
+      formatTable(
+        ['Constant', 'Current', 'Target'],
+        plan.changes.map(change => [
+          change.name,
+          format(change.name, change.before),
+          format(change.name, change.after),
+        ]),
+      ),
+    );
+    const report: ConstantsPlanReport = { plan };
+    if (args.dryRun || (plan.changes.length === 0 && !args.migrate)) {
+      console.log(plan.changes.length === 0 ? 'The constants match the config' : 'Dry run, nothing is proposed');
+      return report;
+    }
+
+    if (!args.migrate) {
+      report.proposal = await hre.run('gov:propose', {
+        calls: plan.calls.map(call => `constants.${call.method}(${call.args.join(',')})`),
+        safe: args.safe,
+        timelock: args.timelock,
+        delay: args.delay,
+        out: args.out,
+        sfc: await sfc.getAddress(),
+      });
+      return report;
+    }
+
+    const [signer] = await ethers.getSigners();
+    console.log('Using signer:', signer.address);
+    // the ConstantsManager is deployed by the next transaction of the signer: the proposal switching to it is checked
+    // and simulated with the migration done on the fork first, nothing is sent before
+    const migratedTo = getCreateAddress({ from: signer.address, nonce: await signer.getNonce() });
+    const owner = await constants.owner();
+    const proposeArgs: ProposeArgs = {
+      calls: [`sfc.updateConstsAddress(${migratedTo})`],
+      safe: args.safe,
+      timelock: args.timelock,
+      delay: args.delay,
+      salt: ZeroHash,
+      sfc: await sfc.getAddress(),
+    };
+    const proposal = await buildProposal(hre, await parseCalls(hre, proposeArgs), proposeArgs, async provider => {
+      console.log('Simulating the migration on a fork...');
+      const simulated = await migrateConstants(
+        hre,
+        await impersonate(provider, signer.address),
+        owner,
+        current,
+        targets,
+      );
+      if (simulated !== migratedTo) {
+        throw new HardhatPluginError('pano-sfc', `ConstantsManager deployed at ${simulated}, expected ${migratedTo}`);
+      }
+    });
+
+    if ((await migrateConstants(hre, signer, owner, current, targets)) !== migratedTo) {
+      throw new HardhatPluginError(
+        'pano-sfc',
+        `ConstantsManager deployed at another address than ${migratedTo}, was a transaction sent by the signer ` +
+          'meanwhile? The proposal is not written',
+      );
+    }
+    report.migratedTo = migratedTo;
+    writeProposal(proposal, args.out);
+    report.proposal = proposal;
+    return report;
+  });
+
+// rules of a rules JSON or of a genesis JSON
+function readRules(file: string): RulesDiff {
+  let json: { rules?: RulesDiff } & RulesDiff;
+  try {
+    json = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (err) {
+    throw new HardhatPluginError('pano-sfc', `Invalid rules file ${file}: ${(err as Error).message}`);
+  }
+  return json.rules ?? json;
+}
+
+task('gov:network-rules', 'Propose the minimal NodeDriverAuth.updateNetworkRules diff to the desired network rules')
+  .addParam('rules', 'JSON of the desired rules, complete or only the rules to change', undefined, types.inputFile)
+  .addParam('current', 'Rules or genesis JSON the network started from', undefined, types.inputFile)
+  .addOptionalParam('fromBlock', 'First block of the UpdateNetworkRules events applied to --current', 0, types.int)
+  .addOptionalParam('nodeDriver', 'NodeDriver address, the address book one by default')
+  .addFlag('dryRun', 'Only validate the rules and print the diff')
+  .addOptionalParam('safe', 'Safe proposing the calls, the owner of the called contracts by default')
+  .addOptionalParam('timelock', 'TimelockController owning the contracts, executing the calls scheduled by the Safe')
+  .addOptionalParam('delay', 'Timelock delay in seconds, its minimum delay by default', undefined, types.bigint)
+  .addOptionalParam('out', 'File to write the batch to, printed when not given')
+  .addOptionalParam('sfc', 'SFC address, the address book one by default')
+  .addOptionalParam('nodeDriverAuth', 'NodeDriverAuth address, the address book one by default')
+  .setAction(async (args: NetworkRulesArgs, hre): Promise<NetworkRulesReport> => {
+    let current = readRules(args.current) as unknown as NetworkRules;
+    const errors = validateRules(current);
+    if (errors.length > 0) {
+      throw new HardhatPluginError('pano-sfc', `Invalid current rules ${args.current}: ${errors.join(', ')}`);
+    }
+    // the diffs applied since, invalid ones are ignored by the client as well
+    const nodeDriver = await bookAddress(hre, 'nodeDriver', args.nodeDriver);
+    for (const update of await networkRulesUpdates(hre.ethers.provider, nodeDriver, args.fromBlock)) {
+      if (update.error) {
+        console.log(`Skipping the rules update of tx ${update.transactionHash}: ${update.error}`);
+        continue;
+      }
+      current = mergeRules(current, update.diff!);
+    }
+
+    const desiredRules = readRules(args.rules);
+    const desiredErrors = validateRules(desiredRules, true);
+    if (desiredErrors.length > 0) {
+      throw new HardhatPluginError('pano-sfc', `Invalid rules ${args.rules}: ${desiredErrors.join(', ')}`);
+    }
+    const desired = mergeRules(current, desiredRules);
+    const diff = diffRules(current, desired);
+    const report: NetworkRulesReport = { current, desired, diff };
+    if (!diff) {
+      console.log('The network rules match the desired ones');
+      return report;
+    }
+    const immutable = diffPaths(diff).filter(path => IMMUTABLE_RULES.includes(path));
+    if (immutable.length > 0) {
+      throw new HardhatPluginError('pano-sfc', `${immutable.join(', ')} of a running network can not be changed`);
+    }
+    const value = (rules: object, path: string) =>
+      JSON.stringify(path.split('.').reduce((node: unknown, key) => (node as RulesDiff)[key], rules));
+    console.log(
+      formatTable(
+        ['Rule', 'Current', 'Desired'],
+        diffPaths(diff).map(path => [path, value(current, path), value(desired, path)]),
+      ),
+    );
+    console.log(`Diff: ${JSON.stringify(diff)}`);
+    if (args.dryRun) {
+      return report;
+    }
+    report.proposal = await hre.run('gov:propose', {
+      calls: [`nodeDriverAuth.updateNetworkRules(${encodeRulesDiff(diff)})`],
+      name: `Update network rules ${diffPaths(diff).join(', ')}`,
+      safe: args.safe,
+      timelock: args.timelock,
+      delay: args.delay,
+      out: args.out,
+      sfc: args.sfc,
+      nodeDriverAuth: args.nodeDriverAuth,
+    });
+    return report;
+  });
+
+// refund ratio given as a decimal between 0 and 1, e.g. "0.5"
+function parseRefundRatio(text: string): bigint {
+  if (!/^\d+(\.\d+)?$/.test(text.trim()) || parseEther(text.trim()) > parseEther('1')) {
+    throw new HardhatPluginError('pano-sfc', `Invalid refund ratio ${text}, expected a decimal between 0 and 1`);
+  }
+  return parseEther(text.trim());
+}
+
+task('gov:slashing-refund', 'Analyze the penalties of a slashed validator under refund ratios and propose one')
+  .addParam('validator', 'Slashed validator ID', undefined, types.bigint)
+  .addOptionalParam('ratios', 'Candidate refund ratios, comma separated decimals', '0,0.25,0.5,0.75,1')
+  .addOptionalParam('ratio', 'Refund ratio to propose, only the analysis is printed when not given')
+  .addOptionalParam('fromBlock', 'First block of the Delegated and Undelegated events', 0, types.int)
+  .addOptionalParam('report', 'File to write the analysis to as JSON')
+  .addOptionalParam('safe', 'Safe proposing the calls, the owner of the SFC by default')
+  .addOptionalParam('timelock', 'TimelockController owning the SFC, executing the calls scheduled by the Safe')
+  .addOptionalParam('delay', 'Timelock delay in seconds, its minimum delay by default', undefined, types.bigint)
+  .addOptionalParam('out', 'File to write the batch to, printed when not given')
+  .addOptionalParam('sfc', 'SFC address, the address book one by default')
+  .setAction(async (args: SlashingRefundArgs, hre): Promise<SlashingRefundReport> => {
+    const sfc = await hre.ethers.getContractAt('SFC', await sfcAddress(hre, args.sfc));
+    const ratios = args.ratios.split(',').map(parseRefundRatio);
+    const proposed = args.ratio === undefined ? undefined : parseRefundRatio(args.ratio);
+    if (proposed !== undefined && !ratios.includes(proposed)) {
+      ratios.push(proposed);
+    }
+    ratios.sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+
+    const validator = await slashedValidator(sfc, args.validator, args.fromBlock);
+    if (!validator.slashed) {
+      throw new HardhatPluginError(
+        'pano-sfc',
+        `ValidatorNotSlashed: validator ${args.validator} has status ${validator.status}, not DOUBLESIGN_BIT`,
+      );
+    }
+    const impacts = ratios.map(ratio => refundRatioImpact(validator.exposures, ratio));
+    const percent = (ratio: bigint) => formatArgument('updateSlashingRefundRatio', 'uint256', ratio);
+    console.log(
+      `Validator ${validator.validatorID} deactivated in epoch ${validator.deactivatedEpoch}, ` +
+        `current refund ratio ${percent(validator.refundRatio)}, ${validator.exposures.length} delegators`,
+    );
+    console.log(
+      formatTable(
+        ['Delegator', 'Stake', 'Withdrawal requests', ...ratios.map(ratio => `Penalty at ${percent(ratio)}`)],
+        validator.exposures.map((exposure, i) => [
+          exposure.delegator,
+          formatEther(exposure.stake),
+          exposure.withdrawalRequests.map(r => `#${r.wrID}: ${formatEther(r.amount)}`).join(' '),
+          ...impacts.map(impact => formatEther(impact.delegators[i].penalty)),
+        ]),
+      ),
+    );
+    console.log(
+      formatTable(
+        ['Refund ratio', 'Slashed amount', 'Burnt', 'Refunded', 'Fully slashed delegators'],
+        impacts.map(impact => [
+          percent(impact.refundRatio),
+          formatEther(impact.amount),
+          formatEther(impact.penalty),
+          formatEther(impact.refund),
+          impact.fullySlashed,
+        ]),
+      ),
+    );
+    const report: SlashingRefundReport = { validator, impacts };
+    if (args.report) {
+      fs.writeFileSync(args.report, toJson({ validator, impacts }) + '\n');
+      console.log(`Analysis written to ${args.report}`);
+    }
+    if (proposed === undefined) {
+      return report;
+    }
+    report.proposal = await hre.run('gov:propose', {
+      calls: [`sfc.updateSlashingRefundRatio(${args.validator},${proposed})`],
+      name: `Slashing refund ratio of validator ${args.validator}`,
+      safe: args.safe,
+      timelock: args.timelock,
+      delay: args.delay,
+      out: args.out,
+      sfc: await sfc.getAddress(),
+    });
+    return report;
+  });
@@ -0,0 +1,90 @@
+import { task, types } from 'hardhat/config';
+import { getAddressBook } from '../lib/AddressBook';
+import { Indexer } from '../lib/Indexer';
+import { formatTable } from '../lib/Table';
+import { bookAddress, sfcAddress, subsidiesRegistryAddress } from './utils';
+
+// Index the SFC, NodeDriver and SubsidiesRegistry events into a SQLite database, resuming from its checkpoint:
+// npx hardhat indexer:sync --db sfc.sqlite [--start-block 0] [--confirmations 0] --network pano
+// Stakes and open withdrawal requests of a delegator from the database:
+// npx hardhat indexer:delegator --db sfc.sqlite --delegator 0x... --network pano
+
+interface SyncArgs {
+  db: string;
+  startBlock: number;
+  toBlock?: number;
+  batchSize: number;
+  confirmations: number;
+  sfc?: string;
+  nodeDriver?: string;
+  registry?: string;
+}
+
+task('indexer:sync', 'Index SFC, NodeDriver and SubsidiesRegistry events into a SQLite database')
+  .addParam('db', 'SQLite database file, created when missing', undefined, types.string)
+  .addOptionalParam('startBlock', 'First block to index when the database is new', 0, types.int)
+  .addOptionalParam('toBlock', 'Last block to index, the head by default', undefined, types.int)
+  .addOptionalParam('batchSize', 'Blocks per eth_getLogs request', 2000, types.int)
+  .addOptionalParam('confirmations', 'Blocks behind the head left unindexed', 0, types.int)
+  .addOptionalParam('sfc', 'SFC address, from the address book by default', undefined, types.string)
+  .addOptionalParam('nodeDriver', 'NodeDriver address, from the address book by default', undefined, types.string)
+  .addOptionalParam('registry', 'SubsidiesRegistry address, from the address book by default', undefined, types.string)
+  .setAction(async (args: SyncArgs, hre): Promise<number> => {
+    const indexer = await Indexer.open(
+      hre.ethers.provider,
+      {
+        sfc: await sfcAddress(hre, args.sfc),
+        nodeDriver: await bookAddress(hre, 'nodeDriver', args.nodeDriver),
+        subsidiesRegistry: await subsidiesRegistryAddress(hre, args.registry),
+      },
+      { path: args.db, startBlock: args.startBlock, batchSize: args.batchSize, confirmations: args.confirmations },
+    );
+    try {
+      const checkpoint = indexer.checkpoint();
+      console.log(checkpoint === undefined ? `New database ${args.db}` : `Resuming after block ${checkpoint}`);
+      const indexed = await indexer.sync(args.toBlock, (from, to, events) =>
+        console.log(` - blocks ${from}-${to}: ${events} events`),
+      );
+      console.log(
+        `Indexed ${indexed} events up to block ${indexer.checkpoint()}: ${indexer.validators().length} validators, ` +
+          `${indexer.stakes().length} stakes, ${indexer.withdrawalRequests().length} open withdrawal requests`,
+      );
+      return indexed;
+    } finally {
+      indexer.close();
+    }
+  });
+
+task('indexer:delegator', 'Print stakes and open withdrawal requests of a delegator from the indexer database')
+  .addParam('db', 'SQLite database file', undefined, types.inputFile)
+  .addParam('delegator', 'Delegator address', undefined, types.string)
+  .setAction(async (args: { db: string; delegator: string }, hre) => {
+    // only the database is read, the addresses are not queried
+    const book = getAddressBook(hre.network.name);
+    const indexer = await Indexer.open(
+      hre.ethers.provider,
+      { sfc: book.sfc.address, nodeDriver: book.nodeDriver.address },
+      { path: args.db },
+    );
+    try {
+      const { formatEther } = hre.ethers;
+      console.log(`Indexed up to block ${indexer.checkpoint()}\n`);
+      console.log(
+        formatTable(
+          ['Validator', 'Stake'],
+          indexer.stakes(args.delegator).map(s => [s.validatorID, formatEther(s.amount)]),
+        ),
+      );
+      console.log(
+        '\n' +
+          formatTable(
+            ['Validator', 'wrID', 'Amount', 'Block', 'Tx'],
+            indexer
+              .withdrawalRequests(args.delegator)
+              .map(r => [r.validatorID, r.wrID, formatEther(r.amount), r.blockNumber, r.txHash]),
+          ),
+      );
+    } finally {
+      indexer.close();
+    }
+  });
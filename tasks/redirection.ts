@@ -0,0 +1,240 @@
+import { task, types } from 'hardhat/config';
+import { HardhatPluginError } from 'hardhat/plugins';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { ContractTransactionReceipt, formatEther, getAddress } from 'ethers';
+import * as fs from 'fs';
+import type { SFC } from '../typechain-types';
+import { delegatorPortfolio, undelegatedRequestIDs } from '../lib/Portfolio';
+import {
+  RedirectionError,
+  RedirectionState,
+  acceptRedirectionError,
+  announcedRedirections,
+  initiateRedirectionError,
+  redirectionState,
+} from '../lib/Redirection';
+import { SafeBatch, buildSafeBatch } from '../lib/SafeBatch';
+import { describeContractError } from '../lib/SfcErrors';
+import { formatTable, toJson } from '../lib/Table';
+import { sendTx, sfcAddress } from './utils';
+
+// Redirection of the withdrawals and claims of a compromised account, see lib/Redirection.ts:
+// npx hardhat redirection:status [--account 0x...] [--from-block 0] [--follow] --network pano
+// npx hardhat redirection:initiate --from 0x... --to 0x... [--dry-run] [--out batch.json] --network pano
+// npx hardhat redirection:accept --to 0x... [--account 0x...] [--dry-run] [--out batch.json] --network pano
+// The transactions are sent when the signer is the sender (the authorizer, the redirected account), otherwise they
+// are written as a Safe transaction batch of the sender.
+
+interface StatusArgs {
+  account?: string;
+  fromBlock: number;
+  follow: boolean;
+  interval: number;
+  sfc?: string;
+}
+
+interface RedirectionArgs {
+  to: string;
+  dryRun: boolean;
+  out?: string;
+  sfc?: string;
+}
+
+// redirection with the funds of the account it affects
+interface RedirectionReport extends RedirectionState {
+  stake: bigint;
+  pendingRewards: bigint;
+  // open withdrawal requests, paid out to the receiver once redirected
+  withdrawals: bigint;
+}
+
+async function redirectionReport(
+  hre: HardhatRuntimeEnvironment,
+  sfc: SFC,
+  state: RedirectionState,
+  fromBlock: number,
+): Promise<RedirectionReport> {
+  const constants = await hre.ethers.getContractAt('ConstantsManager', await sfc.constsAddress());
+  const requestIDs = await undelegatedRequestIDs(sfc, state.from, fromBlock);
+  const portfolio = await delegatorPortfolio(sfc, constants, state.from, requestIDs);
+  const sum = (values: bigint[]) => values.reduce((total, value) => total + value, 0n);
+  return {
+    ...state,
+    stake: sum(portfolio.delegations.map(d => d.stake)),
+    pendingRewards: sum(portfolio.delegations.map(d => d.pendingRewards)),
+    withdrawals: sum(portfolio.withdrawalRequests.map(r => r.amount)),
+  };
+}
+
+function printReports(reports: RedirectionReport[]) {
+  console.log(
+    formatTable(
+      ['Account', 'Announced to', 'Initiated to', 'Redirected to', 'Status', 'Stake', 'Pending rewards', 'Withdrawals'],
+      reports.map(r => [
+        r.from,
+        [...new Set(r.announcements.map(a => a.to))].join(' '),
+        r.request,
+        r.redirection,
+        r.status,
+        formatEther(r.stake),
+        formatEther(r.pendingRewards),
+        formatEther(r.withdrawals),
+      ]),
+    ),
+  );
+}
+
+/** Send the call as the signer when it is the sender, or write it as a Safe batch of the sender. */
+async function sendOrPropose(
+  hre: HardhatRuntimeEnvironment,
+  sfc: SFC,
+  sender: string,
+  method: 'initiateRedirection' | 'redirect',
+  args: string[],
+  out?: string,
+): Promise<ContractTransactionReceipt | SafeBatch> {
+  const [signer] = await hre.ethers.getSigners();
+  const description = `${method}(${args.join(', ')})`;
+  if (signer.address === sender) {
+    return sendTx(sfc.interface, `Sending ${description}`, () =>
+      sfc
+        .connect(signer)
+        .getFunction(method)
+        .send(...args),
+    );
+  }
+  if (!out) {
+    throw new HardhatPluginError('pano-sfc', `The signer is not ${sender}, pass --out to write a Safe batch of it`);
+  }
+  const { chainId } = await hre.ethers.provider.getNetwork();
+  const batch = buildSafeBatch(chainId, sender, `Redirection ${description}`, [
+    { contract: 'SFC', to: await sfc.getAddress(), iface: sfc.interface, method, args },
+  ]);
+  fs.writeFileSync(out, toJson(batch) + '\n');
+  console.log(`Safe transaction batch of ${sender} written to ${out}`);
+  return batch;
+}
+
+// fail with the check result, or with the revert of the simulation from the sender, called through the provider as
+// the sender is not necessarily the signer
+async function checkRedirection(
+  sfc: SFC,
+  sender: string,
+  error: RedirectionError | undefined,
+  simulate: () => Promise<unknown>,
+) {
+  if (error) {
+    throw new HardhatPluginError('pano-sfc', `${error.error}: ${error.message}`);
+  }
+  try {
+    await simulate();
+  } catch (err) {
+    throw new HardhatPluginError(
+      'pano-sfc',
+      `Simulation as ${sender} failed: ${describeContractError(err, sfc.interface)}`,
+    );
+  }
+}
+
+task('redirection:status', 'Show announced, initiated and active redirections with the funds they affect')
+  .addOptionalParam('account', 'Account to show, all accounts which announced a redirection by default')
+  .addOptionalParam('fromBlock', 'First block of the AnnouncedRedirection events', 0, types.int)
+  .addFlag('follow', 'Keep watching for new announcements')
+  .addOptionalParam('interval', 'Seconds between the checks for new announcements', 15, types.int)
+  .addOptionalParam('sfc', 'SFC address, from the address book by default', undefined, types.string)
+  .setAction(async (args: StatusArgs, hre): Promise<RedirectionReport[]> => {
+    const sfc = await hre.ethers.getContractAt('SFC', await sfcAddress(hre, args.sfc));
+    console.log('Redirection authorizer:', await sfc.redirectionAuthorizer());
+    let toBlock = await hre.ethers.provider.getBlockNumber();
+    let states = await announcedRedirections(sfc, args.fromBlock, toBlock, args.account);
+    if (args.account && states.length === 0) {
+      // initiated without an announcement
+      states = [await redirectionState(sfc, args.account, [], toBlock)];
+    }
+    const reports = [];
+    for (const state of states) {
+      reports.push(await redirectionReport(hre, sfc, state, args.fromBlock));
+    }
+    printReports(reports);
+
+    while (args.follow) {
+      await new Promise(resolve => setTimeout(resolve, args.interval * 1000));
+      const latest = await hre.ethers.provider.getBlockNumber();
+      if (latest === toBlock) {
+        continue;
+      }
+      for (const state of await announcedRedirections(sfc, toBlock + 1, latest, args.account)) {
+        for (const announcement of state.announcements) {
+          console.log(
+            `Block ${announcement.blockNumber}: ${state.from} announced a redirection to ${announcement.to} ` +
+              `(tx ${announcement.transactionHash})`,
+          );
+        }
+        printReports([await redirectionReport(hre, sfc, state, args.fromBlock)]);
+      }
+      toBlock = latest;
+    }
+    return reports;
+  });
+
+task('redirection:initiate', 'Initiate an announced redirection as the redirection authorizer')
+  .addParam('from', 'Compromised account', undefined, types.string)
+  .addParam('to', 'Receiver of its withdrawals and claims', undefined, types.string)
+  .addFlag('force', 'Initiate a redirection the account did not announce')
+  .addOptionalParam('fromBlock', 'First block of the AnnouncedRedirection events', 0, types.int)
+  .addFlag('dryRun', 'Only run the checks')
+  .addOptionalParam('out', 'File to write the Safe batch of the authorizer to when it is not the signer')
+  .addOptionalParam('sfc', 'SFC address, from the address book by default', undefined, types.string)
+  .setAction(
+    async (
+      args: RedirectionArgs & { from: string; force: boolean; fromBlock: number },
+      hre,
+    ): Promise<ContractTransactionReceipt | SafeBatch | undefined> => {
+      const sfc = await hre.ethers.getContractAt('SFC', await sfcAddress(hre, args.sfc));
+      const [from, to] = [getAddress(args.from), getAddress(args.to)];
+      const [state] = await announcedRedirections(sfc, args.fromBlock, undefined, from);
+      const current = state ?? (await redirectionState(sfc, from));
+      if (!current.announcements.some(announcement => announcement.to === to) && !args.force) {
+        throw new HardhatPluginError(
+          'pano-sfc',
+          `${from} did not announce a redirection to ${to}, pass --force once the request is verified otherwise`,
+        );
+      }
+      const authorizer = await sfc.redirectionAuthorizer();
+      await checkRedirection(sfc, authorizer, initiateRedirectionError(current, to, authorizer), () =>
+        sfc.connect(hre.ethers.provider).initiateRedirection.staticCall(from, to, { from: authorizer }),
+      );
+      printReports([await redirectionReport(hre, sfc, current, args.fromBlock)]);
+      if (args.dryRun) {
+        console.log('Dry run, the redirection is not initiated');
+        return undefined;
+      }
+      return sendOrPropose(hre, sfc, authorizer, 'initiateRedirection', [from, to], args.out);
+    },
+  );
+
+task('redirection:accept', 'Accept the initiated redirection as the redirected account')
+  .addParam('to', 'Receiver the redirection was initiated to', undefined, types.string)
+  .addOptionalParam('account', 'Redirected account, the signer by default')
+  .addFlag('dryRun', 'Only run the checks')
+  .addOptionalParam('out', 'File to write the Safe batch of the account to when it is not the signer')
+  .addOptionalParam('sfc', 'SFC address, from the address book by default', undefined, types.string)
+  .setAction(
+    async (
+      args: RedirectionArgs & { account?: string },
+      hre,
+    ): Promise<ContractTransactionReceipt | SafeBatch | undefined> => {
+      const sfc = await hre.ethers.getContractAt('SFC', await sfcAddress(hre, args.sfc));
+      const account = getAddress(args.account ?? (await hre.ethers.getSigners())[0].address);
+      const to = getAddress(args.to);
+      const state = await redirectionState(sfc, account);
+      await checkRedirection(sfc, account, acceptRedirectionError(state, to), () =>
+        sfc.connect(hre.ethers.provider).redirect.staticCall(to, { from: account }),
+      );
+      if (args.dryRun) {
+        console.log(`Dry run, the redirection of ${account} to ${to} can be accepted`);
+        return undefined;
+      }
+      return sendOrPropose(hre, sfc, account, 'redirect', [to], args.out);
+    },
+  );
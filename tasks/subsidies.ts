@@ -0,0 +1,368 @@
+import { task, types } from 'hardhat/config';
+import { HardhatPluginError } from 'hardhat/plugins';
+import { ConfigurableTaskDefinition, HardhatRuntimeEnvironment } from 'hardhat/types';
+import { ContractTransactionReceipt } from 'ethers';
+import {
+  FUND_TYPES,
+  Fund,
+  FundCandidate,
+  FundSpec,
+  FundType,
+  SponsoredTx,
+  deriveFund,
+  explainChooseFund,
+} from '../lib/Subsidies';
+import { formatTable } from '../lib/Table';
+import { sendTx, subsidiesRegistryAddress } from './utils';
+
+// Gas subsidies sponsorships, the fund is given by its type and inputs or directly by --fund-id, e.g.:
+// npx hardhat subsidies:info --type contract --to 0x... --network pano
+// npx hardhat subsidies:sponsor --type operation --to 0x... --function "transfer(address,uint256)" --amount 100
+// npx hardhat subsidies:withdraw --type approval --to 0xToken --spender 0x... [--amount 10]
+// (requires .env with appropriate PRIVATE_KEY)
+//
+// Explain why a tx is (not) sponsored, for a historical tx (evaluated at its parent block with the base fee of its own
+// block) or given fields:
+// npx hardhat subsidies:explain --tx 0x... --network pano
+// npx hardhat subsidies:explain --from 0x... --to 0x... --data 0x... [--nonce 0] [--fee 0.01] --network pano
+
+interface FundArgs {
+  type?: FundType;
+  from?: string;
+  to?: string;
+  function?: string;
+  spender?: string;
+  fundId?: string;
+  registry?: string;
+}
+
+interface FundInfo extends Fund {
+  sponsor: string;
+  available: bigint;
+  totalContributions: bigint;
+  sponsorContribution: bigint;
+  availableToWithdraw: bigint;
+}
+
+interface ExplainArgs {
+  tx?: string;
+  from?: string;
+  to?: string;
+  value?: string;
+  nonce?: bigint;
+  data?: string;
+  fee?: string;
+  registry?: string;
+}
+
+interface GasCheck {
+  call: string;
+  estimate?: bigint;
+  limit: bigint;
+}
+
+interface Explanation {
+  tx: SponsoredTx;
+  fee: bigint;
+  blockTag: number | string;
+  candidates: FundCandidate[];
+  // fund returned by chooseFund, zero when not sponsored
+  chosen: string;
+  gas: GasCheck[];
+}
+
+function fundParams(definition: ConfigurableTaskDefinition): ConfigurableTaskDefinition {
+  return definition
+    .addOptionalParam('type', `Sponsorship type: ${FUND_TYPES.join(', ')}`, undefined, types.string)
+    .addOptionalParam('from', 'Sender of the sponsored txs (account, account-operation)', undefined, types.string)
+    .addOptionalParam('to', 'Called contract, or the ERC20 token of approvals', undefined, types.string)
+    .addOptionalParam(
+      'function',
+      'Function signature or selector (operation, account-operation)',
+      undefined,
+      types.string,
+    )
+    .addOptionalParam('spender', 'Spender of sponsored ERC20 approvals (approval)', undefined, types.string)
+    .addOptionalParam('fundId', 'Fund ID, instead of the type and its inputs', undefined, types.string)
+    .addOptionalParam(
+      'registry',
+      'SubsidiesRegistry address, from the address book by default',
+      undefined,
+      types.string,
+    );
+}
+
+async function resolveFund(hre: HardhatRuntimeEnvironment, args: FundArgs) {
+  const fail = (message: string): never => {
+    throw new HardhatPluginError('pano-sfc', message);
+  };
+  const [signer] = await hre.ethers.getSigners();
+  const registry = await hre.ethers.getContractAt(
+    'SubsidiesRegistry',
+    await subsidiesRegistryAddress(hre, args.registry),
+    signer,
+  );
+
+  let fund: Fund | undefined;
+  if (args.fundId !== undefined) {
+    if (args.type !== undefined) {
+      fail('Give either --fund-id or --type, not both');
+    }
+    if (!hre.ethers.isHexString(args.fundId, 32) || BigInt(args.fundId) === 0n) {
+      fail(`Invalid fund ID ${args.fundId}`);
+    }
+    fund = { fundId: args.fundId, description: 'fund given by its ID' };
+  } else {
+    if (args.type === undefined) {
+      fail(`Give --fund-id or --type (${FUND_TYPES.join(', ')})`);
+    }
+    for (const name of ['from', 'to', 'spender'] as const) {
+      if (args[name] !== undefined && !hre.ethers.isAddress(args[name])) {
+        fail(`Invalid --${name} address ${args[name]}`);
+      }
+    }
+    try {
+      fund = deriveFund(args as FundSpec);
+    } catch (err) {
+      fail((err as Error).message);
+    }
+  }
+  return { signer, registry, fund: fund! };
+}
+
+async function fundInfo(hre: HardhatRuntimeEnvironment, args: FundArgs & { sponsor?: string }): Promise<FundInfo> {
+  const { signer, registry, fund } = await resolveFund(hre, args);
+  const sponsor = args.sponsor ?? signer.address;
+  const info: FundInfo = {
+    ...fund,
+    sponsor,
+    available: await registry.getAvailableFunds(fund.fundId),
+    totalContributions: await registry.getTotalContributions(fund.fundId),
+    sponsorContribution: await registry.getSponsorContribution(fund.fundId, sponsor),
+    availableToWithdraw: await registry.availableToWithdraw(fund.fundId, sponsor),
+  };
+  const { formatEther } = hre.ethers;
+  console.log(
+    formatTable(
+      ['Fund', 'Value'],
+      [
+        ['fundId', info.fundId],
+        ['covers', info.description],
+        ['available', formatEther(info.available)],
+        ['totalContributions', formatEther(info.totalContributions)],
+        [`contribution of ${sponsor}`, formatEther(info.sponsorContribution)],
+        [`availableToWithdraw by ${sponsor}`, formatEther(info.availableToWithdraw)],
+      ],
+    ),
+  );
+  return info;
+}
+
+fundParams(task('subsidies:info', 'Show the fund ID and balances of a gas subsidies fund'))
+  .addOptionalParam('sponsor', 'Sponsor to show the contribution of, the signer by default', undefined, types.string)
+  .setAction(async (args: FundArgs & { sponsor?: string }, hre): Promise<FundInfo> => fundInfo(hre, args));
+
+fundParams(task('subsidies:sponsor', 'Add native tokens to a gas subsidies fund'))
+  .addParam('amount', 'Amount of tokens to sponsor', undefined, types.string)
+  .setAction(async (args: FundArgs & { amount: string }, hre): Promise<ContractTransactionReceipt> => {
+    const { signer, registry, fund } = await resolveFund(hre, args);
+    console.log('Using signer:', signer.address);
+    const amount = hre.ethers.parseEther(args.amount);
+    const receipt = await sendTx(
+      registry.interface,
+      `Sponsoring ${args.amount} tokens to fund ${fund.fundId} (${fund.description})`,
+      () => registry.sponsor(fund.fundId, { value: amount }),
+    );
+    await fundInfo(hre, args);
+    return receipt;
+  });
+
+fundParams(task('subsidies:withdraw', 'Withdraw the share of the signer from a gas subsidies fund'))
+  .addOptionalParam('amount', 'Amount of tokens to withdraw, everything available by default', undefined, types.string)
+  .setAction(async (args: FundArgs & { amount?: string }, hre): Promise<ContractTransactionReceipt> => {
+    const { signer, registry, fund } = await resolveFund(hre, args);
+    console.log('Using signer:', signer.address);
+    const available = await registry.availableToWithdraw(fund.fundId, signer);
+    if (available === 0n) {
+      throw new HardhatPluginError('pano-sfc', `Nothing to withdraw from fund ${fund.fundId} for ${signer.address}`);
+    }
+    const amount = args.amount !== undefined ? hre.ethers.parseEther(args.amount) : available;
+    if (amount > available) {
+      throw new HardhatPluginError(
+        'pano-sfc',
+        `Only ${hre.ethers.formatEther(available)} tokens are available to withdraw from fund ${fund.fundId}`,
+      );
+    }
+    const receipt = await sendTx(
+      registry.interface,
+      `Withdrawing ${hre.ethers.formatEther(amount)} tokens from fund ${fund.fundId} (${fund.description})`,
+      () => registry.withdraw(fund.fundId, amount),
+    );
+    await fundInfo(hre, args);
+    return receipt;
+  });
+
+task('subsidies:explain', 'Explain which gas subsidies fund chooseFund picks for a tx and why the others are rejected')
+  .addOptionalParam('tx', 'Hash of a historical tx, instead of the tx fields', undefined, types.string)
+  .addOptionalParam('from', 'Sender', undefined, types.string)
+  .addOptionalParam('to', 'Recipient, contract creation when omitted', undefined, types.string)
+  .addOptionalParam('value', 'Value in tokens', undefined, types.string)
+  .addOptionalParam('nonce', 'Nonce, the next nonce of the sender by default', undefined, types.bigint)
+  .addOptionalParam('data', 'Calldata', undefined, types.string)
+  .addOptionalParam(
+    'fee',
+    'Fee in tokens to be covered, by default (gas limit + overhead charge) x base fee',
+    undefined,
+    types.string,
+  )
+  .addOptionalParam('registry', 'SubsidiesRegistry address, from the address book by default', undefined, types.string)
+  .setAction(async (args: ExplainArgs, hre): Promise<Explanation> => {
+    const { ethers } = hre;
+    const fail = (message: string): never => {
+      throw new HardhatPluginError('pano-sfc', message);
+    };
+    const registry = await ethers.getContractAt(
+      'SubsidiesRegistry',
+      await subsidiesRegistryAddress(hre, args.registry),
+    );
+
+    let tx: SponsoredTx;
+    let gasLimit: bigint | undefined;
+    let blockTag: number | 'latest' = 'latest';
+    // block of the base fee the tx pays
+    let feeBlockTag: number | 'latest' = 'latest';
+    if (args.tx !== undefined) {
+      const historical = await ethers.provider.getTransaction(args.tx);
+      if (!historical) {
+        return fail(`Transaction ${args.tx} not found`);
+      }
+      if (historical.blockNumber === null) {
+        return fail(`Transaction ${args.tx} is pending`);
+      }
+      tx = {
+        from: historical.from,
+        to: historical.to ?? ethers.ZeroAddress,
+        value: historical.value,
+        nonce: BigInt(historical.nonce),
+        data: historical.data,
+      };
+      gasLimit = historical.gasLimit;
+      // the state chooseFund saw before the tx
+      blockTag = historical.blockNumber - 1;
+      feeBlockTag = historical.blockNumber;
+    } else {
+      if (args.from === undefined) {
+        return fail('Give --tx or the tx fields (--from, --to, --data)');
+      }
+      for (const address of [args.from, args.to]) {
+        if (address !== undefined && !ethers.isAddress(address)) {
+          fail(`Invalid address ${address}`);
+        }
+      }
+      if (args.data !== undefined && !ethers.isHexString(args.data)) {
+        fail(`Invalid calldata ${args.data}`);
+      }
+      tx = {
+        from: ethers.getAddress(args.from),
+        to: args.to !== undefined ? ethers.getAddress(args.to) : ethers.ZeroAddress,
+        value: ethers.parseEther(args.value ?? '0'),
+        nonce: args.nonce ?? BigInt(await ethers.provider.getTransactionCount(args.from)),
+        data: args.data ?? '0x',
+      };
+    }
+
+    const [chooseFundGasLimit, deductFeesGasLimit, overheadCharge] = await registry.getGasConfig({ blockTag });
+    let fee: bigint;
+    if (args.fee !== undefined) {
+      fee = ethers.parseEther(args.fee);
+    } else {
+      if (gasLimit === undefined) {
+        try {
+          gasLimit = await ethers.provider.estimateGas({
+            from: tx.from,
+            to: tx.to === ethers.ZeroAddress ? null : tx.to,
+            value: tx.value,
+            data: tx.data,
+          });
+        } catch (err) {
+          fail(`Gas of the tx cannot be estimated, give --fee: ${(err as Error).message}`);
+        }
+      }
+      const baseFee = (await ethers.provider.getBlock(feeBlockTag))?.baseFeePerGas ?? 0n;
+      fee = (gasLimit! + overheadCharge) * baseFee;
+    }
+
+    const candidates = await explainChooseFund(registry, ethers.provider, tx, fee, blockTag);
+    const chooseFundArgs: [string, string, bigint, bigint, string, bigint] = [
+      tx.from,
+      tx.to,
+      tx.value,
+      tx.nonce,
+      tx.data,
+      fee,
+    ];
+    const chosen = await registry.chooseFund(...chooseFundArgs, { blockTag });
+    const expected = candidates.find(c => c.status === 'chosen')?.fundId ?? ethers.ZeroHash;
+    if (chosen !== expected) {
+      fail(`chooseFund returned ${chosen}, but the evaluation chose ${expected}`);
+    }
+
+    // estimates of the calls made by the node, they include the intrinsic gas of a tx so they are upper bounds
+    const estimate = async (data: string): Promise<bigint | undefined> => {
+      try {
+        return await ethers.provider.estimateGas({ from: ethers.ZeroAddress, to: registry, data, blockTag });
+      } catch {
+        return undefined;
+      }
+    };
+    const gas: GasCheck[] = [
+      {
+        call: 'getGasConfig',
+        estimate: await estimate(registry.interface.encodeFunctionData('getGasConfig')),
+        limit: overheadCharge - chooseFundGasLimit - deductFeesGasLimit,
+      },
+      {
+        call: 'chooseFund',
+        estimate: await estimate(registry.interface.encodeFunctionData('chooseFund', chooseFundArgs)),
+        limit: chooseFundGasLimit,
+      },
+    ];
+    if (chosen !== ethers.ZeroHash) {
+      gas.push({
+        call: 'deductFees',
+        estimate: await estimate(registry.interface.encodeFunctionData('deductFees', [chosen, fee])),
+        limit: deductFeesGasLimit,
+      });
+    }
+
+    console.log(
+      `Tx from ${tx.from} to ${tx.to}, nonce ${tx.nonce}, fee ${ethers.formatEther(fee)} at block ${blockTag}`,
+    );
+    console.log(
+      '\n' +
+        formatTable(
+          ['#', 'Fund type', 'Fund ID', 'Available', 'Result'],
+          candidates.map((c, i) => [
+            i + 1,
+            c.type,
+            c.fundId,
+            c.available !== undefined ? ethers.formatEther(c.available) : undefined,
+            c.status === 'rejected' ? `rejected: ${c.reason}` : c.status,
+          ]),
+        ),
+    );
+    console.log(
+      '\n' +
+        formatTable(
+          ['Call', 'Estimated gas', 'Limit', 'Result'],
+          gas.map(g => [
+            g.call,
+            g.estimate ?? 'failed',
+            g.limit,
+            g.estimate === undefined ? 'FAILED' : g.estimate <= g.limit ? 'OK' : 'EXCEEDS LIMIT',
+          ]),
+        ),
+    );
+    console.log(chosen === ethers.ZeroHash ? '\nThe tx is not sponsored' : `\nThe tx is sponsored by fund ${chosen}`);
+    return { tx, fee, blockTag, candidates, chosen, gas };
+  });
@@ -0,0 +1,138 @@
+import { task, types } from 'hardhat/config';
+import { HardhatPluginError } from 'hardhat/plugins';
+import { formatEther } from 'ethers';
+import * as fs from 'fs';
+import { SupplyLedgerEntry, epochsInBlockRange, supplyLedger } from '../lib/SupplyLedger';
+import { formatTable, toCsv, toJson } from '../lib/Table';
+import { sfcAddress } from './utils';
+
+// Native token supply statement of the epochs sealed in a block range, see lib/SupplyLedger.ts. Requires an
+// archive node, the issuances are located from the supply at historical blocks:
+// npx hardhat supply:reconcile --from-block 1000000 [--to-block 1200000] [--format csv] [--out supply.csv] --network pano
+
+interface ReconcileArgs {
+  fromBlock: number;
+  toBlock?: number;
+  format: string;
+  out?: string;
+  strict: boolean;
+  sfc?: string;
+}
+
+interface SupplyStatement {
+  fromBlock: number;
+  toBlock: number;
+  ledger: SupplyLedgerEntry[];
+  // sums over the epochs, by ledger column
+  totals: Record<string, bigint>;
+  // epochs whose snapshot supply differs from the replayed one
+  gaps: bigint[];
+}
+
+const AMOUNT_COLUMNS: (keyof SupplyLedgerEntry)[] = [
+  'rewardsMinted',
+  'treasuryFeesMinted',
+  'issued',
+  'nativeTokensBurnt',
+  'extraRewardsBurnt',
+  'slashingBurnt',
+  'feesBurnt',
+];
+
+const LEDGER_COLUMNS: (keyof SupplyLedgerEntry)[] = [
+  'epoch',
+  'fromBlock',
+  'toBlock',
+  'opening',
+  ...AMOUNT_COLUMNS,
+  'expected',
+  'closing',
+  'gap',
+];
+
+task('supply:reconcile', 'Reconcile the native token supply of the epochs sealed in a block range')
+  .addOptionalParam('fromBlock', 'First block of the range', 0, types.int)
+  .addOptionalParam('toBlock', 'Last block of the range, the latest by default', undefined, types.int)
+  .addOptionalParam('format', 'Output format: table, csv or json', 'table', types.string)
+  .addOptionalParam('out', 'File to write the statement to, printed by default', undefined, types.string)
+  .addFlag('strict', 'Fail when the supply of an epoch does not reconcile')
+  .addOptionalParam('sfc', 'SFC address, from the address book by default', undefined, types.string)
+  .setAction(async (args: ReconcileArgs, hre): Promise<SupplyStatement> => {
+    if (!['table', 'csv', 'json'].includes(args.format)) {
+      throw new HardhatPluginError('pano-sfc', `Unknown format ${args.format}, expected table, csv or json`);
+    }
+    const sfc = await hre.ethers.getContractAt('SFC', await sfcAddress(hre, args.sfc));
+    const toBlock = args.toBlock ?? (await hre.ethers.provider.getBlockNumber());
+    if (args.fromBlock > toBlock) {
+      throw new HardhatPluginError('pano-sfc', `Invalid block range ${args.fromBlock}-${toBlock}`);
+    }
+    const ledger = await supplyLedger(sfc, await epochsInBlockRange(sfc, args.fromBlock, toBlock));
+    const totals: Record<string, bigint> = {};
+    for (const column of [...AMOUNT_COLUMNS, 'gap'] as const) {
+      totals[column] = ledger.reduce((total, entry) => total + (entry[column] as bigint), 0n);
+    }
+    const statement: SupplyStatement = {
+      fromBlock: args.fromBlock,
+      toBlock,
+      ledger,
+      totals,
+      gaps: ledger.filter(entry => entry.gap !== 0n).map(entry => entry.epoch),
+    };
+
+    const cell = (entry: SupplyLedgerEntry, column: keyof SupplyLedgerEntry) =>
+      typeof entry[column] === 'bigint' && column !== 'epoch' ? formatEther(entry[column] as bigint) : entry[column];
+    let output;
+    if (args.format === 'json') {
+      output = toJson(statement);
+    } else if (args.format === 'csv') {
+      // amounts in wei, for the spreadsheets
+      output = toCsv(
+        LEDGER_COLUMNS,
+        ledger.map(entry => LEDGER_COLUMNS.map(column => entry[column] as bigint | number)),
+      );
+    } else {
+      output = formatTable(
+        LEDGER_COLUMNS,
+        ledger.map(entry => LEDGER_COLUMNS.map(column => cell(entry, column) as bigint | number | string)),
+      );
+      const first = ledger[0];
+      const last = ledger[ledger.length - 1];
+      output +=
+        '\n' +
+        formatTable(
+          ['Statement', 'Tokens'],
+          [
+            ['opening supply', first ? formatEther(first.opening) : undefined],
+            ...Object.entries(totals).map(([column, total]): [string, string] => [column, formatEther(total)]),
+            ['closing supply', last ? formatEther(last.closing) : undefined],
+          ],
+        );
+    }
+    if (args.out) {
+      fs.writeFileSync(args.out, output + '\n');
+      console.log(`Wrote the supply statement of ${ledger.length} epochs to ${args.out}`);
+    } else {
+      console.log(output);
+    }
+
+    for (const entry of ledger) {
+      for (const issuance of entry.issuances) {
+        console.log(
+          `Epoch ${entry.epoch}: ${formatEther(issuance.amount)} tokens issued in block ${issuance.blockNumber}`,
+        );
+      }
+    }
+    if (statement.gaps.length > 0) {
+      const message = ledger
+        .filter(entry => entry.gap !== 0n)
+        .map(
+          entry => `epoch ${entry.epoch} (blocks ${entry.fromBlock}-${entry.toBlock}): gap ${formatEther(entry.gap)}`,
+        )
+        .join(', ');
+      if (args.strict) {
+        throw new HardhatPluginError('pano-sfc', `Supply does not reconcile: ${message}`);
+      }
+      console.log(`Supply does not reconcile: ${message}`);
+    }
+    return statement;
+  });
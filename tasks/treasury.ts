@@ -0,0 +1,116 @@
+import { task, types } from 'hardhat/config';
+import { formatEther } from 'ethers';
+import {
+  ResolvedTreasuryFees,
+  TreasuryFeesStatus,
+  backoffDelay,
+  resolvedTreasuryFees,
+  treasuryFeesStatus,
+} from '../lib/TreasuryFees';
+import { sendTx, sfcAddress } from './utils';
+
+// Keeper of the treasury fees the SFC failed to send to the treasury, see lib/TreasuryFees.ts. It alerts while fees
+// are unresolved and calls resolveTreasuryFees() once the simulation passes, backing off while it fails:
+// npx hardhat treasury:keeper [--interval 60] [--max-delay 3600] [--checks 1] [--dry-run] --network pano
+
+interface KeeperArgs {
+  interval: number;
+  maxDelay: number;
+  checks: number;
+  fromBlock?: number;
+  dryRun: boolean;
+  sfc?: string;
+}
+
+interface KeeperCheck extends Partial<TreasuryFeesStatus> {
+  action: 'none' | 'alert' | 'resolved' | 'failed' | 'error';
+  // RPC error the check failed with, the status is missing when it could not be read
+  error?: string;
+  // seconds until the next check
+  nextCheckIn: number;
+}
+
+interface KeeperReport {
+  checks: KeeperCheck[];
+  // TreasuryFeesResolved events seen while running, by anyone
+  resolved: ResolvedTreasuryFees[];
+}
+
+task('treasury:keeper', 'Monitor the unresolved treasury fees of the SFC and resolve them')
+  .addOptionalParam('interval', 'Seconds between the checks', 60, types.float)
+  .addOptionalParam('maxDelay', 'Maximum seconds between the checks while resolving fails', 3600, types.float)
+  .addOptionalParam('checks', 'Number of checks to run, 0 to keep running', 0, types.int)
+  .addOptionalParam(
+    'fromBlock',
+    'First block of the TreasuryFeesResolved events, the latest by default',
+    undefined,
+    types.int,
+  )
+  .addFlag('dryRun', 'Only monitor and alert, never send resolveTreasuryFees()')
+  .addOptionalParam('sfc', 'SFC address, from the address book by default', undefined, types.string)
+  .setAction(async (args: KeeperArgs, hre): Promise<KeeperReport> => {
+    const sfc = await hre.ethers.getContractAt('SFC', await sfcAddress(hre, args.sfc));
+    const [signer] = await hre.ethers.getSigners();
+    console.log('Using signer:', signer.address);
+    const report: KeeperReport = { checks: [], resolved: [] };
+    let fromBlock = args.fromBlock ?? (await hre.ethers.provider.getBlockNumber());
+    let failures = 0;
+
+    while (args.checks === 0 || report.checks.length < args.checks) {
+      const check: KeeperCheck = { action: 'none', nextCheckIn: 0 };
+      try {
+        const status = await treasuryFeesStatus(sfc, signer.address);
+        Object.assign(check, status);
+        if (status.unresolvedFees === 0n) {
+          console.log(`Block ${status.blockNumber}: no unresolved treasury fees`);
+          failures = 0;
+        } else {
+          console.log(
+            `ALERT block ${status.blockNumber}: ${formatEther(status.unresolvedFees)} unresolved treasury fees ` +
+              `(treasury ${status.treasury}, SFC balance ${formatEther(status.sfcBalance)})`,
+          );
+          check.action = 'alert';
+          if (status.resolveError) {
+            console.log(`resolveTreasuryFees() would fail: ${status.resolveError}`);
+            failures++;
+          } else if (args.dryRun) {
+            console.log('Dry run, resolveTreasuryFees() is not sent');
+            failures = 0;
+          } else {
+            try {
+              await sendTx(sfc.interface, 'Resolving treasury fees', () => sfc.connect(signer).resolveTreasuryFees());
+              check.action = 'resolved';
+              failures = 0;
+            } catch (err) {
+              // e.g. resolved by someone else in between, checked again after the backoff
+              console.log((err as Error).message);
+              check.action = 'failed';
+              failures++;
+            }
+          }
+        }
+
+        const toBlock = await hre.ethers.provider.getBlockNumber();
+        for (const event of await resolvedTreasuryFees(sfc, fromBlock, toBlock)) {
+          console.log(
+            `Block ${event.blockNumber}: TreasuryFeesResolved(${formatEther(event.amount)}) (tx ${event.transactionHash})`,
+          );
+          report.resolved.push(event);
+        }
+        fromBlock = toBlock + 1;
+      } catch (err) {
+        // the node is unreachable or failing, checked again after the backoff (the events from the same block)
+        check.error = (err as Error).message;
+        console.log(`Check failed: ${check.error}`);
+        check.action = 'error';
+        failures++;
+      }
+
+      check.nextCheckIn = backoffDelay(args.interval, failures, args.maxDelay);
+      report.checks.push(check);
+      if (args.checks === 0 || report.checks.length < args.checks) {
+        await new Promise(resolve => setTimeout(resolve, check.nextCheckIn * 1000));
+      }
+    }
+    return report;
+  });
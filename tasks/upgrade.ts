@@ -0,0 +1,320 @@
+import { task, types } from 'hardhat/config';
+import { HardhatPluginError } from 'hardhat/plugins';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { Contract, ContractFactory, Signer, getAddress } from 'ethers';
+import * as fs from 'fs';
+import { ContractName, getImplementation } from '../lib/AddressBook';
+import { describeContractError } from '../lib/SfcErrors';
+import { GovernanceCall, SafeBatch, buildSafeBatch } from '../lib/SafeBatch';
+import { formatTable, toJson } from '../lib/Table';
+import {
+  StateChange,
+  StateSnapshot,
+  UPGRADEABLE_CONTRACTS,
+  codeMatches,
+  diffSnapshots,
+  isExpectedChange,
+  snapshotImplementations,
+  snapshotSfc,
+  snapshotViews,
+} from '../lib/UpgradeSafety';
+import { ForkProvider, addressBook, bookAddress, forkNetwork, impersonate, sendTx } from './utils';
+
+// Upgrade the network contracts only after checking the upgrade is safe:
+//  1. storage layout of the new implementation against the deployed one (OpenZeppelin upgrades plugin),
+//  2. the upgrade simulated on a fork of the network (the Hardhat network itself is reverted afterwards),
+//  3. state snapshots (every view, validators, stakes, constants) taken before and after, and diffed.
+// Only then the implementations are deployed and upgradeToAndCall is sent, or written as a Safe transaction batch
+// when the signer is not the owner, e.g.:
+// npx hardhat upgrade:apply --contracts sfc,subsidiesRegistry [--dry-run] [--payload upgrade.json] --network pano
+// The new implementations are recorded in the .openzeppelin manifest, the next upgrade is checked against them.
+// Deployed implementations not registered in the manifest are compared with a reference contract compiled from the
+// deployed sources: --reference sfc=contracts/release/SFC.sol:SFC
+// NodeDriver upgrades are disabled by the contract, the simulation of its upgrade fails.
+
+interface UpgradeArgs {
+  contracts: string;
+  artifacts?: string;
+  reference?: string;
+  addresses?: string;
+  delegators?: string;
+  payload?: string;
+  acceptChanges: boolean;
+  dryRun: boolean;
+}
+
+interface UpgradeTarget {
+  name: ContractName;
+  proxy: string;
+  owner: string;
+  artifact: string;
+  currentImplementation: string;
+  newImplementation?: string;
+}
+
+interface UpgradeReport {
+  targets: UpgradeTarget[];
+  changes: StateChange[];
+  unexpectedChanges: StateChange[];
+  // sent upgrade transactions
+  upgraded: ContractName[];
+  // upgrades to be executed by the owner multisig
+  payload?: SafeBatch;
+}
+
+// "a=x,b=y" as an object
+function parseMapping(value: string | undefined, what: string): Record<string, string> {
+  const mapping: Record<string, string> = {};
+  for (const item of value ? value.split(',') : []) {
+    const [key, target] = item.split('=');
+    if (!key || !target) {
+      throw new HardhatPluginError('pano-sfc', `Invalid ${what} "${item}", expected name=value`);
+    }
+    mapping[key.trim()] = target.trim();
+  }
+  return mapping;
+}
+
+async function snapshotState(
+  hre: HardhatRuntimeEnvironment,
+  provider: ForkProvider,
+  proxies: Partial<Record<ContractName, string>>,
+  delegators: string[],
+): Promise<StateSnapshot> {
+  const snapshot: StateSnapshot = {};
+  const contract = async (name: string, address: string) =>
+    new Contract(address, (await hre.artifacts.readArtifact(name)).abi, provider);
+  for (const [name, address] of Object.entries(proxies)) {
+    await snapshotViews(name, await contract(UPGRADEABLE_CONTRACTS[name as ContractName]!, address), snapshot);
+  }
+  if (proxies.sfc) {
+    const sfc = await contract('SFC', proxies.sfc);
+    await snapshotViews('constants', await contract('ConstantsManager', await sfc.constsAddress()), snapshot);
+    const auths = [];
+    for (let validatorID = 1n; validatorID <= (await sfc.lastValidatorID()); validatorID++) {
+      auths.push((await sfc.getValidator(validatorID)).auth);
+    }
+    await snapshotSfc(sfc, [...new Set([...auths, ...delegators])], snapshot);
+  }
+  await snapshotImplementations(provider, proxies, snapshot);
+  return snapshot;
+}
+
+/** Storage layout and upgrade safety of the new implementation, against the deployed one. */
+async function validateLayout(hre: HardhatRuntimeEnvironment, target: UpgradeTarget, reference?: string) {
+  const factory = await hre.ethers.getContractFactory(target.artifact);
+  if (!reference) {
+    try {
+      await hre.upgrades.validateUpgrade(target.proxy, factory, { kind: 'uups' });
+    } catch (err) {
+      const message = (err as Error).message;
+      throw new HardhatPluginError(
+        'pano-sfc',
+        message.includes('is not registered')
+          ? `implementation ${target.currentImplementation} of ${target.name} is not in the OpenZeppelin manifest, ` +
+            `pass --reference ${target.name}=<contract compiled from its deployed sources>`
+          : `${target.name} storage layout check failed: ${message}`,
+      );
+    }
+    return;
+  }
+  // the reference must be what is deployed, otherwise the comparison says nothing
+  const artifact = await hre.artifacts.readArtifact(reference);
+  const fullName = `${artifact.sourceName}:${artifact.contractName}`;
+  const compiled = (await hre.artifacts.getBuildInfo(fullName))!.output.contracts[artifact.sourceName][
+    artifact.contractName
+  ].evm.deployedBytecode;
+  const code = await hre.ethers.provider.getCode(target.currentImplementation);
+  if (!codeMatches(code, '0x' + compiled.object, compiled.immutableReferences)) {
+    throw new HardhatPluginError(
+      'pano-sfc',
+      `${target.name} implementation ${target.currentImplementation} was not compiled from the reference ${fullName}`,
+    );
+  }
+  try {
+    await hre.upgrades.validateUpgrade(await hre.ethers.getContractFactory(reference), factory, { kind: 'uups' });
+  } catch (err) {
+    throw new HardhatPluginError('pano-sfc', `${target.name} storage layout check failed: ${(err as Error).message}`);
+  }
+}
+
+/**
+ * Deploy the new implementations and upgrade the proxies as their owners on the fork. The fork is discarded, its
+ * implementations are not recorded in the manifest.
+ */
+async function simulateUpgrade(hre: HardhatRuntimeEnvironment, provider: ForkProvider, targets: UpgradeTarget[]) {
+  const deployer = await provider.getSigner(0);
+  for (const target of targets) {
+    const artifact = await hre.artifacts.readArtifact(target.artifact);
+    const implementation = await new ContractFactory(artifact.abi, artifact.bytecode, deployer).deploy();
+    const proxy = new Contract(target.proxy, artifact.abi, await impersonate(provider, target.owner));
+    try {
+      await (await proxy.upgradeToAndCall(await implementation.getAddress(), '0x')).wait();
+    } catch (err) {
+      throw new HardhatPluginError(
+        'pano-sfc',
+        `Simulated upgrade of ${target.name} failed: ${describeContractError(err, proxy.interface)}`,
+      );
+    }
+  }
+}
+
+/**
+ * Deploy the new implementation with the signer and record it in the manifest. A new one every time, like on the
+ * fork, even when the manifest has one of the same bytecode.
+ */
+async function deployImplementation(
+  hre: HardhatRuntimeEnvironment,
+  signer: Signer,
+  target: UpgradeTarget,
+  reference?: string,
+): Promise<string> {
+  const factory = await hre.ethers.getContractFactory(target.artifact, signer);
+  const opts = { kind: 'uups', redeployImplementation: 'always' } as const;
+  // checked against the reference by validateLayout, the current implementation is not in the manifest
+  const implementation = reference
+    ? await hre.upgrades.deployImplementation(factory, opts)
+    : await hre.upgrades.prepareUpgrade(target.proxy, factory, opts);
+  return implementation as string;
+}
+
+task('upgrade:apply', 'Check, simulate and apply upgrades of the network contracts')
+  .addOptionalParam(
+    'contracts',
+    'Comma separated proxies to upgrade (sfc, nodeDriverAuth, subsidiesRegistry, nodeDriver)',
+    'sfc,nodeDriverAuth,subsidiesRegistry',
+    types.string,
+  )
+  .addOptionalParam('artifacts', 'New implementation contracts, e.g. sfc=SFC (the proxy names by default)')
+  .addOptionalParam('reference', 'Contracts of the deployed implementations missing in the manifest, e.g. sfc=SFCv1')
+  .addOptionalParam('addresses', 'Proxy addresses instead of the address book ones, e.g. sfc=0x...')
+  .addOptionalParam('delegators', 'Comma separated delegators whose stakes are compared besides the self-stakes')
+  .addOptionalParam('payload', 'File to write the Safe transaction batch to when the signer is not the owner')
+  .addFlag('acceptChanges', 'Apply the upgrade even when the simulation changes other state than implementations')
+  .addFlag('dryRun', 'Stop after the simulation')
+  .setAction(async (args: UpgradeArgs, hre): Promise<UpgradeReport> => {
+    const { ethers } = hre;
+    const artifacts = parseMapping(args.artifacts, 'artifact');
+    const references = parseMapping(args.reference, 'reference');
+    const addresses = parseMapping(args.addresses, 'address');
+    const delegators = args.delegators ? args.delegators.split(',').map(address => getAddress(address.trim())) : [];
+
+    const targets: UpgradeTarget[] = [];
+    for (const name of args.contracts.split(',').map(name => name.trim()) as ContractName[]) {
+      if (!UPGRADEABLE_CONTRACTS[name]) {
+        throw new HardhatPluginError(
+          'pano-sfc',
+          `Unknown contract ${name}, expected one of ${Object.keys(UPGRADEABLE_CONTRACTS).join(', ')}`,
+        );
+      }
+      const proxy = getAddress(await bookAddress(hre, name, addresses[name]));
+      const artifact = artifacts[name] ?? UPGRADEABLE_CONTRACTS[name]!;
+      const owner = await new Contract(proxy, ['function owner() view returns (address)'], ethers.provider).owner();
+      targets.push({
+        name,
+        proxy,
+        owner,
+        artifact,
+        currentImplementation: await getImplementation(ethers.provider, proxy),
+      });
+    }
+
+    console.log('Checking storage layouts...');
+    for (const target of targets) {
+      await validateLayout(hre, target, references[target.name]);
+      console.log(` - ${target.name}: ${target.artifact} is compatible with ${target.currentImplementation}`);
+    }
+
+    // every proxy is snapshotted, a contract not being upgraded must not change either (the given ones only when the
+    // address book is overridden)
+    const proxies: Partial<Record<ContractName, string>> = {};
+    const book = args.addresses ? undefined : await addressBook(hre);
+    for (const name of Object.keys(UPGRADEABLE_CONTRACTS) as ContractName[]) {
+      const address = addresses[name] ?? book?.[name].address;
+      if (!address) {
+        continue;
+      }
+      proxies[name] = getAddress(address);
+      if ((await ethers.provider.getCode(proxies[name]!)) === '0x') {
+        delete proxies[name];
+      }
+    }
+    console.log('Simulating the upgrade on a fork...');
+    const fork = await forkNetwork(hre);
+    let changes: StateChange[];
+    try {
+      const before = await snapshotState(hre, fork.provider, proxies, delegators);
+      await simulateUpgrade(hre, fork.provider, targets);
+      changes = diffSnapshots(before, await snapshotState(hre, fork.provider, proxies, delegators));
+    } finally {
+      await fork.release();
+    }
+    const upgradedNames = targets.map(target => target.name);
+    const unexpectedChanges = changes.filter(change => !isExpectedChange(change, upgradedNames));
+    console.log(
+      formatTable(
+        ['State', 'Before', 'After', 'Expected'],
+        changes.map(change => [change.key, change.before, change.after, !unexpectedChanges.includes(change)]),
+      ),
+    );
+    const report: UpgradeReport = { targets, changes, unexpectedChanges, upgraded: [] };
+    if (unexpectedChanges.length > 0 && !args.acceptChanges) {
+      throw new HardhatPluginError(
+        'pano-sfc',
+        `The upgrade changes ${unexpectedChanges.map(change => change.key).join(', ')}, ` +
+          'review the diff and pass --accept-changes to apply it anyway',
+      );
+    }
+    if (args.dryRun) {
+      console.log('Dry run, the upgrade is not applied');
+      return report;
+    }
+
+    const [signer] = await ethers.getSigners();
+    console.log('Using signer:', signer.address);
+    const multisigTargets = targets.filter(target => target.owner !== signer.address);
+    const multisigs = [...new Set(multisigTargets.map(target => target.owner))];
+    if (multisigs.length > 1) {
+      throw new HardhatPluginError(
+        'pano-sfc',
+        `The proxies have different owners ${multisigs.join(', ')}, upgrade them separately`,
+      );
+    }
+    if (multisigs.length > 0 && !args.payload) {
+      throw new HardhatPluginError(
+        'pano-sfc',
+        `The signer is not the owner of ${multisigTargets.map(target => target.name).join(', ')}, ` +
+          'pass --payload to write the multisig payload',
+      );
+    }
+    for (const target of targets) {
+      target.newImplementation = await deployImplementation(hre, signer, target, references[target.name]);
+      console.log(` - ${target.name} implementation deployed at ${target.newImplementation}`);
+    }
+    const calls: GovernanceCall[] = [];
+    for (const target of targets) {
+      const proxy = await ethers.getContractAt('SFC', target.proxy, signer);
+      if (multisigTargets.includes(target)) {
+        calls.push({
+          contract: target.name,
+          to: target.proxy,
+          iface: proxy.interface,
+          method: 'upgradeToAndCall',
+          args: [target.newImplementation!, '0x'],
+        });
+        continue;
+      }
+      await sendTx(proxy.interface, `Upgrading ${target.name} to ${target.newImplementation}`, () =>
+        proxy.upgradeToAndCall(target.newImplementation!, '0x'),
+      );
+      report.upgraded.push(target.name);
+    }
+    if (calls.length > 0) {
+      const { chainId } = await ethers.provider.getNetwork();
+      const name = `Upgrade ${multisigTargets.map(target => `${target.name} to ${target.artifact}`).join(', ')}`;
+      report.payload = buildSafeBatch(chainId, multisigs[0], name, calls);
+      fs.writeFileSync(args.payload!, toJson(report.payload) + '\n');
+      console.log(`Safe transaction batch of ${calls.length} upgrades written to ${args.payload}`);
+    }
+    return report;
+  });
@@ -0,0 +1,149 @@
+import { ContractTransactionReceipt, ContractTransactionResponse, Interface, formatEther } from 'ethers';
+import { HardhatPluginError } from 'hardhat/plugins';
+import { HardhatRuntimeEnvironment, HttpNetworkConfig } from 'hardhat/types';
+import { ContractName, NetworkAddresses, loadAddressBook } from '../lib/AddressBook';
+import { describeContractError } from '../lib/SfcErrors';
+
+// event args holding token amounts, printed in whole tokens
+const AMOUNT_ARGS = new Set(['amount', 'rewards', 'penalty', 'received', 'distributed', 'refundRatio']);
+
+// address books checked against the chain, by network
+const verifiedBooks = new Map<string, Promise<NetworkAddresses>>();
+
+/** Addresses of the network from the address book, checked against the chain once. */
+async function addressBook(hre: HardhatRuntimeEnvironment): Promise<NetworkAddresses> {
+  const network = hre.network.name;
+  let book = verifiedBooks.get(network);
+  if (!book) {
+    book = loadAddressBook(network, hre.ethers.provider);
+    verifiedBooks.set(network, book);
+    // checked again by the next call
+    book.catch(() => verifiedBooks.delete(network));
+  }
+  try {
+    return await book;
+  } catch (err) {
+    throw new HardhatPluginError('pano-sfc', (err as Error).message);
+  }
+}
+
+/** Address given to the task, or the one of the contract from the address book. */
+async function bookAddress(hre: HardhatRuntimeEnvironment, contract: ContractName, address?: string): Promise<string> {
+  return address ?? (await addressBook(hre))[contract].address;
+}
+
+/** SFC address given to the task, or the one of the network from the address book. */
+async function sfcAddress(hre: HardhatRuntimeEnvironment, address?: string): Promise<string> {
+  return bookAddress(hre, 'sfc', address);
+}
+
+/** SubsidiesRegistry address given to the task, or the one of the network from the address book. */
+async function subsidiesRegistryAddress(hre: HardhatRuntimeEnvironment, address?: string): Promise<string> {
+  return bookAddress(hre, 'subsidiesRegistry', address);
+}
+
+/**
+ * Send a transaction and wait for its receipt, decoding custom errors of the given interface.
+ * Failing transactions are estimated before broadcasting, so reverts are reported without spending gas.
+ */
+async function sendTx(
+  iface: Interface,
+  description: string,
+  send: () => Promise<ContractTransactionResponse>,
+): Promise<ContractTransactionReceipt> {
+  console.log(`${description}...`);
+  try {
+    const tx = await send();
+    console.log(` - tx: ${tx.hash}`);
+    const receipt = await tx.wait();
+    if (!receipt) {
+      throw new Error(`Transaction ${tx.hash} was dropped`);
+    }
+    console.log(` - block: ${receipt.blockNumber}, gas used: ${receipt.gasUsed}`);
+    printEvents(iface, receipt);
+    return receipt;
+  } catch (err) {
+    throw new HardhatPluginError(
+      'pano-sfc',
+      `${description} failed: ${describeContractError(err, iface)}`,
+      err as Error,
+    );
+  }
+}
+
+/** Print events of the receipt known to the given interface. */
+function printEvents(iface: Interface, receipt: ContractTransactionReceipt) {
+  for (const log of receipt.logs) {
+    const parsed = iface.parseLog(log);
+    if (!parsed) {
+      continue;
+    }
+    const args = parsed.fragment.inputs.map((input, i) => {
+      const value = parsed.args[i];
+      return `${input.name}=${AMOUNT_ARGS.has(input.name) ? formatEther(value) : String(value)}`;
+    });
+    console.log(` - event ${parsed.name}(${args.join(', ')})`);
+  }
+}
+
+/**
+ * In-process Hardhat network forking the url at the block. Neither Hardhat 2 nor hardhat-ethers export a way to create
+ * a second network and its ethers provider, their internal modules are imported here only: check this function when
+ * upgrading hardhat or @nomicfoundation/hardhat-ethers.
+ */
+async function createForkProvider(hre: HardhatRuntimeEnvironment, url: string, blockNumber: number) {
+  const { createProvider } = await import('hardhat/internal/core/providers/construction');
+  const { HardhatEthersProvider } = await import('@nomicfoundation/hardhat-ethers/internal/hardhat-ethers-provider');
+  const config = {
+    ...hre.config,
+    networks: {
+      ...hre.config.networks,
+      hardhat: { ...hre.config.networks.hardhat, forking: { url, blockNumber, enabled: true, httpHeaders: {} } },
+    },
+  };
+  return new HardhatEthersProvider(await createProvider(config, 'hardhat', hre.artifacts), 'hardhat');
+}
+
+/**
+ * Provider of a chain transactions can be simulated on: the Hardhat network itself, reverted afterwards,
+ * or an in-process fork of the live network pinned at its latest block.
+ */
+async function forkNetwork(hre: HardhatRuntimeEnvironment) {
+  if (hre.network.name === 'hardhat') {
+    const snapshot = await hre.network.provider.send('evm_snapshot');
+    return {
+      provider: hre.ethers.provider,
+      release: async () => {
+        await hre.network.provider.send('evm_revert', [snapshot]);
+      },
+    };
+  }
+  // pinned, the snapshots before and after the simulation are taken from the same chain state
+  const blockNumber = await hre.ethers.provider.getBlockNumber();
+  const provider = await createForkProvider(hre, (hre.network.config as HttpNetworkConfig).url, blockNumber);
+  console.log(`Forked ${hre.network.name} at block ${blockNumber}`);
+  return { provider, release: async () => {} };
+}
+
+type ForkProvider = Awaited<ReturnType<typeof forkNetwork>>['provider'];
+
+/** Signer of any account on the fork, funded for gas (e.g. the owner multisig). */
+async function impersonate(provider: ForkProvider, address: string) {
+  await provider.send('hardhat_impersonateAccount', [address]);
+  if ((await provider.getBalance(address)) < 10n ** 20n) {
+    await provider.send('hardhat_setBalance', [address, '0x56bc75e2d63100000']);
+  }
+  return provider.getSigner(address);
+}
+
+export {
+  ForkProvider,
+  addressBook,
+  bookAddress,
+  sfcAddress,
+  subsidiesRegistryAddress,
+  sendTx,
+  printEvents,
+  forkNetwork,
+  impersonate,
+};
@@ -0,0 +1,275 @@
+import { task, types } from 'hardhat/config';
+import { HardhatPluginError } from 'hardhat/plugins';
+import * as fs from 'fs';
+import { describeContractError } from '../lib/SfcErrors';
+import { formatTable, toCsv, toJson } from '../lib/Table';
+import { EpochReader, MULTICALL3_ADDRESS } from '../lib/EpochReader';
+import { ExtraRewardPreview, extraRewardPreview } from '../lib/ExtraRewards';
+import { ValidatorPerformanceRow, computePerformance } from '../lib/ValidatorPerformance';
+import { pubkeyToAddress, validatePubkey } from '../lib/ValidatorPubkey';
+import { sfcAddress, sendTx } from './utils';
+
+// Create a validator with pre-flight checks, e.g.:
+// npx hardhat sfc:create-validator --pubkey 0xc004... --stake 500000 --network testnet
+// (requires .env with appropriate PRIVATE_KEY)
+// Validator performance of sealed epochs (uptime, APR, offline blocks, deactivation risk) for dashboards:
+// npx hardhat sfc:validator-performance --from-epoch 100 --to-epoch 200 --format csv --out performance.csv --network pano
+// Extra rewards of a sealed epoch split across its validators, previewed before sending:
+// npx hardhat sfc:distribute-extra-reward --epoch 100 --amount 1000 [--with-burn] [--dry-run] --network pano
+
+interface CreateValidatorArgs {
+  pubkey: string;
+  stake: string;
+  sfc?: string;
+  dryRun: boolean;
+}
+
+task('sfc:create-validator', 'Create a validator from a pubkey, checking it can be created before sending')
+  .addParam('pubkey', 'Validator pubkey (0xc004... secp256k1 layout)', undefined, types.string)
+  .addParam('stake', 'Self-stake in tokens', undefined, types.string)
+  .addOptionalParam('sfc', 'SFC address, from the address book by default', undefined, types.string)
+  .addFlag('dryRun', 'Only run the pre-flight checks and simulate the call')
+  .setAction(async (args: CreateValidatorArgs, hre): Promise<bigint | undefined> => {
+    const fail = (message: string): never => {
+      throw new HardhatPluginError('pano-sfc', `Validator cannot be created: ${message}`);
+    };
+
+    const [signer] = await hre.ethers.getSigners();
+    console.log('Using signer:', signer.address);
+    const sfc = await hre.ethers.getContractAt('SFC', await sfcAddress(hre, args.sfc), signer);
+    const constants = await hre.ethers.getContractAt('ConstantsManager', await sfc.constsAddress());
+
+    const invalid = validatePubkey(args.pubkey);
+    if (invalid) {
+      fail(invalid);
+    }
+    const pubkeyAddress = pubkeyToAddress(args.pubkey);
+    console.log('Pubkey address:', pubkeyAddress);
+    const usedBy = await sfc.pubkeyAddressToValidatorID(pubkeyAddress);
+    if (usedBy !== 0n) {
+      fail(`pubkey is already used by validator ${usedBy}`);
+    }
+    const existing = await sfc.getValidatorID(signer);
+    if (existing !== 0n) {
+      fail(`signer already created validator ${existing}`);
+    }
+
+    const stake = hre.ethers.parseEther(args.stake);
+    const minSelfStake = await constants.minSelfStake();
+    if (stake < minSelfStake) {
+      fail(`self-stake ${args.stake} is below the minimum self-stake ${hre.ethers.formatEther(minSelfStake)}`);
+    }
+    const balance = await hre.ethers.provider.getBalance(signer);
+    if (balance < stake) {
+      fail(`signer balance ${hre.ethers.formatEther(balance)} is below the self-stake ${args.stake}`);
+    }
+
+    try {
+      await sfc.createValidator.staticCall(args.pubkey, { value: stake });
+    } catch (err) {
+      fail(`simulation failed: ${describeContractError(err, sfc.interface)}`);
+    }
+    console.log('Pre-flight checks passed, next validator ID:', (await sfc.lastValidatorID()) + 1n);
+    if (args.dryRun) {
+      return undefined;
+    }
+
+    const receipt = await sendTx(sfc.interface, `Creating validator with self-stake ${args.stake}`, () =>
+      sfc.createValidator(args.pubkey, { value: stake }),
+    );
+    for (const log of receipt.logs) {
+      const parsed = sfc.interface.parseLog(log);
+      if (parsed?.name === 'CreatedValidator') {
+        console.log('Created validator ID:', parsed.args.validatorID.toString());
+        return parsed.args.validatorID;
+      }
+    }
+    throw new HardhatPluginError('pano-sfc', `CreatedValidator event not found in tx ${receipt.hash}`);
+  });
+
+interface PerformanceArgs {
+  fromEpoch?: bigint;
+  toEpoch?: bigint;
+  format: string;
+  out?: string;
+  warningMargin: string;
+  multicall?: string;
+  concurrency: number;
+  sfc?: string;
+}
+
+const PERFORMANCE_COLUMNS: (keyof ValidatorPerformanceRow)[] = [
+  'epoch',
+  'endBlock',
+  'endTime',
+  'duration',
+  'validatorID',
+  'receivedStake',
+  'uptime',
+  'averageUptime',
+  'apr',
+  'offlineBlocks',
+  'offlineTime',
+  'originatedTxsFee',
+  'risk',
+  'riskReason',
+];
+
+task('sfc:validator-performance', 'Export uptime, APR, offline blocks and deactivation risk of validators per epoch')
+  .addOptionalParam(
+    'fromEpoch',
+    'First sealed epoch, 10 epochs before the last one by default',
+    undefined,
+    types.bigint,
+  )
+  .addOptionalParam('toEpoch', 'Last sealed epoch, the current sealed epoch by default', undefined, types.bigint)
+  .addOptionalParam('format', 'Output format: table, csv or json', 'table', types.string)
+  .addOptionalParam('out', 'File to write the export to, printed by default', undefined, types.string)
+  .addOptionalParam(
+    'warningMargin',
+    'Warn when the average uptime is within this margin of the minimum',
+    '0.05',
+    types.string,
+  )
+  .addOptionalParam('multicall', 'Multicall3 aggregator, the canonical one when deployed', undefined, types.string)
+  .addOptionalParam('concurrency', 'Batches of SFC calls in flight at once', 4, types.int)
+  .addOptionalParam('sfc', 'SFC address, from the address book by default', undefined, types.string)
+  .setAction(async (args: PerformanceArgs, hre): Promise<ValidatorPerformanceRow[]> => {
+    if (!['table', 'csv', 'json'].includes(args.format)) {
+      throw new HardhatPluginError('pano-sfc', `Unknown format ${args.format}, expected table, csv or json`);
+    }
+    const sfc = await hre.ethers.getContractAt('SFC', await sfcAddress(hre, args.sfc));
+    const constants = await hre.ethers.getContractAt('ConstantsManager', await sfc.constsAddress());
+    const sealedEpoch = await sfc.currentSealedEpoch();
+    const toEpoch = args.toEpoch ?? sealedEpoch;
+    const fromEpoch = args.fromEpoch ?? (toEpoch > 10n ? toEpoch - 9n : 1n);
+    if (fromEpoch < 1n || fromEpoch > toEpoch || toEpoch > sealedEpoch) {
+      throw new HardhatPluginError(
+        'pano-sfc',
+        `Invalid epoch range ${fromEpoch}-${toEpoch}, sealed epochs are 1-${sealedEpoch}`,
+      );
+    }
+
+    // the epoch before the range is read for the values accumulated since then
+    const epochs = Array.from({ length: Number(toEpoch - fromEpoch) + 2 }, (_, i) => fromEpoch - 1n + BigInt(i));
+    let multicall = args.multicall;
+    if (multicall === undefined && (await hre.ethers.provider.getCode(MULTICALL3_ADDRESS)) !== '0x') {
+      multicall = MULTICALL3_ADDRESS;
+    }
+    const reader = new EpochReader(hre.ethers.provider, await sfc.getAddress(), {
+      multicall,
+      concurrency: args.concurrency,
+    });
+    const rows = computePerformance(
+      await reader.readEpochs(epochs),
+      {
+        minAverageUptime: await constants.minAverageUptime(),
+        offlinePenaltyThresholdBlocksNum: await constants.offlinePenaltyThresholdBlocksNum(),
+        offlinePenaltyThresholdTime: await constants.offlinePenaltyThresholdTime(),
+      },
+      hre.ethers.parseEther(args.warningMargin),
+    );
+
+    const output =
+      args.format === 'json'
+        ? toJson(rows)
+        : (args.format === 'csv' ? toCsv : formatTable)(
+            PERFORMANCE_COLUMNS,
+            rows.map(row => PERFORMANCE_COLUMNS.map(column => row[column])),
+          );
+    if (!args.out) {
+      console.log(output);
+      return rows;
+    }
+    fs.writeFileSync(args.out, output + '\n');
+    console.log(`Wrote ${rows.length} rows of epochs ${fromEpoch}-${toEpoch} to ${args.out}`);
+    const critical = rows.filter(row => row.risk === 'critical' && row.epoch === Number(toEpoch));
+    if (critical.length > 0) {
+      console.log(`Validators at risk of deactivation: ${critical.map(row => row.validatorID).join(', ')}`);
+    }
+    return rows;
+  });
+
+interface ExtraRewardArgs {
+  epoch: bigint;
+  amount: string;
+  withBurn: boolean;
+  dryRun: boolean;
+  sfc?: string;
+}
+
+task('sfc:distribute-extra-reward', 'Preview and distribute extra rewards across the validators of a sealed epoch')
+  .addParam('epoch', 'Sealed epoch whose validators are rewarded', undefined, types.bigint)
+  .addParam('amount', 'Tokens to distribute', undefined, types.string)
+  .addFlag('withBurn', 'Burn the extraRewardsBurnRatio share of the amount')
+  .addFlag('dryRun', 'Only preview and simulate the distribution')
+  .addOptionalParam('sfc', 'SFC address, from the address book by default', undefined, types.string)
+  .setAction(async (args: ExtraRewardArgs, hre): Promise<ExtraRewardPreview> => {
+    const { ethers } = hre;
+    const [signer] = await ethers.getSigners();
+    console.log('Using signer:', signer.address);
+    const sfc = await ethers.getContractAt('SFC', await sfcAddress(hre, args.sfc), signer);
+    const constants = await ethers.getContractAt('ConstantsManager', await sfc.constsAddress());
+    const amount = ethers.parseEther(args.amount);
+    const preview = await extraRewardPreview(sfc, constants, args.epoch, amount, args.withBurn);
+    if (preview.error) {
+      throw new HardhatPluginError('pano-sfc', `${preview.error.error}: ${preview.error.message}`);
+    }
+    if (preview.shares.length === 0) {
+      throw new HardhatPluginError(
+        'pano-sfc',
+        `Epoch ${args.epoch} has no validators, the whole amount would be burnt`,
+      );
+    }
+
+    console.log(
+      formatTable(
+        ['Validator', 'Auth', 'Received stake', 'Share'],
+        preview.shares.map(s => [
+          s.validatorID,
+          s.auth,
+          ethers.formatEther(s.receivedStake),
+          ethers.formatEther(s.share),
+        ]),
+      ),
+    );
+    console.log(
+      formatTable(
+        ['Distribution', 'Tokens'],
+        [
+          ['received', ethers.formatEther(preview.received)],
+          ['distributed', ethers.formatEther(preview.distributed)],
+          ['burnt', ethers.formatEther(preview.burnt)],
+          [
+            'extraRewardsBurnRatio',
+            args.withBurn ? `${ethers.formatEther(preview.extraRewardsBurnRatio * 100n)}%` : 'not applied',
+          ],
+        ],
+      ),
+    );
+    console.log('The shares are stashed to the validator auths, the delegators receive nothing from them');
+
+    try {
+      await sfc.distributeExtraReward.staticCall(args.epoch, args.withBurn, { value: amount });
+    } catch (err) {
+      throw new HardhatPluginError('pano-sfc', `Simulation failed: ${describeContractError(err, sfc.interface)}`);
+    }
+    if (args.dryRun) {
+      return preview;
+    }
+
+    const receipt = await sendTx(sfc.interface, `Distributing ${args.amount} tokens to epoch ${args.epoch}`, () =>
+      sfc.distributeExtraReward(args.epoch, args.withBurn, { value: amount }),
+    );
+    for (const log of receipt.logs) {
+      const parsed = sfc.interface.parseLog(log);
+      if (parsed?.name === 'DistributedExtraRewards' && parsed.args.distributed !== preview.distributed) {
+        // only a change of extraRewardsBurnRatio in between can cause it
+        console.log(
+          `Distributed ${ethers.formatEther(parsed.args.distributed)} tokens instead of the previewed ` +
+            ethers.formatEther(preview.distributed),
+        );
+      }
+    }
+    return preview;
+  });
@@ -0,0 +1,305 @@
+import { task, types } from 'hardhat/config';
+import { HardhatPluginError } from 'hardhat/plugins';
+import CTOTreasuryVestingModule from '../ignition/modules/CTOTreasuryVesting';
+import { formatTable, toJson } from '../lib/Table';
+import { ScheduleRow, VestingParams, nextUnlock, vestedAt, vestingSchedule } from '../lib/VestingSchedule';
+import type { CTOTreasuryVesting } from '../typechain-types';
+import { sendTx } from './utils';
+
+// Deploy the CTOTreasuryVesting through Ignition, fund it up to TOTAL_TOKENS and start the vesting, e.g.:
+// npx hardhat vesting:deploy --cto 0x... --owner 0x... --tranche 5000000 --start --network pano
+// (requires .env with appropriate PRIVATE_KEY)
+// An interrupted funding is resumed with --vesting, which only tops the contract up to TOTAL_TOKENS.
+//
+// Print the release schedule of a deployment, and release what is vested in keeper mode (e.g. from cron):
+// npx hardhat vesting:inspect --vesting 0x... [--json] [--keeper] --network pano
+
+// CTOTreasuryVesting.TOTAL_TOKENS, known before the contract is deployed
+const TOTAL_TOKENS = 75_000_000n * 10n ** 18n;
+
+interface InspectVestingArgs {
+  vesting: string;
+  json: boolean;
+  keeper: boolean;
+}
+
+interface VestingReport {
+  address: string;
+  cto: string;
+  owner: string;
+  params: VestingParams;
+  timestamp: bigint;
+  totalReleased: bigint;
+  contractBalance: bigint;
+  // what release() would transfer at the timestamp
+  releasable: bigint;
+  nextUnlock?: ScheduleRow;
+  schedule: (ScheduleRow & { status: 'released' | 'releasable' | 'locked' })[];
+  // released by the keeper
+  released?: bigint;
+}
+
+interface DeployVestingArgs {
+  cto?: string;
+  owner?: string;
+  vesting?: string;
+  deploymentId?: string;
+  amount?: string;
+  tranche?: string;
+  start: boolean;
+  dryRun: boolean;
+}
+
+/** Split the amount into transfers of at most the tranche size. */
+function splitTranches(amount: bigint, tranche: bigint): bigint[] {
+  const tranches: bigint[] = [];
+  for (let left = amount; left > 0n; left -= tranche < left ? tranche : left) {
+    tranches.push(tranche < left ? tranche : left);
+  }
+  return tranches;
+}
+
+task('vesting:deploy', 'Deploy and fund the CTOTreasuryVesting, optionally starting the vesting')
+  .addOptionalParam('cto', 'Beneficiary of the vesting, required for a new deployment', undefined, types.string)
+  .addOptionalParam('owner', 'Owner of a new deployment, the signer by default', undefined, types.string)
+  .addOptionalParam(
+    'vesting',
+    'Address of an existing deployment to fund instead of deploying',
+    undefined,
+    types.string,
+  )
+  .addOptionalParam('deploymentId', 'Ignition deployment ID, keeps the deployment journal', undefined, types.string)
+  .addOptionalParam(
+    'amount',
+    'Tokens to fund in this run, what is missing to TOTAL_TOKENS by default',
+    undefined,
+    types.string,
+  )
+  .addOptionalParam('tranche', 'Maximum tokens sent in one transfer, all at once by default', undefined, types.string)
+  .addFlag('start', 'Start the vesting once fully funded (the signer must be the owner)')
+  .addFlag('dryRun', 'Only print the deployment and funding plan')
+  .setAction(async (args: DeployVestingArgs, hre): Promise<CTOTreasuryVesting | undefined> => {
+    const fail = (message: string): never => {
+      throw new HardhatPluginError('pano-sfc', `Vesting cannot be deployed: ${message}`);
+    };
+    const { ethers } = hre;
+
+    const [signer] = await ethers.getSigners();
+    console.log('Using signer:', signer.address);
+    if (!args.vesting && !args.cto) {
+      fail('--cto is required to deploy a new contract');
+    }
+    if (args.vesting && args.owner) {
+      fail('--owner only applies to a new contract, the owner of --vesting is the one of the contract');
+    }
+    for (const address of [args.cto, args.owner, args.vesting]) {
+      if (address !== undefined && !ethers.isAddress(address)) {
+        fail(`invalid address ${address}`);
+      }
+    }
+    let owner = args.owner ?? signer.address;
+
+    let vesting: CTOTreasuryVesting | undefined;
+    if (args.vesting) {
+      if ((await ethers.provider.getCode(args.vesting)) === '0x') {
+        fail(`no contract at ${args.vesting}`);
+      }
+      vesting = await ethers.getContractAt('CTOTreasuryVesting', args.vesting, signer);
+      owner = await vesting.owner();
+      console.log(`Funding existing deployment ${args.vesting} (beneficiary ${await vesting.CTO()})`);
+    } else {
+      console.log(`Deploying CTOTreasuryVesting with beneficiary ${args.cto} and owner ${owner}`);
+    }
+
+    const funded = vesting !== undefined ? await vesting.contractBalance() : 0n;
+    const released = vesting !== undefined ? await vesting.totalReleased() : 0n;
+    const missing = TOTAL_TOKENS - released - funded;
+    const amount = args.amount !== undefined ? ethers.parseEther(args.amount) : missing > 0n ? missing : 0n;
+    if (amount > missing) {
+      fail(
+        `funding ${ethers.formatEther(amount)} would exceed TOTAL_TOKENS, only ${ethers.formatEther(missing)} missing`,
+      );
+    }
+    const tranche = args.tranche !== undefined ? ethers.parseEther(args.tranche) : amount;
+    if (amount > 0n && tranche === 0n) {
+      fail('tranche must not be zero');
+    }
+    const tranches = splitTranches(amount, tranche);
+    const balance = await ethers.provider.getBalance(signer);
+    console.log(`Funded ${ethers.formatEther(funded)} of ${ethers.formatEther(TOTAL_TOKENS)} tokens`);
+    console.log(`Funding ${ethers.formatEther(amount)} tokens in ${tranches.length} transfer(s)`);
+    console.log('Signer balance:', ethers.formatEther(balance));
+    if (balance < amount) {
+      fail(`signer balance ${ethers.formatEther(balance)} is below the funding amount ${ethers.formatEther(amount)}`);
+    }
+    const fullyFunded = funded + amount + released >= TOTAL_TOKENS;
+    if (args.start) {
+      if (!fullyFunded) {
+        fail('vesting can only be started once the contract holds TOTAL_TOKENS');
+      }
+      if (owner.toLowerCase() !== signer.address.toLowerCase()) {
+        fail(`only the owner ${owner} can start the vesting`);
+      }
+    }
+    if (args.dryRun) {
+      return undefined;
+    }
+
+    if (vesting === undefined) {
+      const deployment = await hre.ignition.deploy(CTOTreasuryVestingModule, {
+        parameters: { CTOTreasuryVestingModule: { cto: args.cto!, owner } },
+        deploymentId: args.deploymentId,
+      });
+      vesting = await ethers.getContractAt('CTOTreasuryVesting', await deployment.vesting.getAddress(), signer);
+      console.log('CTOTreasuryVesting deployed to', await vesting.getAddress());
+      if ((await vesting.contractBalance()) !== 0n) {
+        // a resumed deployment, funding was computed for an empty contract
+        fail(`${await vesting.getAddress()} is already funded, resume it with --vesting`);
+      }
+    }
+
+    const expected = funded + amount;
+    for (const [i, value] of tranches.entries()) {
+      console.log(`Transferring tranche ${i + 1}/${tranches.length} of ${ethers.formatEther(value)} tokens...`);
+      const tx = await signer.sendTransaction({ to: vesting, value });
+      console.log(` - tx: ${tx.hash}`);
+      const receipt = await tx.wait();
+      console.log(` - block: ${receipt?.blockNumber}, gas used: ${receipt?.gasUsed}`);
+    }
+    const contractBalance = await vesting.contractBalance();
+    if (contractBalance !== expected) {
+      throw new HardhatPluginError(
+        'pano-sfc',
+        `Contract balance ${ethers.formatEther(contractBalance)} does not match the funded ${ethers.formatEther(expected)}`,
+      );
+    }
+    console.log('Contract balance verified:', ethers.formatEther(contractBalance));
+
+    if (args.start) {
+      if ((await vesting.startTime()) !== 0n) {
+        console.log('Vesting already started at', (await vesting.startTime()).toString());
+      } else {
+        await sendTx(vesting.interface, 'Starting vesting', () => vesting!.startVesting());
+      }
+    } else {
+      console.log(`The owner ${owner} has to call startVesting() once ready`);
+    }
+    return vesting;
+  });
+
+task('vesting:inspect', 'Print the release schedule of a CTOTreasuryVesting, releasing vested tokens in keeper mode')
+  .addParam('vesting', 'Address of the CTOTreasuryVesting', undefined, types.string)
+  .addFlag('json', 'Print the report as JSON')
+  .addFlag('keeper', 'Call release() when tokens are releasable (the signer must be the CTO or the owner)')
+  .setAction(async (args: InspectVestingArgs, hre): Promise<VestingReport> => {
+    const { ethers } = hre;
+    if ((await ethers.provider.getCode(args.vesting)) === '0x') {
+      throw new HardhatPluginError('pano-sfc', `No contract at ${args.vesting}`);
+    }
+    const vesting = await ethers.getContractAt('CTOTreasuryVesting', args.vesting);
+    // the state is read at a single block, the one the schedule is computed for
+    const block = (await ethers.provider.getBlock('latest'))!;
+    const blockTag = block.number;
+    const timestamp = BigInt(block.timestamp);
+    const params: VestingParams = {
+      startTime: await vesting.startTime({ blockTag }),
+      totalTokens: await vesting.TOTAL_TOKENS(),
+      monthlyRelease: await vesting.MONTHLY_RELEASE(),
+      vestingDuration: await vesting.VESTING_DURATION(),
+      secondsPerMonth: await vesting.SECONDS_PER_MONTH(),
+    };
+    const totalReleased = await vesting.totalReleased({ blockTag });
+    const releasable = await vesting.vestedAmount({ blockTag });
+    if (releasable !== vestedAt(params, totalReleased, timestamp)) {
+      // the contract and the schedule below must agree, otherwise the schedule is not to be trusted
+      throw new HardhatPluginError('pano-sfc', `vestedAmount() ${releasable} does not match the computed schedule`);
+    }
+    const report: VestingReport = {
+      address: await vesting.getAddress(),
+      cto: await vesting.CTO(),
+      owner: await vesting.owner(),
+      params,
+      timestamp,
+      totalReleased,
+      contractBalance: await vesting.contractBalance({ blockTag }),
+      releasable,
+      nextUnlock: nextUnlock(params, timestamp),
+      schedule: vestingSchedule(params).map(row => ({
+        ...row,
+        status:
+          row.cumulative <= totalReleased
+            ? 'released'
+            : params.startTime !== 0n && row.unlockTime <= timestamp
+              ? 'releasable'
+              : 'locked',
+      })),
+    };
+
+    const date = (time: bigint) => new Date(Number(time) * 1000).toISOString();
+    if (!args.json) {
+      console.log(`CTOTreasuryVesting ${report.address} (CTO ${report.cto}, owner ${report.owner})`);
+      console.log(
+        params.startTime === 0n
+          ? 'Vesting not started, unlocks are counted from startVesting()'
+          : `Vesting started at ${date(params.startTime)}`,
+      );
+      console.log(
+        '\n' +
+          formatTable(
+            ['Month', 'Unlock time', 'Amount', 'Cumulative', 'Status'],
+            report.schedule.map(row => [
+              row.month,
+              params.startTime === 0n
+                ? `start + ${(BigInt(row.month) * params.secondsPerMonth) / 86400n} days`
+                : date(row.unlockTime),
+              ethers.formatEther(row.amount),
+              ethers.formatEther(row.cumulative),
+              row.status,
+            ]),
+          ),
+      );
+      console.log(
+        '\n' +
+          formatTable(
+            ['Vesting', 'Value'],
+            [
+              ['totalReleased', ethers.formatEther(totalReleased)],
+              ['contractBalance', ethers.formatEther(report.contractBalance)],
+              ['release() now', ethers.formatEther(releasable)],
+              ['next unlock', report.nextUnlock ? date(report.nextUnlock.unlockTime) : undefined],
+              ['next unlock amount', report.nextUnlock ? ethers.formatEther(report.nextUnlock.amount) : undefined],
+            ],
+          ),
+      );
+    }
+
+    if (args.keeper) {
+      if (releasable === 0n) {
+        console.log(`Nothing to release${report.nextUnlock ? ` until ${date(report.nextUnlock.unlockTime)}` : ''}`);
+      } else {
+        const [signer] = await ethers.getSigners();
+        if (![report.cto, report.owner].includes(signer.address)) {
+          throw new HardhatPluginError('pano-sfc', `Only the CTO or the owner can release, not ${signer.address}`);
+        }
+        if (report.contractBalance < releasable) {
+          throw new HardhatPluginError(
+            'pano-sfc',
+            `Contract balance ${ethers.formatEther(report.contractBalance)} does not cover the releasable ${ethers.formatEther(releasable)}`,
+          );
+        }
+        const receipt = await sendTx(vesting.interface, `Releasing ${ethers.formatEther(releasable)} tokens`, () =>
+          vesting.connect(signer).release(),
+        );
+        for (const log of receipt.logs) {
+          const parsed = vesting.interface.parseLog(log);
+          if (parsed?.name === 'TokensReleased') {
+            report.released = parsed.args.amount;
+          }
+        }
+      }
+    }
+    if (args.json) {
+      console.log(toJson(report));
+    }
+    return report;
+  });
@@ -0,0 +1,109 @@
+import hre, { ethers, upgrades } from 'hardhat';
+import { expect } from 'chai';
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
+import {
+  ADDRESS_BOOK,
+  IMPLEMENTATION_SLOT,
+  NetworkAddresses,
+  checkAddressBook,
+  getAddressBook,
+  loadAddressBook,
+  parseImplementations,
+} from '../lib/AddressBook';
+import { addressBook } from '../tasks/utils';
+
+describe('AddressBook', () => {
+  const fixture = async () => {
+    // place a proxy of a fresh SFC deployment at each of the system addresses
+    const sfcProxy = await upgrades.deployProxy(await ethers.getContractFactory('SFC'), {
+      kind: 'uups',
+      initializer: false,
+    });
+    const proxyCode = await ethers.provider.getCode(sfcProxy);
+    const implementation = await upgrades.erc1967.getImplementationAddress(await sfcProxy.getAddress());
+    for (const entry of Object.values(ADDRESS_BOOK.hardhat)) {
+      await ethers.provider.send('hardhat_setCode', [entry.address, entry.proxy ? proxyCode : '0x00']);
+      if (entry.proxy) {
+        await ethers.provider.send('hardhat_setStorageAt', [
+          entry.address,
+          IMPLEMENTATION_SLOT,
+          ethers.zeroPadValue(implementation, 32),
+        ]);
+      }
+    }
+    return { implementation };
+  };
+
+  beforeEach(async function () {
+    Object.assign(this, await loadFixture(fixture));
+  });
+
+  it('Covers the networks of the Hardhat config', async function () {
+    for (const network of ['pano', 'testnet', 'blaze', 'local', 'hardhat']) {
+      expect(getAddressBook(network).sfc.address).to.equal('0xfc00face00000000000000000000000000000000');
+    }
+    expect(() => getAddressBook('mainnet')).to.throw('Network mainnet is not in the address book');
+  });
+
+  it('Loads addresses matching the chain', async function () {
+    const addresses = await loadAddressBook('hardhat', ethers.provider);
+    const checks = await checkAddressBook(ethers.provider, addresses);
+    expect(checks.map(check => check.error)).to.deep.equal([undefined, undefined, undefined, undefined, undefined]);
+    expect(checks[0].implementation).to.equal(this.implementation);
+  });
+
+  it('Reports addresses without code', async function () {
+    await ethers.provider.send('hardhat_setCode', [ADDRESS_BOOK.hardhat.subsidiesRegistry.address, '0x']);
+    await expect(loadAddressBook('hardhat', ethers.provider)).to.be.rejectedWith(
+      'subsidiesRegistry (0x7d0E23398b6CA0eC7Cdb5b5Aad7F1b11215012d2): no code at the address',
+    );
+  });
+
+  it('Reports empty implementation slots', async function () {
+    await ethers.provider.send('hardhat_setStorageAt', [
+      ADDRESS_BOOK.hardhat.nodeDriver.address,
+      IMPLEMENTATION_SLOT,
+      ethers.ZeroHash,
+    ]);
+    const errors = (await checkAddressBook(ethers.provider, ADDRESS_BOOK.hardhat)).map(check => check.error);
+    expect(errors).to.deep.equal([undefined, 'EIP-1967 implementation slot is empty', undefined, undefined, undefined]);
+    await expect(loadAddressBook('hardhat', ethers.provider)).to.be.rejectedWith(
+      'nodeDriver (0xd100a01e00000000000000000000000000000000): EIP-1967 implementation slot is empty',
+    );
+  });
+
+  it('Reports unexpected implementations', async function () {
+    const other = ethers.Wallet.createRandom().address;
+    const addresses: NetworkAddresses = {
+      ...ADDRESS_BOOK.hardhat,
+      sfc: { ...ADDRESS_BOOK.hardhat.sfc, implementation: this.implementation },
+      nodeDriver: { ...ADDRESS_BOOK.hardhat.nodeDriver, implementation: other },
+    };
+    const errors = (await checkAddressBook(ethers.provider, addresses)).map(check => check.error);
+    expect(errors).to.deep.equal([
+      undefined,
+      `implementation is ${this.implementation}, expected ${other}`,
+      undefined,
+      undefined,
+      undefined,
+    ]);
+
+    // the given implementations override the ones of the book
+    const given = parseImplementations(`nodeDriver=${this.implementation}, sfc=${other}`);
+    const overridden = (await checkAddressBook(ethers.provider, addresses, given)).map(check => check.error);
+    expect(overridden.slice(0, 2)).to.deep.equal([
+      `implementation is ${this.implementation}, expected ${other}`,
+      undefined,
+    ]);
+    await expect(loadAddressBook('hardhat', ethers.provider, { nodeDriverAuth: other })).to.be.rejectedWith(
+      `nodeDriverAuth (0xd100ae0000000000000000000000000000000000): implementation is ${this.implementation}, expected`,
+    );
+    expect(() => parseImplementations(`constants=${other}`)).to.throw('Invalid implementation "constants=');
+  });
+
+  it('Checks the book once per network in the tasks', async function () {
+    const book = await addressBook(hre);
+    await ethers.provider.send('hardhat_setCode', [ADDRESS_BOOK.hardhat.subsidiesRegistry.address, '0x']);
+    expect(await addressBook(hre)).to.equal(book);
+  });
+});
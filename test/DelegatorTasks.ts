@@ -0,0 +1,179 @@
+import hre, { ethers } from 'hardhat';
+import { expect } from 'chai';
+import { loadFixture, time } from '@nomicfoundation/hardhat-network-helpers';
+import { ContractTransactionReceipt } from 'ethers';
+import { SFC } from '../typechain-types';
+import { deployNetwork, fund, randomPubkey, silenceConsole } from './helpers/Network';
+
+describe('Delegator tasks', () => {
+  const fixture = async () => {
+    const [delegator, validator] = await ethers.getSigners();
+    const { sfc, constants, node: blockchainNode } = await deployNetwork(delegator);
+    await constants.updateBaseRewardPerSecond(ethers.parseEther('1'));
+    await fund(delegator, validator);
+
+    await blockchainNode.handleTx(
+      await sfc.connect(validator).createValidator(randomPubkey(), { value: ethers.parseEther('500000') }),
+    );
+    await blockchainNode.sealEpoch(0);
+
+    return { sfc, delegator, validator, blockchainNode };
+  };
+
+  const run = async (name: string, args: object, sfc: SFC): Promise<ContractTransactionReceipt> =>
+    hre.run(name, { ...args, sfc: await sfc.getAddress() });
+
+  const eventNames = (sfc: SFC, receipt: ContractTransactionReceipt) =>
+    receipt.logs.map(log => sfc.interface.parseLog(log)?.name);
+
+  silenceConsole();
+
+  beforeEach(async function () {
+    Object.assign(this, await loadFixture(fixture));
+    this.blockchainNode = this.blockchainNode.clone();
+  });
+
+  it('Delegates tokens', async function () {
+    const receipt = await run('sfc:delegate', { validator: 1n, amount: '1000' }, this.sfc);
+    expect(eventNames(this.sfc, receipt)).to.include('Delegated');
+    expect(await this.sfc.getStake(this.delegator, 1)).to.equal(ethers.parseEther('1000'));
+  });
+
+  it('Decodes custom errors', async function () {
+    await expect(run('sfc:delegate', { validator: 5n, amount: '1' }, this.sfc)).to.be.rejectedWith(
+      'ValidatorNotExists: validator does not exist',
+    );
+    await expect(run('sfc:claim', { validator: 1n }, this.sfc)).to.be.rejectedWith(
+      'ZeroRewards: there are no rewards to claim or restake',
+    );
+    await expect(run('sfc:delegate', { validator: 1n, amount: '7500001' }, this.sfc)).to.be.rejectedWith(
+      'ValidatorDelegationLimitExceeded',
+    );
+    await run('sfc:delegate', { validator: 1n, amount: '10' }, this.sfc);
+    await run('sfc:undelegate', { validator: 1n, amount: '1', wrId: 7n }, this.sfc);
+    await expect(run('sfc:undelegate', { validator: 1n, amount: '1', wrId: 7n }, this.sfc)).to.be.rejectedWith(
+      'RequestExists',
+    );
+  });
+
+  it('Undelegates with the first unused withdrawal request ID and withdraws', async function () {
+    await run('sfc:delegate', { validator: 1n, amount: '1000' }, this.sfc);
+    await run('sfc:undelegate', { validator: 1n, amount: '100' }, this.sfc);
+    await run('sfc:undelegate', { validator: 1n, amount: '200' }, this.sfc);
+    expect((await this.sfc.getWithdrawalRequest(this.delegator, 1, 1)).amount).to.equal(ethers.parseEther('200'));
+
+    await expect(run('sfc:withdraw', { validator: 1n, wrId: 0n }, this.sfc)).to.be.rejectedWith(
+      'NotEnoughTimePassed: withdrawal period time has not passed yet',
+    );
+    await time.increase(60 * 60 * 24 * 7);
+    await expect(run('sfc:withdraw', { validator: 1n, wrId: 0n }, this.sfc)).to.be.rejectedWith(
+      'NotEnoughEpochsPassed',
+    );
+    for (let i = 0; i < 3; i++) {
+      await this.blockchainNode.sealEpoch(1000);
+    }
+    const receipt = await run('sfc:withdraw', { validator: 1n, wrId: 0n }, this.sfc);
+    expect(eventNames(this.sfc, receipt)).to.include('Withdrawn');
+    await expect(run('sfc:withdraw', { validator: 1n, wrId: 0n }, this.sfc)).to.be.rejectedWith('RequestNotExists');
+  });
+
+  it('Tells when a request is withdrawable', async function () {
+    const lines: string[] = [];
+    console.log = (line: string) => lines.push(line);
+    await run('sfc:delegate', { validator: 1n, amount: '1000' }, this.sfc);
+    await run('sfc:undelegate', { validator: 1n, amount: '100' }, this.sfc);
+    await expect(run('sfc:withdraw', { validator: 1n, wrId: 0n }, this.sfc)).to.be.rejectedWith('NotEnoughTimePassed');
+    const request = await this.sfc.getWithdrawalRequest(this.delegator, 1, 0);
+    const after = new Date(Number(request.time + 60n * 60n * 24n * 7n) * 1000).toISOString();
+    expect(lines).to.include(
+      `Withdrawal request of 100.0 tokens, created in epoch 2, withdrawable from epoch 5 (current 2) after ${after}`,
+    );
+
+    // requests to a validator deactivated before them are counted from the deactivation
+    await this.blockchainNode.sealEpoch(1000);
+    await this.blockchainNode.deactivateValidator(1n, 1);
+    const { deactivatedTime } = await this.sfc.getValidator(1);
+    await time.increase(1000);
+    await run('sfc:undelegate', { validator: 1n, amount: '100' }, this.sfc);
+    lines.length = 0;
+    await expect(run('sfc:withdraw', { validator: 1n, wrId: 1n }, this.sfc)).to.be.rejectedWith('NotEnoughTimePassed');
+    const deactivatedAfter = new Date(Number(deactivatedTime + 60n * 60n * 24n * 7n) * 1000).toISOString();
+    expect(lines).to.include(
+      'Withdrawal request of 100.0 tokens, created in epoch 3, withdrawable from epoch 6 (current 3) ' +
+        `after ${deactivatedAfter}, counted from the deactivation of the validator`,
+    );
+  });
+
+  it('Claims, restakes and stashes rewards', async function () {
+    await run('sfc:delegate', { validator: 1n, amount: '1000' }, this.sfc);
+    await this.blockchainNode.sealEpoch(1000);
+    await this.blockchainNode.sealEpoch(1000);
+
+    expect(eventNames(this.sfc, await run('sfc:claim', { validator: 1n }, this.sfc))).to.include('ClaimedRewards');
+    await this.blockchainNode.sealEpoch(1000);
+    expect(eventNames(this.sfc, await run('sfc:restake', { validator: 1n }, this.sfc))).to.include('RestakedRewards');
+    await this.blockchainNode.sealEpoch(1000);
+
+    await run('sfc:stash', { validator: 1n, delegator: this.validator.address }, this.sfc);
+    expect(await this.sfc.rewardsStash(this.validator, 1)).to.be.greaterThan(0);
+    await expect(run('sfc:stash', { validator: 1n }, this.sfc)).to.not.be.rejected;
+    await expect(run('sfc:stash', { validator: 1n }, this.sfc)).to.be.rejectedWith('NothingToStash');
+  });
+
+  it('Reports the portfolio of a delegator', async function () {
+    await run('sfc:delegate', { validator: 1n, amount: '1000' }, this.sfc);
+    await run('sfc:undelegate', { validator: 1n, amount: '100' }, this.sfc);
+    await this.blockchainNode.sealEpoch(1000);
+    await run('sfc:undelegate', { validator: 1n, amount: '200' }, this.sfc);
+    await this.sfc.setRedirectionAuthorizer(this.validator);
+    await this.sfc.connect(this.validator).initiateRedirection(this.delegator, this.validator);
+
+    const args = { delegator: this.delegator.address, sfc: await this.sfc.getAddress() };
+    let portfolio = await hre.run('sfc:portfolio', args);
+    expect(portfolio.delegations).to.have.length(1);
+    expect(portfolio.delegations[0].stake).to.equal(ethers.parseEther('700'));
+    expect(portfolio.delegations[0].pendingRewards).to.equal(await this.sfc.pendingRewards(this.delegator, 1));
+    expect(portfolio.withdrawalRequests.map((r: { wrID: bigint }) => r.wrID)).to.deep.equal([0n, 1n]);
+    expect(portfolio.withdrawalRequests[0].withdrawable).to.equal(false);
+    expect(portfolio.redirection).to.equal(undefined);
+    expect(portfolio.redirectionRequest).to.equal(this.validator.address);
+
+    // withdrawable once both the period time and epochs have passed, the second request is an epoch later
+    await time.increase(60 * 60 * 24 * 7);
+    for (let i = 0; i < 2; i++) {
+      await this.blockchainNode.sealEpoch(1000);
+    }
+    portfolio = await hre.run('sfc:portfolio', args);
+    expect(portfolio.withdrawalRequests.map((r: { withdrawable: boolean }) => r.withdrawable)).to.deep.equal([
+      true,
+      false,
+    ]);
+    await run('sfc:withdraw', { validator: 1n, wrId: 0n }, this.sfc);
+    await this.sfc.redirect(this.validator);
+
+    // slashing of the validator with a refund ratio of 25%
+    await this.blockchainNode.deactivateValidator(1n, 128);
+    await this.sfc.updateSlashingRefundRatio(1, ethers.parseEther('0.25'));
+    portfolio = await hre.run('sfc:portfolio', args);
+    expect(portfolio.redirection).to.equal(this.validator.address);
+    expect(portfolio.withdrawalRequests).to.have.length(1);
+    const [delegation] = portfolio.delegations;
+    expect(delegation.slashed).to.equal(true);
+    expect(delegation.slashingPenalty).to.equal(ethers.parseEther('525') + 1n);
+
+    const lines: string[] = [];
+    console.log = (line: string) => lines.push(line);
+    await hre.run('sfc:portfolio', { ...args, format: 'csv' });
+    const csv = lines[0].split('\n');
+    expect(csv[0]).to.match(/^delegator,receiver,type,validator,wr_id,amount,/);
+    expect(csv[1]).to.equal(
+      `${this.delegator.address},${this.validator.address},stake,1,,700.0,` +
+        `${ethers.formatEther(delegation.pendingRewards)},${ethers.formatEther(delegation.rewardsStash)},` +
+        `${delegation.stashedRewardsUntilEpoch},,,,true,0.25,525.000000000000000001`,
+    );
+    expect(csv[2]).to.match(/^[^,]+,[^,]+,withdrawal-request,1,1,200.0,/);
+    await hre.run('sfc:portfolio', { ...args, format: 'json' });
+    expect(JSON.parse(lines[1]).delegations[0].stake).to.equal(ethers.parseEther('700').toString());
+    await expect(hre.run('sfc:portfolio', { ...args, format: 'xml' })).to.be.rejectedWith('Unknown format xml');
+  });
+});
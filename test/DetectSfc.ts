@@ -0,0 +1,108 @@
+import hre, { ethers } from 'hardhat';
+import { expect } from 'chai';
+import { SnapshotRestorer, takeSnapshot } from '@nomicfoundation/hardhat-network-helpers';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SYSTEM_CONTRACTS, getImplementation } from '../lib/AddressBook';
+import { generateGenesis } from '../lib/Genesis';
+import { main as audit } from '../scripts/detectSfc';
+import { applyGenesis, silenceConsole } from './helpers/Network';
+
+describe('Network audit', () => {
+  const owner = ethers.Wallet.createRandom().address;
+  const validator = ethers.Wallet.createRandom();
+  let snapshot: SnapshotRestorer;
+  let dir: string;
+
+  // the system contracts at the addresses of the book, left behind for no other test
+  before(async () => {
+    snapshot = await takeSnapshot();
+    const genesis = await generateGenesis(hre.artifacts, {
+      rules: { Name: 'pano-audit-test' },
+      blockZeroTime: '2026-03-01T00:00:00+01:00',
+      owner,
+      validators: [
+        {
+          address: validator.address,
+          pubkey: ethers.concat(['0xc0', validator.signingKey.publicKey]),
+          stake: '5000000',
+          balance: '100',
+        },
+      ],
+    });
+    await applyGenesis(genesis);
+    // the genesis stakes are minted by the node
+    await ethers.provider.send('hardhat_setBalance', [
+      SYSTEM_CONTRACTS.sfc.address,
+      ethers.toBeHex(ethers.parseEther('5000000')),
+    ]);
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'audit-'));
+  });
+
+  after(async () => {
+    fs.rmSync(dir, { recursive: true, force: true });
+    await snapshot.restore();
+  });
+
+  silenceConsole();
+
+  const run = async (env: Record<string, string>) => {
+    const file = path.join(dir, 'audit.json');
+    Object.assign(process.env, { AUDIT_JSON: file, ...env });
+    try {
+      await audit();
+      return { exitCode: process.exitCode, report: JSON.parse(fs.readFileSync(file, 'utf8')) };
+    } finally {
+      for (const name of ['AUDIT_JSON', ...Object.keys(env)]) {
+        delete process.env[name];
+      }
+      process.exitCode = undefined;
+    }
+  };
+  const result = (report: { checks: { name: string; ok: boolean; details: string }[] }, name: string) =>
+    report.checks.find(check => check.name === name);
+
+  it('Passes a network matching the address book and the expectations', async () => {
+    const sfc = await ethers.getContractAt('SFC', SYSTEM_CONTRACTS.sfc.address);
+    const consts = await sfc.constsAddress();
+    const { exitCode, report } = await run({
+      EXPECTED_OWNER: owner,
+      EXPECTED_CONSTS: consts,
+      EXPECTED_IMPLEMENTATIONS: `sfc=${await getImplementation(ethers.provider, sfc)}`,
+    });
+    expect(exitCode).to.equal(undefined);
+    expect(report.ok).to.equal(true);
+    expect(result(report, 'SFC constsAddress')!.ok).to.equal(true);
+    expect(report.contracts.map((c: { owner: string }) => c.owner)).to.deep.equal(Array(5).fill(owner));
+    expect(report.totals.lastValidatorID).to.equal('1');
+
+    // without an expected ConstantsManager only its code is checked, with a warning
+    const unchecked = (await run({})).report;
+    expect(unchecked.ok).to.equal(true);
+    expect(result(unchecked, 'SFC constsAddress expected')).to.deep.include({ ok: false, warning: true });
+  });
+
+  it('Fails on another ConstantsManager, owner or implementation', async () => {
+    const { exitCode, report } = await run({
+      EXPECTED_OWNER: owner,
+      EXPECTED_CONSTS: ethers.Wallet.createRandom().address,
+    });
+    expect(exitCode).to.equal(1);
+    expect(report.ok).to.equal(false);
+    expect(report.checks.filter((c: { ok: boolean; warning?: boolean }) => !c.ok && !c.warning)).to.have.length(1);
+    expect(result(report, 'SFC constsAddress')!.ok).to.equal(false);
+
+    const otherOwner = (await run({ EXPECTED_OWNER: ethers.Wallet.createRandom().address })).report;
+    expect(otherOwner.ok).to.equal(false);
+    expect(result(otherOwner, 'SFC owner')!.ok).to.equal(false);
+
+    const implementation = ethers.Wallet.createRandom().address;
+    const otherImplementation = (await run({ EXPECTED_IMPLEMENTATIONS: `nodeDriverAuth=${implementation}` })).report;
+    expect(otherImplementation.ok).to.equal(false);
+    expect(result(otherImplementation, 'nodeDriverAuth deployed')).to.deep.include({ ok: false });
+    expect(result(otherImplementation, 'nodeDriverAuth deployed')!.details).to.match(
+      new RegExp(`^implementation is 0x[0-9a-fA-F]{40}, expected ${implementation}$`),
+    );
+  });
+});
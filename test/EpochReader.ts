@@ -0,0 +1,140 @@
+import { ethers } from 'hardhat';
+import { expect } from 'chai';
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
+import { TransactionRequest, makeError } from 'ethers';
+import { SFC } from '../typechain-types';
+import { EpochReader, EpochSnapshot } from '../lib/EpochReader';
+import { ValidatorMetrics } from './helpers/BlockchainNode';
+import { deployNetwork, fund, randomPubkey } from './helpers/Network';
+
+describe('EpochReader', () => {
+  const fixture = async () => {
+    const [owner, ...accounts] = await ethers.getSigners();
+    const { sfc, constants, node } = await deployNetwork(owner);
+    await constants.updateBaseRewardPerSecond(ethers.parseEther('1'));
+
+    for (const account of accounts.slice(0, 3)) {
+      await fund(account);
+      await node.handleTx(
+        await sfc.connect(account).createValidator(randomPubkey(), { value: ethers.parseEther('500000') }),
+      );
+    }
+    await node.sealEpoch(0);
+    for (let i = 0; i < 3; i++) {
+      await node.sealEpoch(1000, new Map([[2n, new ValidatorMetrics(100 * i, 10 * i, 1000 - 100 * i, BigInt(i))]]));
+    }
+    const multicall = await ethers.deployContract('TestingMulticall3');
+    return { sfc, node, multicall: await multicall.getAddress() };
+  };
+
+  // snapshots read with the individual getters
+  const readDirectly = async (sfc: SFC, epoch: bigint): Promise<EpochSnapshot> => ({
+    epoch,
+    endBlock: await sfc.getEpochEndBlock(epoch),
+    endTime: await sfc.epochEndTime(epoch),
+    validators: await Promise.all(
+      (await sfc.getEpochValidatorIDs(epoch)).map(async validatorID => ({
+        validatorID,
+        receivedStake: await sfc.getEpochReceivedStake(epoch, validatorID),
+        accumulatedRewardPerToken: await sfc.getEpochAccumulatedRewardPerToken(epoch, validatorID),
+        accumulatedUptime: await sfc.getEpochAccumulatedUptime(epoch, validatorID),
+        averageUptime: await sfc.getEpochAverageUptime(epoch, validatorID),
+        accumulatedOriginatedTxsFee: await sfc.getEpochAccumulatedOriginatedTxsFee(epoch, validatorID),
+        offlineTime: await sfc.getEpochOfflineTime(epoch, validatorID),
+        offlineBlocks: await sfc.getEpochOfflineBlocks(epoch, validatorID),
+      })),
+    ),
+  });
+
+  // provider counting the eth_calls in flight, failing the calls selected by fail()
+  const instrumentedProvider = (fail: (call: number) => Error | undefined = () => undefined) => {
+    const stats = { calls: 0, inFlight: 0, maxInFlight: 0 };
+    const provider = {
+      getBlockNumber: () => ethers.provider.getBlockNumber(),
+      call: async (tx: TransactionRequest) => {
+        const error = fail(stats.calls++);
+        if (error) {
+          throw error;
+        }
+        stats.maxInFlight = Math.max(stats.maxInFlight, ++stats.inFlight);
+        try {
+          await new Promise(resolve => setTimeout(resolve, 1));
+          return await ethers.provider.call(tx);
+        } finally {
+          stats.inFlight--;
+        }
+      },
+    };
+    return { provider, stats };
+  };
+
+  beforeEach(async function () {
+    Object.assign(this, await loadFixture(fixture));
+    this.node = this.node.clone();
+  });
+
+  it('Reads the same snapshots as the individual getters', async function () {
+    const epochs = [1n, 2n, 3n, 4n];
+    const expected = await Promise.all(epochs.map(epoch => readDirectly(this.sfc, epoch)));
+    expect(expected[3].validators).to.have.length(3);
+
+    const direct = new EpochReader(ethers.provider, await this.sfc.getAddress(), { batchSize: 7 });
+    expect(await direct.readEpochs(epochs)).to.deep.equal(expected);
+    // block number, currentSealedEpoch, 3 views per epoch and 7 per validator
+    expect(direct.requests).to.equal(2 + 3 * 4 + 7 * 9);
+
+    const batched = new EpochReader(ethers.provider, await this.sfc.getAddress(), { multicall: this.multicall });
+    expect(await batched.readEpochs(epochs)).to.deep.equal(expected);
+    expect(batched.requests).to.equal(4);
+  });
+
+  it('Caches sealed epochs only', async function () {
+    const reader = new EpochReader(ethers.provider, await this.sfc.getAddress(), { multicall: this.multicall });
+    const [, current] = await reader.readEpochs([4n, 5n]);
+    expect(current.endTime).to.equal(0n);
+    expect(reader.requests).to.equal(4);
+
+    // the sealed epoch is served from the cache, the current one is read again
+    await reader.readEpochs([4n]);
+    expect(reader.requests).to.equal(6);
+    await this.node.sealEpoch(1000);
+    const [sealed, cached] = await reader.readEpochs([5n, 4n]);
+    expect(sealed).to.deep.equal(await readDirectly(this.sfc, 5n));
+    expect(sealed.endTime).to.not.equal(0n);
+    expect(cached.epoch).to.equal(4n);
+    expect(reader.requests).to.equal(10);
+  });
+
+  it('Limits the batches in flight', async function () {
+    const { provider, stats } = instrumentedProvider();
+    const reader = new EpochReader(provider, await this.sfc.getAddress(), {
+      multicall: this.multicall,
+      batchSize: 4,
+      concurrency: 2,
+    });
+    await reader.readEpochs([1n, 2n, 3n, 4n]);
+    expect(stats.calls).to.equal(1 + 3 + 16);
+    expect(stats.maxInFlight).to.equal(2);
+  });
+
+  it('Retries failed batches but not reverts', async function () {
+    const transient = instrumentedProvider(call => (call < 2 ? new Error('connection reset') : undefined));
+    const reader = new EpochReader(transient.provider, await this.sfc.getAddress(), {
+      multicall: this.multicall,
+      retryDelay: 1,
+    });
+    expect(await reader.readEpochs([4n])).to.deep.equal([await readDirectly(this.sfc, 4n)]);
+
+    const reverting = instrumentedProvider(() => makeError('execution reverted', 'CALL_EXCEPTION'));
+    await expect(
+      new EpochReader(reverting.provider, await this.sfc.getAddress(), { retryDelay: 1 }).readEpochs([4n]),
+    ).to.be.rejectedWith('execution reverted');
+    expect(reverting.stats.calls).to.equal(1);
+
+    const failing = instrumentedProvider(() => new Error('connection reset'));
+    await expect(
+      new EpochReader(failing.provider, await this.sfc.getAddress(), { retries: 2, retryDelay: 1 }).readEpochs([4n]),
+    ).to.be.rejectedWith('connection reset');
+    expect(failing.stats.calls).to.equal(3);
+  });
+});
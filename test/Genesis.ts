@@ -0,0 +1,98 @@
+import hre, { ethers } from 'hardhat';
+import { expect } from 'chai';
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
+import { SYSTEM_CONTRACTS } from '../lib/AddressBook';
+import { GenesisConfig, INITIALIZABLE_SLOT, formatGenesis, generateGenesis } from '../lib/Genesis';
+import { applyGenesis } from './helpers/Network';
+
+describe('Genesis', () => {
+  const validators = [1, 2].map(() => ethers.Wallet.createRandom());
+  const delegator = ethers.Wallet.createRandom();
+
+  const config: GenesisConfig = {
+    rules: { Name: 'pano-genesis-test' },
+    blockZeroTime: '2026-03-01T00:00:00+01:00',
+    owner: validators[0].address,
+    validators: validators.map((v, i) => ({
+      address: v.address,
+      pubkey: ethers.concat(['0xc0', v.signingKey.publicKey]),
+      stake: i === 0 ? '5000000' : '1000000',
+      balance: '100',
+    })),
+    delegations: [{ delegator: delegator.address, validatorID: 2, stake: '250000' }],
+    accounts: [{ name: 'faucet', address: delegator.address, balance: '1000' }],
+  };
+
+  const fixture = async () => {
+    const genesis = await generateGenesis(hre.artifacts, config);
+    await applyGenesis(genesis);
+    const sfc = await ethers.getContractAt('SFC', SYSTEM_CONTRACTS.sfc.address);
+    return { genesis, sfc };
+  };
+
+  beforeEach(async function () {
+    Object.assign(this, await loadFixture(fixture));
+  });
+
+  it('Initializes the SFC with genesis validators and delegations', async function () {
+    expect(await this.sfc.owner()).to.equal(validators[0].address);
+    expect(await this.sfc.lastValidatorID()).to.equal(2);
+    expect(await this.sfc.getSelfStake(1)).to.equal(ethers.parseEther('5000000'));
+    expect(await this.sfc.getStake(delegator, 2)).to.equal(ethers.parseEther('250000'));
+    expect(await this.sfc.totalStake()).to.equal(ethers.parseEther('6250000'));
+    // account balances and the minted stakes
+    expect(await this.sfc.totalSupply()).to.equal(ethers.parseEther('6251200'));
+    expect((await this.sfc.getValidator(2)).createdTime).to.equal(Date.parse(config.blockZeroTime) / 1000);
+
+    const constants = await ethers.getContractAt('ConstantsManager', await this.sfc.constsAddress());
+    expect(await constants.owner()).to.equal(validators[0].address);
+    expect(await constants.minSelfStake()).to.equal(ethers.parseEther('500000'));
+
+    const registry = await ethers.getContractAt('SubsidiesRegistry', SYSTEM_CONTRACTS.subsidiesRegistry.address);
+    expect(await registry.owner()).to.equal(validators[0].address);
+  });
+
+  it('Fills in the implementation address and disables implementation initializers', async function () {
+    const implementation = this.genesis.accounts.find(
+      (a: { name?: string }) => a.name === 'SFC contract (Implementation)',
+    );
+    expect(implementation.address).to.equal(ethers.getAddress('0xfc00face00000000000000000000000000000001'));
+    expect(implementation.storage[INITIALIZABLE_SLOT]).to.equal(ethers.zeroPadValue('0xffffffffffffffff', 32));
+
+    const sfcImplementation = await ethers.getContractAt('SFC', implementation.address);
+    // UUPS proxiableUUID() is only callable on the implementation at its own address
+    expect(await sfcImplementation.proxiableUUID()).to.equal(
+      '0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc',
+    );
+    await expect(
+      sfcImplementation.initialize(0, 0, ethers.ZeroAddress, ethers.ZeroAddress, ethers.ZeroAddress),
+    ).to.be.revertedWithCustomError(sfcImplementation, 'InvalidInitialization');
+  });
+
+  it('Keeps the proxies upgradeable by the owner', async function () {
+    const owner = await ethers.getImpersonatedSigner(validators[0].address);
+    const newImplementation = await ethers.deployContract('SFC');
+    await this.sfc.connect(owner).upgradeToAndCall(newImplementation, '0x');
+    expect(await this.sfc.lastValidatorID()).to.equal(2);
+  });
+
+  it('Writes balances as JSON numbers', async function () {
+    expect(formatGenesis(this.genesis)).to.contain('"balance": 100000000000000000000\n');
+  });
+
+  it('Rejects invalid validators and delegations', async function () {
+    const invalidPubkey = { ...config, validators: [{ ...config.validators[0], pubkey: '0xc004' }] };
+    await expect(generateGenesis(hre.artifacts, invalidPubkey)).to.be.rejectedWith('Validator 1: pubkey must be');
+    const sharedPubkey = {
+      ...config,
+      validators: [config.validators[0], { ...config.validators[1], pubkey: config.validators[0].pubkey }],
+    };
+    await expect(generateGenesis(hre.artifacts, sharedPubkey)).to.be.rejectedWith(
+      'Validator 2: pubkey is used by another validator',
+    );
+    const duplicateValidator = { ...config, validators: [config.validators[0], config.validators[0]] };
+    await expect(generateGenesis(hre.artifacts, duplicateValidator)).to.be.rejectedWith('Duplicate genesis account');
+    const unknownValidator = { ...config, delegations: [{ delegator: delegator.address, validatorID: 3, stake: '1' }] };
+    await expect(generateGenesis(hre.artifacts, unknownValidator)).to.be.rejectedWith('validator 3 does not exist');
+  });
+});
@@ -0,0 +1,403 @@
+import hre, { ethers } from 'hardhat';
+import { expect } from 'chai';
+import { loadFixture, time } from '@nomicfoundation/hardhat-network-helpers';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BaseContract } from 'ethers';
+import { ConstantsManager } from '../typechain-types';
+import { CONSTANTS, readConstants, validateConstants } from '../lib/ConstantsPlan';
+import { NetworkRules, diffRules, encodeRulesDiff, mergeRules, validateRules } from '../lib/NetworkRules';
+import { SafeBatch, parseCallSpec } from '../lib/SafeBatch';
+import { deployNetwork, silenceConsole } from './helpers/Network';
+
+describe('Governance tasks', () => {
+  const fixture = async () => {
+    const [owner, other] = await ethers.getSigners();
+    const { sfc, nodeDriver, nodeDriverAuth, constants } = await deployNetwork(owner);
+    return {
+      sfc,
+      constants,
+      owner,
+      other,
+      nodeDriver: await nodeDriver.getAddress(),
+      nodeDriverAuth: await nodeDriverAuth.getAddress(),
+    };
+  };
+
+  // send the transactions of a batch as the Safe would execute them
+  const execute = async (batch: SafeBatch, safe: string) => {
+    const signer = await ethers.getImpersonatedSigner(safe);
+    for (const tx of batch.transactions) {
+      await signer.sendTransaction({ to: tx.to, data: tx.data, value: tx.value });
+    }
+  };
+
+  silenceConsole();
+
+  beforeEach(async function () {
+    Object.assign(this, await loadFixture(fixture));
+    this.propose = async (calls: string[], args: object = {}) =>
+      hre.run('gov:propose', {
+        calls,
+        sfc: await this.sfc.getAddress(),
+        nodeDriverAuth: this.nodeDriverAuth,
+        ...args,
+      });
+  });
+
+  it('Parses call specs', async function () {
+    expect(parseCallSpec('sfc.updateSlashingRefundRatio(1, 500000000000000000)')).to.deep.equal({
+      contract: 'sfc',
+      method: 'updateSlashingRefundRatio',
+      args: ['1', '500000000000000000'],
+    });
+    expect(parseCallSpec('nodeDriverAuth.advanceEpochs()').args).to.deep.equal([]);
+    expect(() => parseCallSpec('updateMinSelfStake(1)')).to.throw('expected contract.method(arg, ...)');
+  });
+
+  it('Builds a Safe batch with summaries and leaves the chain unchanged', async function () {
+    const treasury = ethers.Wallet.createRandom().address;
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'proposal-'));
+    try {
+      const out = path.join(dir, 'proposal.json');
+      const proposal = await this.propose(
+        [
+          `constants.updateMinSelfStake(${ethers.parseEther('600000')})`,
+          `constants.updateWithdrawalPeriodTime(${14 * 24 * 3600})`,
+          `sfc.updateTreasuryAddress(${treasury})`,
+        ],
+        { out },
+      );
+      expect(proposal.calls).to.deep.equal([
+        {
+          summary: 'ConstantsManager.updateMinSelfStake(v=600000.0 tokens)',
+          before: '500000.0 tokens',
+          after: '600000.0 tokens',
+        },
+        {
+          summary: 'ConstantsManager.updateWithdrawalPeriodTime(v=1209600s (14 days))',
+          before: '604800s (7 days)',
+          after: '1209600s (14 days)',
+        },
+        {
+          summary: `SFC.updateTreasuryAddress(v=${treasury})`,
+          before: ethers.ZeroAddress,
+          after: treasury,
+        },
+      ]);
+      // the simulation is reverted
+      expect(await this.constants.minSelfStake()).to.equal(ethers.parseEther('500000'));
+
+      const batch: SafeBatch = JSON.parse(fs.readFileSync(out, 'utf8'));
+      expect(batch.chainId).to.equal('31337');
+      expect(batch.meta.createdFromSafeAddress).to.equal(this.owner.address);
+      expect(batch.meta.description.split('\n')).to.deep.equal(
+        proposal.calls.map((call: { summary: string }) => call.summary),
+      );
+      expect(batch.transactions[0].contractMethod.name).to.equal('updateMinSelfStake');
+      expect(batch.transactions[0].contractInputsValues).to.deep.equal({ v: ethers.parseEther('600000').toString() });
+      expect(batch.transactions[2].to).to.equal(await this.sfc.getAddress());
+
+      await execute(batch, this.owner.address);
+      expect(await this.constants.minSelfStake()).to.equal(ethers.parseEther('600000'));
+      expect(await this.sfc.treasuryAddress()).to.equal(treasury);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('Rejects calls failing in the simulation or not owned by the Safe', async function () {
+    await expect(this.propose(['constants.updateMinSelfStake(1)'])).to.be.rejectedWith(
+      'Simulation of ConstantsManager.updateMinSelfStake(v=0.000000000000000001 tokens) failed: ValueTooSmall',
+    );
+    await expect(this.propose(['constants.minSelfStake()'])).to.be.rejectedWith('is not a state changing function');
+    await expect(this.propose(['vesting.startVesting()'])).to.be.rejectedWith('Unknown contract vesting');
+    await expect(this.propose(['nodeDriverAuth.advanceEpochs(1)'], { safe: this.other.address })).to.be.rejectedWith(
+      `NodeDriverAuth is owned by ${this.owner.address}, not by ${this.other.address}`,
+    );
+  });
+
+  it('Schedules the calls through a timelock', async function () {
+    const timelock = await ethers.deployContract('TestingTimelock', [
+      3600,
+      [this.other],
+      [this.other],
+      ethers.ZeroAddress,
+    ]);
+    await this.constants.transferOwnership(timelock);
+    const proposal = await this.propose([`constants.updateValidatorCommission(${ethers.parseEther('0.1')})`], {
+      safe: this.other.address,
+      timelock: await timelock.getAddress(),
+    });
+    expect(proposal.calls[0].after).to.equal('10.0%');
+    expect(proposal.batch.transactions[0].contractMethod.name).to.equal('scheduleBatch');
+    expect(proposal.execute.transactions[0].contractMethod.name).to.equal('executeBatch');
+    expect(proposal.batch.meta.description).to.equal('ConstantsManager.updateValidatorCommission(v=10.0%)');
+
+    await execute(proposal.batch, this.other.address);
+    await expect(execute(proposal.execute, this.other.address)).to.be.rejected;
+    await time.increase(3600);
+    await execute(proposal.execute, this.other.address);
+    expect(await this.constants.validatorCommission()).to.equal(ethers.parseEther('0.1'));
+  });
+
+  describe('Constants plan', () => {
+    beforeEach(function () {
+      this.dir = fs.mkdtempSync(path.join(os.tmpdir(), 'constants-'));
+      this.plan = async (config: object, args: object = {}) => {
+        const file = path.join(this.dir, 'constants.json');
+        fs.writeFileSync(file, JSON.stringify(config));
+        return hre.run('gov:constants', { targets: file, sfc: await this.sfc.getAddress(), ...args });
+      };
+    });
+
+    afterEach(function () {
+      fs.rmSync(this.dir, { recursive: true, force: true });
+    });
+
+    it('Mirrors the bounds of the ConstantsManager setters', async function () {
+      const manager: ConstantsManager = await ethers.deployContract('ConstantsManager', [this.owner]);
+      const setters = manager.interface.fragments
+        .filter(fragment => fragment.type === 'function' && 'name' in fragment)
+        .map(fragment => (fragment as unknown as { name: string }).name)
+        .filter(name => name.startsWith('update'));
+      expect(CONSTANTS.map(spec => spec.setter)).to.have.members(setters);
+
+      const current = await readConstants(manager);
+      for (const spec of CONSTANTS.filter(spec => spec.unit !== 'address')) {
+        const values = [0n, spec.min, spec.max, spec.min && spec.min - 1n, spec.max && spec.max + 1n];
+        for (const value of values.filter(value => value !== undefined && value >= 0n) as bigint[]) {
+          const [violation] = validateConstants({ [spec.name]: value }, current);
+          const update = manager.getFunction(spec.setter).staticCall(value);
+          if (violation) {
+            await expect(update, `${spec.name} ${value}`).to.be.revertedWithCustomError(manager, violation.error);
+          } else {
+            await expect(update, `${spec.name} ${value}`).to.not.be.reverted;
+          }
+        }
+      }
+
+      // the fee shares are bounded by their sum
+      await manager.updateTreasuryFeeShare(ethers.parseEther('0.9'));
+      const shares = await readConstants(manager);
+      expect(validateConstants({ burntFeeShare: ethers.parseEther('0.1') }, shares)).to.deep.equal([]);
+      await expect(manager.updateBurntFeeShare.staticCall(ethers.parseEther('0.1'))).to.not.be.reverted;
+      const [violation] = validateConstants({ burntFeeShare: ethers.parseEther('0.1') + 1n }, shares);
+      expect(violation.error).to.equal('ValueTooLarge');
+      await expect(manager.updateBurntFeeShare(ethers.parseEther('0.1') + 1n)).to.be.revertedWithCustomError(
+        manager,
+        'ValueTooLarge',
+      );
+    });
+
+    it('Orders the updates and proposes the changed constants only', async function () {
+      const report = await this.plan({
+        minSelfStake: '500000',
+        burntFeeShare: '0.8',
+        treasuryFeeShare: '0.1',
+        withdrawalPeriodEpochs: 4,
+      });
+      expect(report.plan.changes.map((change: { name: string }) => change.name)).to.deep.equal([
+        'burntFeeShare',
+        'treasuryFeeShare',
+        'withdrawalPeriodEpochs',
+      ]);
+      // the treasury share is lowered first, the sum of the shares would exceed 1 otherwise
+      expect(report.plan.calls.map((call: { method: string }) => call.method)).to.deep.equal([
+        'updateTreasuryFeeShare',
+        'updateWithdrawalPeriodEpochs',
+        'updateBurntFeeShare',
+      ]);
+      await execute(report.proposal.batch, this.owner.address);
+      expect(await this.constants.burntFeeShare()).to.equal(ethers.parseEther('0.8'));
+      expect(await this.constants.treasuryFeeShare()).to.equal(ethers.parseEther('0.1'));
+      expect(await this.constants.withdrawalPeriodEpochs()).to.equal(4);
+
+      expect((await this.plan({ withdrawalPeriodEpochs: '4' })).proposal).to.equal(undefined);
+    });
+
+    it('Rejects targets out of the bounds before proposing', async function () {
+      await expect(this.plan({ minSelfStake: '99999', burntFeeShare: '0.2' })).to.be.rejectedWith(
+        /ValueTooSmall: minSelfStake .*\n - ValueTooLarge: burntFeeShare \+ treasuryFeeShare/,
+      );
+      await expect(this.plan({ minSelfStakes: '500000' })).to.be.rejectedWith('Unknown constant minSelfStakes');
+      await expect(this.plan({ withdrawalPeriodEpochs: '2.5' })).to.be.rejectedWith('must be a non-negative integer');
+    });
+
+    it('Defaults the constants missing in an older ConstantsManager', async function () {
+      // extraRewardsBurnRatio() reverts without data, as on a ConstantsManager deployed before it was added
+      const missing = this.constants.attach(await this.sfc.getAddress());
+      const legacy = {
+        getFunction: (name: string) => (name === 'extraRewardsBurnRatio' ? missing : this.constants).getFunction(name),
+      };
+      const current = await readConstants(legacy as unknown as BaseContract);
+      expect(current.extraRewardsBurnRatio).to.equal(ethers.parseEther('0.5'));
+      expect(current.minSelfStake).to.equal(await this.constants.minSelfStake());
+    });
+
+    it('Migrates to a new ConstantsManager', async function () {
+      const report = await this.plan({ minSelfStake: '600000' }, { migrate: true });
+      const migrated: ConstantsManager = await ethers.getContractAt('ConstantsManager', report.migratedTo);
+      expect(await migrated.owner()).to.equal(this.owner.address);
+      expect(await migrated.minSelfStake()).to.equal(ethers.parseEther('600000'));
+      for (const spec of CONSTANTS.filter(spec => spec.name !== 'minSelfStake')) {
+        expect(await migrated.getFunction(spec.name)()).to.equal(await this.constants.getFunction(spec.name)());
+      }
+      expect(report.proposal.calls[0].summary).to.equal(`SFC.updateConstsAddress(v=${report.migratedTo})`);
+      await execute(report.proposal.batch, this.owner.address);
+      expect(await this.sfc.constsAddress()).to.equal(report.migratedTo);
+    });
+
+    it('Checks the proposal of a migration before deploying', async function () {
+      const nonce = await this.owner.getNonce();
+      await expect(
+        this.plan({ minSelfStake: '600000' }, { migrate: true, safe: this.other.address }),
+      ).to.be.rejectedWith(`SFC is owned by ${this.owner.address}, not by ${this.other.address}`);
+      expect(await this.owner.getNonce()).to.equal(nonce);
+    });
+  });
+
+  describe('Network rules', () => {
+    const genesisRules: NetworkRules = JSON.parse(fs.readFileSync('example-genesis.json', 'utf8')).rules;
+
+    beforeEach(function () {
+      this.dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rules-'));
+      this.networkRules = async (rules: object, args: object = {}) => {
+        const file = path.join(this.dir, 'rules.json');
+        fs.writeFileSync(file, JSON.stringify(rules));
+        return hre.run('gov:network-rules', {
+          rules: file,
+          current: 'example-genesis.json',
+          sfc: await this.sfc.getAddress(),
+          nodeDriver: this.nodeDriver,
+          nodeDriverAuth: this.nodeDriverAuth,
+          ...args,
+        });
+      };
+    });
+
+    afterEach(function () {
+      fs.rmSync(this.dir, { recursive: true, force: true });
+    });
+
+    it('Computes minimal diffs of valid rules', async function () {
+      expect(validateRules(genesisRules)).to.deep.equal([]);
+      const desired = mergeRules(genesisRules, { Economy: { MinBaseFee: 1, Gas: { EventGas: 30000 } } });
+      expect(desired.Economy.ShortGasPower).to.deep.equal(genesisRules.Economy.ShortGasPower);
+      expect(diffRules(genesisRules, desired)).to.deep.equal({ Economy: { MinBaseFee: 1, Gas: { EventGas: 30000 } } });
+      expect(diffRules(genesisRules, { ...genesisRules })).to.equal(undefined);
+
+      const { Dag, ...withoutDag } = genesisRules;
+      expect(Dag).to.not.equal(undefined);
+      expect(validateRules(withoutDag)).to.deep.equal(['Dag is missing']);
+      expect(validateRules({ Economy: { MinBaseFee: -1 }, Upgrades: { Brio: 'yes' }, Foo: 1 }, true)).to.deep.equal([
+        'Foo is not a network rule',
+        'Economy.MinBaseFee must be a non-negative integer, got -1',
+        'Upgrades.Brio must be a boolean, got "yes"',
+      ]);
+    });
+
+    it('Proposes the diff from the rules updated since the genesis', async function () {
+      const nodeDriverAuth = await ethers.getContractAt('NodeDriverAuth', this.nodeDriverAuth);
+      await nodeDriverAuth.updateNetworkRules(encodeRulesDiff({ Economy: { MinBaseFee: 1 } }));
+      // ignored by the client as well
+      await nodeDriverAuth.updateNetworkRules(ethers.toUtf8Bytes('{"key":"value"}'));
+
+      const report = await this.networkRules({
+        Economy: { MinBaseFee: 1, Gas: { EventGas: 30000 } },
+        Upgrades: { Brio: true },
+      });
+      expect(report.current.Economy.MinBaseFee).to.equal(1);
+      const diff = { Economy: { Gas: { EventGas: 30000 } }, Upgrades: { Brio: true } };
+      expect(report.diff).to.deep.equal(diff);
+      expect(report.proposal.calls[0].summary).to.equal(
+        `NodeDriverAuth.updateNetworkRules(diff=${encodeRulesDiff(diff)})`,
+      );
+
+      const nodeDriver = await ethers.getContractAt('NodeDriver', this.nodeDriver);
+      const [tx] = report.proposal.batch.transactions;
+      await expect(this.owner.sendTransaction({ to: tx.to, data: tx.data }))
+        .to.emit(nodeDriver, 'UpdateNetworkRules')
+        .withArgs(ethers.toUtf8Bytes(JSON.stringify(diff)));
+
+      // applied now
+      expect((await this.networkRules({ Upgrades: { Brio: true } })).diff).to.equal(undefined);
+    });
+
+    it('Rejects invalid and immutable rules', async function () {
+      await expect(this.networkRules({ Economy: { MinBaseFee: '1' } })).to.be.rejectedWith(
+        'Economy.MinBaseFee must be a non-negative integer, got "1"',
+      );
+      await expect(this.networkRules({ NetworkID: 1 })).to.be.rejectedWith(
+        'NetworkID of a running network can not be changed',
+      );
+    });
+  });
+
+  describe('Slashing refund', () => {
+    beforeEach(async function () {
+      const [, , delegator, dust] = await ethers.getSigners();
+      await ethers.provider.send('hardhat_setBalance', [
+        this.other.address,
+        ethers.toBeHex(ethers.parseEther('1000000')),
+      ]);
+      const pubkey = ethers.concat(['0xc0', ethers.Wallet.createRandom().signingKey.publicKey]);
+      await this.sfc.connect(this.other).createValidator(pubkey, { value: ethers.parseEther('500000') });
+      await this.sfc.connect(delegator).delegate(1, { value: ethers.parseEther('1000') });
+      await this.sfc.connect(delegator).undelegate(1, 0, ethers.parseEther('400'));
+      await this.sfc.connect(delegator).undelegate(1, 1, ethers.parseEther('100'));
+      await this.sfc.connect(dust).delegate(1, { value: 1n });
+      this.delegator = delegator;
+      this.slash = async () => {
+        const sfcAsNode = this.sfc.connect(await ethers.getImpersonatedSigner(this.nodeDriverAuth));
+        await ethers.provider.send('hardhat_setBalance', [this.nodeDriverAuth, ethers.toBeHex(ethers.parseEther('1'))]);
+        await sfcAsNode.deactivateValidator(1, 1 << 7);
+      };
+      this.refund = async (args: object = {}) =>
+        hre.run('gov:slashing-refund', { validator: 1n, sfc: await this.sfc.getAddress(), ...args });
+    });
+
+    it('Computes the penalties of every withdrawal rounded up', async function () {
+      await this.slash();
+      const report = await this.refund({ ratios: '0,0.5,1' });
+      expect(report.validator.exposures).to.have.length(3);
+      const exposure = report.validator.exposures.find(
+        (e: { delegator: string }) => e.delegator === this.delegator.address,
+      );
+      expect(exposure.stake).to.equal(ethers.parseEther('500'));
+      expect(exposure.withdrawalRequests.map((r: { amount: bigint }) => r.amount)).to.deep.equal([
+        ethers.parseEther('400'),
+        ethers.parseEther('100'),
+      ]);
+
+      const [none, half, full] = report.impacts;
+      const amount = ethers.parseEther('501000') + 1n;
+      expect(none.penalty).to.equal(amount);
+      expect(none.fullySlashed).to.equal(3);
+      // one wei rounded up per withdrawal: the self-stake, the stake and the two requests, the dust fully burnt
+      expect(half.penalty).to.equal(ethers.parseEther('250500') + 5n);
+      expect(half.refund).to.equal(amount - half.penalty);
+      expect(half.fullySlashed).to.equal(1);
+      expect(full.penalty).to.equal(0n);
+      expect(report.proposal).to.equal(undefined);
+    });
+
+    it('Proposes the chosen refund ratio', async function () {
+      await expect(this.refund({ ratio: '0.5' })).to.be.rejectedWith('ValidatorNotSlashed');
+      await this.slash();
+      await expect(this.refund({ ratio: '1.5' })).to.be.rejectedWith('Invalid refund ratio 1.5');
+
+      const report = await this.refund({ ratios: '0', ratio: '0.5' });
+      expect(report.impacts.map((impact: { refundRatio: bigint }) => impact.refundRatio)).to.deep.equal([
+        0n,
+        ethers.parseEther('0.5'),
+      ]);
+      expect(report.proposal.calls[0].summary).to.equal(
+        'SFC.updateSlashingRefundRatio(validatorID=1, refundRatio=50.0%)',
+      );
+      await execute(report.proposal.batch, this.owner.address);
+      expect(await this.sfc.slashingRefundRatio(1)).to.equal(ethers.parseEther('0.5'));
+    });
+  });
+});
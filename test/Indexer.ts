@@ -0,0 +1,177 @@
+import hre, { ethers, upgrades } from 'hardhat';
+import { expect } from 'chai';
+import { loadFixture, time } from '@nomicfoundation/hardhat-network-helpers';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Indexer, IndexerAddresses } from '../lib/Indexer';
+import { deployNetwork, fund, randomPubkey, silenceConsole } from './helpers/Network';
+
+describe('Indexer', () => {
+  const fixture = async () => {
+    const startBlock = (await ethers.provider.getBlockNumber()) + 1;
+    const [owner, validator, alice, bob] = await ethers.getSigners();
+    const { sfc, nodeDriver, constants, node } = await deployNetwork(owner);
+    await constants.updateBaseRewardPerSecond(ethers.parseEther('1'));
+    await fund(validator, alice, bob);
+
+    for (const account of [validator, bob]) {
+      await node.handleTx(
+        await sfc.connect(account).createValidator(randomPubkey(), { value: ethers.parseEther('500000') }),
+      );
+    }
+    await node.sealEpoch(0);
+
+    await node.handleTx(await sfc.connect(alice).delegate(1, { value: ethers.parseEther('1000') }));
+    await node.handleTx(await sfc.connect(alice).delegate(2, { value: ethers.parseEther('300') }));
+    await node.handleTx(await sfc.connect(bob).delegate(1, { value: ethers.parseEther('50') }));
+    await node.sealEpoch(1000);
+    await node.handleTx(await sfc.connect(alice).undelegate(1, 0, ethers.parseEther('100')));
+    await node.handleTx(await sfc.connect(alice).undelegate(1, 1, ethers.parseEther('200')));
+    await node.handleTx(await sfc.connect(alice).undelegate(2, 0, ethers.parseEther('300')));
+    await time.increase(60 * 60 * 24 * 7);
+    for (let i = 0; i < 3; i++) {
+      await node.sealEpoch(1000);
+    }
+    await node.handleTx(await sfc.connect(alice).withdraw(1, 0));
+    await node.handleTx(await sfc.connect(alice).restakeRewards(1));
+    await node.handleTx(await sfc.connect(bob).claimRewards(1));
+    await node.deactivateValidator(2n, 1);
+    await node.sealEpoch(1000);
+
+    // a sponsorship withdrawn from the registry, its Withdrawn event is not the one of the SFC; the registry reads
+    // its owner from the SFC at the system address
+    const stubSfc = await ethers.deployContract('StubSFC', [owner]);
+    await ethers.provider.send('hardhat_setCode', [
+      '0xFC00FACE00000000000000000000000000000000',
+      await stubSfc.getDeployedCode(),
+    ]);
+    const registry = await ethers.getContractAt(
+      'SubsidiesRegistry',
+      await upgrades.deployProxy(await ethers.getContractFactory('SubsidiesRegistry'), [], { kind: 'uups' }),
+    );
+    const fundId = await registry.accountSponsorshipFundId(alice);
+    await registry.connect(bob).sponsor(fundId, { value: ethers.parseEther('10') });
+    await registry.connect(bob).withdraw(fundId, ethers.parseEther('4'));
+
+    const addresses: IndexerAddresses = {
+      sfc: await sfc.getAddress(),
+      nodeDriver: await nodeDriver.getAddress(),
+      subsidiesRegistry: await registry.getAddress(),
+    };
+    return { sfc, validator, alice, bob, addresses, startBlock };
+  };
+
+  silenceConsole();
+  let dir: string;
+
+  beforeEach(async function () {
+    Object.assign(this, await loadFixture(fixture));
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'indexer-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('Reconstructs stakes and open withdrawal requests matching the SFC', async function () {
+    const indexer = await Indexer.open(ethers.provider, this.addresses, { startBlock: this.startBlock, batchSize: 7 });
+    expect(await indexer.sync()).to.be.greaterThan(0);
+    expect(indexer.checkpoint()).to.equal(await ethers.provider.getBlockNumber());
+
+    for (const delegator of [this.validator, this.alice, this.bob]) {
+      for (const validatorID of [1n, 2n]) {
+        expect(indexer.getStake(delegator.address, validatorID)).to.equal(
+          await this.sfc.getStake(delegator, validatorID),
+        );
+      }
+    }
+    expect(indexer.stakes(this.alice.address).map(s => s.validatorID)).to.deep.equal([1n]);
+
+    const requests = indexer.withdrawalRequests();
+    expect(requests.map(r => [r.delegator, r.validatorID, r.wrID])).to.deep.equal([
+      [this.alice.address, 1n, 1n],
+      [this.alice.address, 2n, 0n],
+    ]);
+    for (const request of requests) {
+      expect(request.amount).to.equal(
+        (await this.sfc.getWithdrawalRequest(request.delegator, request.validatorID, request.wrID)).amount,
+      );
+    }
+
+    const validators = indexer.validators();
+    expect(validators.map(v => [v.validatorID, v.auth, v.status])).to.deep.equal([
+      [1n, this.validator.address, 0n],
+      [2n, this.bob.address, 1n],
+    ]);
+    expect(validators[0].weight).to.equal((await this.sfc.getValidator(1)).receivedStake);
+    expect(validators[1].weight).to.equal(0n);
+    expect(validators[0].pubkey).to.equal((await this.sfc.getValidatorPubkey(1)).toLowerCase());
+
+    expect(indexer.events('ClaimedRewards')).to.have.length(1);
+    const [restaked] = indexer.events('RestakedRewards');
+    expect(restaked.contract).to.equal('SFC');
+    expect(restaked.args.delegator).to.equal(this.alice.address);
+    expect(indexer.events('UpdateValidatorWeight').every(e => e.contract === 'NodeDriver')).to.equal(true);
+    expect(indexer.events('Withdrawn').map(e => e.contract)).to.deep.equal(['SFC', 'SubsidiesRegistry']);
+    const [withdrawn] = indexer.events('Withdrawn', 'SFC');
+    expect([withdrawn.args.delegator, withdrawn.args.wrID]).to.deep.equal([this.alice.address, 0n]);
+    const [sponsorshipWithdrawn] = indexer.events('Withdrawn', 'SubsidiesRegistry');
+    expect(sponsorshipWithdrawn.args.amount).to.equal(ethers.parseEther('4'));
+    expect(indexer.events(undefined, 'SubsidiesRegistry').map(e => e.name)).to.deep.equal(['Sponsored', 'Withdrawn']);
+    indexer.close();
+  });
+
+  it('Resumes from the checkpoint of the database file', async function () {
+    const head = await ethers.provider.getBlockNumber();
+    const middle = Math.floor((this.startBlock + head) / 2);
+    const file = path.join(dir, 'sfc.sqlite');
+
+    const first = await Indexer.open(ethers.provider, this.addresses, { path: file, startBlock: this.startBlock });
+    await first.sync(middle);
+    expect(first.checkpoint()).to.equal(middle);
+    first.close();
+
+    const resumed = await Indexer.open(ethers.provider, this.addresses, { path: file, startBlock: this.startBlock });
+    expect(resumed.checkpoint()).to.equal(middle);
+    const batches: number[][] = [];
+    await resumed.sync(undefined, (from, to) => batches.push([from, to]));
+    expect(batches).to.deep.equal([[middle + 1, head]]);
+
+    const oneShot = await Indexer.open(ethers.provider, this.addresses, { startBlock: this.startBlock });
+    await oneShot.sync();
+    expect(resumed.stakes()).to.deep.equal(oneShot.stakes());
+    expect(resumed.withdrawalRequests()).to.deep.equal(oneShot.withdrawalRequests());
+    expect(resumed.validators()).to.deep.equal(oneShot.validators());
+    expect(resumed.events()).to.deep.equal(oneShot.events());
+    resumed.close();
+    oneShot.close();
+  });
+
+  it('Leaves the confirmation blocks unindexed', async function () {
+    const indexer = await Indexer.open(ethers.provider, this.addresses, {
+      startBlock: this.startBlock,
+      confirmations: 3,
+    });
+    await indexer.sync();
+    expect(indexer.checkpoint()).to.equal((await ethers.provider.getBlockNumber()) - 3);
+    indexer.close();
+  });
+
+  it('Syncs and prints a delegator with the tasks', async function () {
+    const db = path.join(dir, 'sfc.sqlite');
+    const { sfc, nodeDriver, subsidiesRegistry: registry } = this.addresses;
+    const args = { db, startBlock: this.startBlock, sfc, nodeDriver, registry };
+    expect(await hre.run('indexer:sync', args)).to.be.greaterThan(0);
+    expect(await hre.run('indexer:sync', args)).to.equal(0);
+    expect(fs.existsSync(db)).to.equal(true);
+    expect(fs.existsSync(`${db}.tmp`)).to.equal(false);
+
+    const lines: string[] = [];
+    console.log = (line: string) => lines.push(line);
+    await hre.run('indexer:delegator', { db, delegator: this.alice.address });
+    const output = lines.join('\n');
+    expect(output).to.include(ethers.formatEther(await this.sfc.getStake(this.alice, 1)));
+    expect(output).to.include(ethers.formatEther(ethers.parseEther('300')));
+  });
+});
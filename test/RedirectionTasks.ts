@@ -0,0 +1,108 @@
+import hre, { ethers } from 'hardhat';
+import { expect } from 'chai';
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SafeBatch } from '../lib/SafeBatch';
+import { deployNetwork, fund, randomPubkey, silenceConsole } from './helpers/Network';
+
+describe('Redirection tasks', () => {
+  const fixture = async () => {
+    const [owner, victim, rescue, authorizer] = await ethers.getSigners();
+    const { sfc } = await deployNetwork(owner);
+    await fund(victim);
+    await sfc.connect(victim).createValidator(randomPubkey(), { value: ethers.parseEther('500000') });
+    await sfc.connect(victim).undelegate(1, 0, ethers.parseEther('1000'));
+    await sfc.connect(victim).announceRedirection(rescue);
+    return { sfc, owner, victim, rescue, authorizer };
+  };
+
+  silenceConsole();
+
+  beforeEach(async function () {
+    Object.assign(this, await loadFixture(fixture));
+    this.dir = fs.mkdtempSync(path.join(os.tmpdir(), 'redirection-'));
+    this.run = async (name: string, args: object) => hre.run(name, { ...args, sfc: await this.sfc.getAddress() });
+  });
+
+  afterEach(function () {
+    fs.rmSync(this.dir, { recursive: true, force: true });
+  });
+
+  // send the transactions of a batch as the Safe would execute them
+  const execute = async (batch: SafeBatch, safe: string) => {
+    const signer = await ethers.getImpersonatedSigner(safe);
+    for (const tx of batch.transactions) {
+      await signer.sendTransaction({ to: tx.to, data: tx.data, value: tx.value });
+    }
+  };
+
+  it('Walks a redirection from the announcement to the acceptance', async function () {
+    const [announced] = await this.run('redirection:status', {});
+    expect(announced.from).to.equal(this.victim.address);
+    expect(announced.announcements.map((a: { to: string }) => a.to)).to.deep.equal([this.rescue.address]);
+    expect(announced.status).to.equal('announced');
+    expect(announced.stake).to.equal(ethers.parseEther('499000'));
+    expect(announced.withdrawals).to.equal(ethers.parseEther('1000'));
+
+    await this.sfc.setRedirectionAuthorizer(this.owner);
+    await this.run('redirection:initiate', { from: this.victim.address, to: this.rescue.address });
+    expect(await this.sfc.getRedirectionRequest(this.victim)).to.equal(this.rescue.address);
+    const [initiated] = await this.run('redirection:status', { account: this.victim.address });
+    expect(initiated.status).to.equal('initiated');
+
+    // the signer is not the victim, the acceptance is written for it to sign
+    await expect(this.run('redirection:accept', { to: this.rescue.address })).to.be.rejectedWith(
+      'RequestNotExists: no redirection of',
+    );
+    await expect(
+      this.run('redirection:accept', { to: this.rescue.address, account: this.victim.address }),
+    ).to.be.rejectedWith('pass --out');
+    const out = path.join(this.dir, 'accept.json');
+    const batch = await this.run('redirection:accept', { to: this.rescue.address, account: this.victim.address, out });
+    expect(JSON.parse(fs.readFileSync(out, 'utf8')).meta.createdFromSafeAddress).to.equal(this.victim.address);
+    await execute(batch, this.victim.address);
+    expect(await this.sfc.getRedirection(this.victim)).to.equal(this.rescue.address);
+
+    const [redirected] = await this.run('redirection:status', {});
+    expect(redirected.status).to.equal('redirected');
+    await expect(
+      this.run('redirection:initiate', { from: this.victim.address, to: this.rescue.address }),
+    ).to.be.rejectedWith(`AlreadyRedirected: ${this.victim.address} is already redirected to ${this.rescue.address}`);
+  });
+
+  it('Checks the redirection before producing the transactions', async function () {
+    const initiate = (args: object) =>
+      this.run('redirection:initiate', { from: this.victim.address, to: this.rescue.address, ...args });
+    await expect(initiate({})).to.be.rejectedWith('NotAuthorized: no redirection authorizer is set');
+
+    await this.sfc.setRedirectionAuthorizer(this.authorizer);
+    await expect(initiate({ to: this.authorizer.address })).to.be.rejectedWith(
+      `did not announce a redirection to ${this.authorizer.address}`,
+    );
+    await expect(initiate({ to: this.victim.address, force: true })).to.be.rejectedWith(
+      'SameAddress: an account can not be redirected to itself',
+    );
+    expect(await initiate({ dryRun: true })).to.equal(undefined);
+
+    // the authorizer is a multisig
+    const out = path.join(this.dir, 'initiate.json');
+    const batch = await initiate({ out });
+    expect(batch.meta.createdFromSafeAddress).to.equal(this.authorizer.address);
+    expect(batch.meta.description).to.equal(
+      `SFC.initiateRedirection(from=${this.victim.address}, to=${this.rescue.address})`,
+    );
+    await execute(batch, this.authorizer.address);
+
+    await expect(
+      this.run('redirection:accept', { to: this.owner.address, account: this.victim.address }),
+    ).to.be.rejectedWith(`the initiated redirection of ${this.victim.address} is to ${this.rescue.address}`);
+    await expect(
+      this.run('redirection:accept', { to: ethers.ZeroAddress, account: this.victim.address }),
+    ).to.be.rejectedWith('ZeroAddress');
+    expect(
+      await this.run('redirection:accept', { to: this.rescue.address, account: this.victim.address, dryRun: true }),
+    ).to.equal(undefined);
+  });
+});
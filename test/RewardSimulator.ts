@@ -0,0 +1,152 @@
+import { ethers } from 'hardhat';
+import { expect } from 'chai';
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
+import { ValidatorMetrics } from './helpers/BlockchainNode';
+import { deployNetwork, fund, randomPubkey } from './helpers/Network';
+import { RewardSimulator, computeSealEpochRewards } from '../lib/RewardSimulator';
+
+describe('RewardSimulator', () => {
+  const fixture = async () => {
+    const [owner, validator1, validator2, validator3, delegator1, delegator2] = await ethers.getSigners();
+    const simulator = new RewardSimulator();
+    const {
+      sfc,
+      constants,
+      node: blockchainNode,
+    } = await deployNetwork(owner, { totalSupply: ethers.parseEther('5000000'), simulator });
+    await constants.updateMinSelfStake(ethers.parseEther('100000'));
+    await constants.updateBaseRewardPerSecond(ethers.parseEther('1'));
+    await constants.updateValidatorCommission(ethers.parseEther('0.15'));
+    await constants.updateTreasuryFeeShare(ethers.parseEther('0.1'));
+    await constants.updateBurntFeeShare(ethers.parseEther('0.2'));
+    await constants.updateWithdrawalPeriodTime(3600);
+    await constants.updateWithdrawalPeriodEpochs(2);
+
+    await fund(validator1, validator2, validator3, delegator1, delegator2);
+
+    const validators = [validator1, validator2, validator3];
+    for (const [i, stake] of ['500000', '300000', '200000'].entries()) {
+      await blockchainNode.handleTx(
+        await sfc.connect(validators[i]).createValidator(randomPubkey(), { value: ethers.parseEther(stake) }),
+      );
+    }
+    await blockchainNode.handleTx(await sfc.connect(delegator1).delegate(1, { value: ethers.parseEther('700000') }));
+    await blockchainNode.handleTx(await sfc.connect(delegator2).delegate(2, { value: ethers.parseEther('150000') }));
+    await blockchainNode.sealEpoch(0); // apply validators changes
+
+    return {
+      owner,
+      sfc,
+      constants,
+      blockchainNode,
+      simulator,
+      validator1,
+      validator2,
+      validator3,
+      delegator1,
+      delegator2,
+    };
+  };
+
+  beforeEach(async function () {
+    Object.assign(this, await loadFixture(fixture));
+    this.blockchainNode = this.blockchainNode.clone();
+    this.simulator = this.blockchainNode.simulator;
+  });
+
+  it('Computes rewards of a single epoch', async function () {
+    const rewards = computeSealEpochRewards(
+      {
+        baseRewardPerSecond: 10n,
+        validatorCommission: ethers.parseEther('0.1'),
+        burntFeeShare: ethers.parseEther('0.2'),
+        treasuryFeeShare: ethers.parseEther('0.1'),
+        offlinePenaltyThresholdBlocksNum: 10n,
+        offlinePenaltyThresholdTime: 100n,
+      },
+      {
+        epochDuration: 100n,
+        treasurySet: true,
+        validators: [1n, 3n].map(id => ({
+          validatorID: id,
+          snapshotStake: id * 1000n,
+          receivedStake: id * 1000n,
+          selfStake: id * 1000n,
+          offlineTime: 0n,
+          offlineBlocks: 0n,
+          uptime: 100n,
+          accumulatedOriginatedTxsFee: 1000n,
+          prevAccumulatedOriginatedTxsFee: 0n,
+        })),
+      },
+    );
+
+    expect(rewards.epochFee).to.equal(2000n);
+    expect(rewards.treasuryFee).to.equal(200n);
+    expect(rewards.txRewards).to.equal(1400n);
+    expect(rewards.burntFee).to.equal(400n);
+    expect(rewards.validators.map(v => v.baseReward)).to.deep.equal([250n, 750n]);
+    expect(rewards.validators.map(v => v.commission)).to.deep.equal([95n, 145n]);
+  });
+
+  it('Matches the contract with base rewards and partial uptime', async function () {
+    for (const uptime of [3600, 1800, 900]) {
+      const metrics = new Map<bigint, ValidatorMetrics>([
+        [1n, new ValidatorMetrics(0, 0, 3600, 0n)],
+        [2n, new ValidatorMetrics(3600 - uptime, 10, uptime, 0n)],
+      ]);
+      await this.blockchainNode.sealEpoch(3600, metrics);
+    }
+    const sealedEpoch = await this.sfc.currentSealedEpoch();
+    expect(this.simulator.epochRewards.get(sealedEpoch).validators).to.have.length(3);
+    expect(this.simulator.pendingRewards(this.delegator1.address, 1n)).to.equal(
+      await this.sfc.pendingRewards(this.delegator1, 1),
+    );
+  });
+
+  it('Matches the contract with originated fees and the treasury', async function () {
+    const treasury = ethers.Wallet.createRandom();
+    await this.sfc.connect(this.owner).updateTreasuryAddress(treasury);
+
+    let treasuryFees = 0n;
+    for (let i = 1n; i <= 3n; i++) {
+      const metrics = new Map<bigint, ValidatorMetrics>([
+        [1n, new ValidatorMetrics(0, 0, 3600, ethers.parseEther('10') * i)],
+        [2n, new ValidatorMetrics(0, 0, 2400, ethers.parseEther('3') * i)],
+        [3n, new ValidatorMetrics(0, 0, 3600, ethers.parseEther('1') * i)],
+      ]);
+      await this.blockchainNode.sealEpoch(3600, metrics);
+      treasuryFees += this.simulator.epochRewards.get(this.simulator.currentSealedEpoch).treasuryFee;
+    }
+    expect(await ethers.provider.getBalance(treasury)).to.equal(treasuryFees);
+  });
+
+  it('Matches the contract through claims, restakes, undelegations and deactivations', async function () {
+    await this.blockchainNode.sealEpoch(1000);
+    await this.blockchainNode.handleTx(await this.sfc.connect(this.delegator1).claimRewards(1));
+    await this.blockchainNode.handleTx(await this.sfc.connect(this.delegator2).restakeRewards(2));
+    await this.blockchainNode.sealEpoch(1000);
+
+    await this.blockchainNode.handleTx(
+      await this.sfc.connect(this.delegator1).undelegate(1, 1, ethers.parseEther('100000')),
+    );
+    await this.blockchainNode.handleTx(await this.sfc.connect(this.delegator2).delegate(3, { value: 12345n }));
+    await this.blockchainNode.sealEpoch(1000);
+
+    await this.blockchainNode.handleTx(
+      await this.sfc.connect(this.validator2).undelegate(2, 1, ethers.parseEther('300000')),
+    );
+    await this.blockchainNode.sealEpoch(1000);
+    await this.blockchainNode.sealEpoch(1000);
+
+    expect(this.simulator.pendingRewards(this.delegator2.address, 2n)).to.equal(
+      await this.sfc.pendingRewards(this.delegator2, 2),
+    );
+  });
+
+  it('Fails loudly when the model diverges from the contract', async function () {
+    // delegation not replayed into the simulator
+    await this.sfc.connect(this.delegator2).delegate(1, { value: ethers.parseEther('1000') });
+    await expect(this.blockchainNode.sealEpoch(1000)).to.be.rejectedWith('Accumulated reward per token');
+  });
+});
@@ -0,0 +1,36 @@
+import { ethers } from 'hardhat';
+import { expect } from 'chai';
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
+import * as fs from 'fs';
+import * as path from 'path';
+import { deployNetwork, fund } from './helpers/Network';
+import { Scenario, ScenarioRunner } from './helpers/ScenarioRunner';
+
+const SCENARIOS_DIR = path.join(__dirname, 'scenarios');
+
+describe('Scenarios', () => {
+  const fixture = async () => {
+    const [owner, ...accounts] = await ethers.getSigners();
+    const { constants, sfcAsNode } = await deployNetwork(owner, { totalSupply: ethers.parseEther('5000000') });
+    await fund(...accounts);
+
+    return { owner, accounts, sfcAsNode, constants };
+  };
+
+  const scenarios = fs
+    .readdirSync(SCENARIOS_DIR)
+    .filter(file => file.endsWith('.json'))
+    .map(file => JSON.parse(fs.readFileSync(path.join(SCENARIOS_DIR, file), 'utf8')) as Scenario);
+
+  for (const scenario of scenarios) {
+    it(scenario.name, async function () {
+      const { owner, accounts, sfcAsNode, constants } = await loadFixture(fixture);
+      const runner = new ScenarioRunner(sfcAsNode, constants, owner);
+      const result = await runner.run(scenario, accounts);
+
+      expect(result.epochs).to.have.length(scenario.epochs.length);
+      const last = result.epochs[result.epochs.length - 1];
+      expect(last.sealedEpoch).to.equal(BigInt(scenario.epochs.length));
+    });
+  }
+});
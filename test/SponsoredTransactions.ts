@@ -0,0 +1,92 @@
+import { ethers, upgrades } from 'hardhat';
+import { expect } from 'chai';
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
+import { SubsidiesRegistry } from '../typechain-types';
+import { deriveFund } from '../lib/Subsidies';
+import { SponsoredTxNode } from './helpers/SponsoredTxNode';
+
+describe('Sponsored transactions', () => {
+  const fixture = async () => {
+    const [owner, sponsor] = await ethers.getSigners();
+    const stubSfc = await ethers.deployContract('StubSFC', [owner]);
+    await ethers.provider.send('hardhat_setCode', [
+      '0xFC00FACE00000000000000000000000000000000',
+      await stubSfc.getDeployedCode(),
+    ]);
+    const registry: SubsidiesRegistry = await ethers.getContractAt(
+      'SubsidiesRegistry',
+      await upgrades.deployProxy(await ethers.getContractFactory('SubsidiesRegistry'), [], { kind: 'uups' }),
+    );
+    const erc20 = await ethers.deployContract('TestingERC20');
+    return { owner, sponsor, registry, erc20, stubSfc };
+  };
+
+  beforeEach(async function () {
+    Object.assign(this, await loadFixture(fixture));
+    this.node = new SponsoredTxNode(await this.registry.getAddress());
+  });
+
+  it('Sponsors an ERC20 approval of an account without native tokens', async function () {
+    const user = ethers.Wallet.createRandom().connect(this.node.provider);
+    const spender = ethers.Wallet.createRandom();
+    await this.erc20.mint(user, 1000n);
+    const { fundId } = deriveFund({ type: 'approval', to: await this.erc20.getAddress(), spender: spender.address });
+    await this.registry.connect(this.sponsor).sponsor(fundId, { value: ethers.parseEther('0.1') });
+
+    await this.erc20.connect(user).approve(spender, 123n, { gasPrice: 0 });
+
+    expect(await this.erc20.allowance(user, spender)).to.equal(123n);
+    expect(await ethers.provider.getBalance(user)).to.equal(0);
+    expect(this.node.sponsored.length).to.equal(1);
+    const [sponsored] = this.node.sponsored;
+    expect(sponsored.fundId).to.equal(fundId);
+    expect(sponsored.fee).to.be.greaterThan(0);
+    expect(await this.registry.getAvailableFunds(fundId)).to.equal(ethers.parseEther('0.1') - sponsored.fee);
+    const receipt = await ethers.provider.getTransactionReceipt(sponsored.deductFeesHash);
+    expect(receipt!.logs.map(log => this.stubSfc.interface.parseLog(log)?.args.amount)).to.deep.equal([sponsored.fee]);
+
+    // the next approve needs the allowance to be used up first
+    await expect(this.erc20.connect(user).approve(spender, 1n, { gasPrice: 0 })).to.be.rejectedWith('not sponsored');
+  });
+
+  it('Passes transactions with a gas price through', async function () {
+    const [, , account] = await ethers.getSigners();
+    const signer = await this.node.getSigner(account.address);
+    await this.erc20.connect(signer).mint(account, 1n);
+    expect(await this.erc20.balanceOf(account)).to.equal(1n);
+    expect(this.node.sponsored.length).to.equal(0);
+  });
+
+  it('Rejects withdrawals in sponsored transactions and still deducts the fee', async function () {
+    const signer = await this.node.getSigner(this.sponsor.address);
+    const { fundId } = deriveFund({ type: 'account', from: this.sponsor.address });
+    await this.registry.connect(this.sponsor).sponsor(fundId, { value: ethers.parseEther('1') });
+
+    await expect(
+      this.registry.connect(signer).withdraw(fundId, 1n, { gasPrice: 0, gasLimit: 100_000 }),
+    ).to.be.revertedWithCustomError(this.registry, 'NotAllowedInSponsoredTx');
+    expect(this.node.sponsored.length).to.equal(1);
+    expect(await this.registry.getAvailableFunds(fundId)).to.equal(ethers.parseEther('1') - this.node.sponsored[0].fee);
+
+    // not sponsored withdrawals are allowed
+    await this.registry.connect(signer).withdraw(fundId, 1n);
+  });
+
+  it('Enforces the gas limits of the node calls', async function () {
+    const user = ethers.Wallet.createRandom().connect(this.node.provider);
+    const { fundId } = deriveFund({ type: 'account', from: user.address });
+    await this.registry.connect(this.sponsor).sponsor(fundId, { value: ethers.parseEther('1') });
+
+    await this.registry.setChooseFundGasLimit(5_000);
+    await expect(this.erc20.connect(user).mint(user, 1n, { gasPrice: 0 })).to.be.rejectedWith(
+      'chooseFund failed within its gas limit 5000',
+    );
+
+    await this.registry.setChooseFundGasLimit(100_000);
+    await this.registry.setDeductFeesGasLimit(5_000);
+    await expect(this.erc20.connect(user).mint(user, 1n, { gasPrice: 0 })).to.be.rejectedWith(
+      'deductFees failed within its gas limit 5000',
+    );
+    expect(this.node.sponsored.length).to.equal(0);
+  });
+});
@@ -0,0 +1,182 @@
+import hre, { ethers, upgrades } from 'hardhat';
+import { expect } from 'chai';
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
+import { SubsidiesRegistry } from '../typechain-types';
+import { FundSpec, deriveFund } from '../lib/Subsidies';
+import { silenceConsole } from './helpers/Network';
+
+describe('Subsidies tasks', () => {
+  const fixture = async () => {
+    const [owner, sponsor, user] = await ethers.getSigners();
+    const stubSfc = await ethers.deployContract('StubSFC', [owner]);
+    await ethers.provider.send('hardhat_setCode', [
+      '0xFC00FACE00000000000000000000000000000000',
+      await stubSfc.getDeployedCode(),
+    ]);
+    const registry: SubsidiesRegistry = await ethers.getContractAt(
+      'SubsidiesRegistry',
+      await upgrades.deployProxy(await ethers.getContractFactory('SubsidiesRegistry'), [], { kind: 'uups' }),
+    );
+    const erc20 = await ethers.deployContract('TestingERC20');
+    await erc20.mint(user, 1000n);
+    return { owner, sponsor, user, registry, erc20 };
+  };
+
+  silenceConsole();
+
+  beforeEach(async function () {
+    Object.assign(this, await loadFixture(fixture));
+    this.registryAddress = await this.registry.getAddress();
+    this.run = async (name: string, args: object) => hre.run(name, { ...args, registry: this.registryAddress });
+  });
+
+  it('Derives the fund IDs of the registry', async function () {
+    const to = await this.erc20.getAddress();
+    const from = this.user.address;
+    const approve = this.erc20.interface.encodeFunctionData('approve', [this.sponsor.address, 100n]);
+    const fundId = (spec: FundSpec) => deriveFund(spec).fundId;
+
+    expect(fundId({ type: 'account', from })).to.equal(await this.registry.accountSponsorshipFundId(from));
+    expect(fundId({ type: 'contract', to })).to.equal(await this.registry.contractSponsorshipFundId(to));
+    expect(fundId({ type: 'operation', to, function: 'approve(address,uint256)' })).to.equal(
+      await this.registry.operationSponsorshipFundId(to, approve),
+    );
+    expect(fundId({ type: 'account-operation', from, to, function: approve.slice(0, 10) })).to.equal(
+      await this.registry.accountOperationSponsorshipFundId(from, to, approve),
+    );
+    expect(fundId({ type: 'approval', to, spender: this.sponsor.address })).to.equal(
+      await this.registry.approvalSponsorshipFundId(from, to, approve),
+    );
+    expect(fundId({ type: 'bootstrap' })).to.equal(await this.registry.bootstrapSponsorshipFund(0));
+  });
+
+  it('Sponsors a fund chosen for the sponsored txs', async function () {
+    const to = await this.erc20.getAddress();
+    const args = { type: 'operation', to, function: 'function transfer(address to, uint256 value)' };
+    await this.run('subsidies:sponsor', { ...args, amount: '1.5' });
+
+    const info = await this.run('subsidies:info', args);
+    expect(info.available).to.equal(ethers.parseEther('1.5'));
+    expect(info.totalContributions).to.equal(ethers.parseEther('1.5'));
+    expect(info.sponsorContribution).to.equal(ethers.parseEther('1.5'));
+    expect(info.availableToWithdraw).to.equal(ethers.parseEther('1.5'));
+
+    const transfer = this.erc20.interface.encodeFunctionData('transfer', [this.sponsor.address, 1n]);
+    expect(await this.registry.chooseFund(this.user, to, 0, 5, transfer, 1000)).to.equal(info.fundId);
+
+    const other = await this.run('subsidies:info', { fundId: info.fundId, sponsor: this.user.address });
+    expect(other.sponsorContribution).to.equal(0);
+  });
+
+  it('Withdraws the share of the sponsor', async function () {
+    const args = { type: 'account', from: this.user.address };
+    await this.run('subsidies:sponsor', { ...args, amount: '2' });
+    await expect(this.run('subsidies:withdraw', { ...args, amount: '3' })).to.be.rejectedWith(
+      'Only 2.0 tokens are available',
+    );
+    await this.run('subsidies:withdraw', { ...args, amount: '0.5' });
+    expect((await this.run('subsidies:info', args)).available).to.equal(ethers.parseEther('1.5'));
+
+    await this.run('subsidies:withdraw', args);
+    expect((await this.run('subsidies:info', args)).availableToWithdraw).to.equal(0);
+    await expect(this.run('subsidies:withdraw', args)).to.be.rejectedWith('Nothing to withdraw');
+  });
+
+  it('Rejects incomplete fund inputs', async function () {
+    await expect(this.run('subsidies:info', {})).to.be.rejectedWith('Give --fund-id or --type');
+    await expect(this.run('subsidies:info', { type: 'contract' })).to.be.rejectedWith(
+      'contract sponsorship requires --to',
+    );
+    await expect(
+      this.run('subsidies:info', { type: 'operation', to: this.user.address, function: 'transfer(' }),
+    ).to.be.rejectedWith('Invalid function signature');
+    await expect(this.run('subsidies:info', { type: 'account', from: '0x1234' })).to.be.rejectedWith(
+      'Invalid --from address',
+    );
+    await expect(this.run('subsidies:info', { type: 'other' })).to.be.rejectedWith('Unknown sponsorship type');
+  });
+
+  describe('Explainer', () => {
+    beforeEach(async function () {
+      this.token = await this.erc20.getAddress();
+      this.approve = this.erc20.interface.encodeFunctionData('approve', [this.sponsor.address, 100n]);
+      this.explain = async (args: object) =>
+        this.run('subsidies:explain', { from: this.user.address, to: this.token, data: this.approve, ...args });
+      this.reasons = (explanation: { candidates: { type: string; status: string; reason?: string }[] }) =>
+        Object.fromEntries(explanation.candidates.map(c => [c.type, c.reason ?? c.status]));
+    });
+
+    it('Evaluates the funds in the precedence order of chooseFund', async function () {
+      let explanation = await this.explain({ nonce: 0n, fee: '0.001' });
+      expect(explanation.candidates.map((c: { type: string }) => c.type)).to.deep.equal([
+        'account-operation',
+        'approval',
+        'operation',
+        'bootstrap',
+        'contract',
+        'account',
+      ]);
+      expect(explanation.chosen).to.equal(ethers.ZeroHash);
+      expect(Object.values(this.reasons(explanation))).to.deep.equal(Array(6).fill('not sponsored'));
+
+      await this.run('subsidies:sponsor', {
+        type: 'operation',
+        to: this.token,
+        function: 'approve(address,uint256)',
+        amount: '1',
+      });
+      await this.run('subsidies:sponsor', {
+        type: 'approval',
+        to: this.token,
+        spender: this.sponsor.address,
+        amount: '1',
+      });
+      explanation = await this.explain({ fee: '0.001' });
+      expect(this.reasons(explanation).approval).to.equal('chosen');
+      expect(this.reasons(explanation).operation).to.equal('eligible');
+      expect(explanation.chosen).to.equal(explanation.candidates[1].fundId);
+      for (const check of explanation.gas) {
+        expect(check.estimate).to.be.lessThanOrEqual(check.limit, check.call);
+      }
+
+      // the approval fund does not cover approvals while an allowance is left
+      await this.erc20.connect(this.user).approve(this.sponsor, 1n);
+      explanation = await this.explain({ fee: '0.001' });
+      expect(this.reasons(explanation).approval).to.equal(
+        `existing allowance 1 for ${this.sponsor.address} has to be used up first`,
+      );
+      expect(this.reasons(explanation).operation).to.equal('chosen');
+    });
+
+    it('Reports why funds do not apply to the tx', async function () {
+      await this.run('subsidies:sponsor', { type: 'contract', to: this.token, amount: '0.001' });
+      const explanation = await this.explain({ from: this.sponsor.address, data: '0x1234', nonce: 5n, fee: '0.01' });
+      expect(this.reasons(explanation)).to.deep.equal({
+        'account-operation': 'calldata shorter than a function selector',
+        approval: 'not an ERC20 approve(address,uint256) call',
+        operation: 'calldata shorter than a function selector',
+        bootstrap: 'nonce 5 is not one of the first 3',
+        contract: 'insufficient funds, 0.001 < fee 0.01',
+        account: 'not sponsored',
+      });
+      const zeroBalance = await this.explain({ from: this.sponsor.address, fee: '0.01' });
+      expect(this.reasons(zeroBalance).approval).to.equal('sender has zero token balance');
+    });
+
+    it('Explains a historical tx at its parent block', async function () {
+      await this.run('subsidies:sponsor', { type: 'account', from: this.user.address, amount: '1' });
+      const tx = await this.erc20.connect(this.user).approve(this.sponsor, 100n);
+      const receipt = await tx.wait();
+      // the allowance set by the tx itself does not affect the explanation
+      const explanation = await this.run('subsidies:explain', { tx: tx.hash });
+      expect(explanation.blockTag).to.equal(receipt.blockNumber - 1);
+      expect(explanation.tx.data).to.equal(this.approve);
+      // the fee at the base fee of the block of the tx
+      const [, , overheadCharge] = await this.registry.getGasConfig();
+      const { baseFeePerGas } = (await ethers.provider.getBlock(receipt.blockNumber))!;
+      expect(explanation.fee).to.equal((tx.gasLimit + overheadCharge) * baseFeePerGas!);
+      expect(this.reasons(explanation).approval).to.equal('not sponsored');
+      expect(this.reasons(explanation).account).to.equal('chosen');
+    });
+  });
+});
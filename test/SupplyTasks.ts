@@ -0,0 +1,136 @@
+import hre, { ethers } from 'hardhat';
+import { expect } from 'chai';
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ValidatorMetrics } from './helpers/BlockchainNode';
+import { deployNetwork, fund, randomPubkey, silenceConsole } from './helpers/Network';
+
+describe('Supply tasks', () => {
+  const fixture = async () => {
+    const [owner, validator, user] = await ethers.getSigners();
+    const { sfc, constants, sfcAsNode, node } = await deployNetwork(owner);
+    await constants.updateIssuedTokensRecipient(owner);
+    await sfc.issueTokens(ethers.parseEther('1000'));
+    await fund(validator);
+    await node.handleTx(
+      await sfc.connect(validator).createValidator(randomPubkey(), { value: ethers.parseEther('500000') }),
+    );
+    await node.sealEpoch(0);
+    const fromBlock = Number(await sfc.getEpochEndBlock(1)) + 1;
+
+    // epoch 2: burnt and issued tokens, fees sent to the treasury
+    await sfc.updateTreasuryAddress(ethers.Wallet.createRandom().address);
+    await sfc.connect(user).burnNativeTokens({ value: ethers.parseEther('10') });
+    const issuance = (await (await sfc.issueTokens(ethers.parseEther('50'))).wait())!;
+    await sfc.connect(user).burnNativeTokens({ value: ethers.parseEther('5') });
+    await node.sealEpoch(1000, new Map([[1n, new ValidatorMetrics(0, 0, 1000, ethers.parseEther('100'))]]));
+
+    // epoch 3: extra rewards and claimed rewards
+    await sfc.connect(user).distributeExtraReward(2, true, { value: ethers.parseEther('20') });
+    await sfc.connect(validator).claimRewards(1);
+    await node.sealEpoch(1000);
+
+    return { sfc, sfcAsNode, validator, fromBlock, issuance };
+  };
+
+  silenceConsole();
+
+  beforeEach(async function () {
+    Object.assign(this, await loadFixture(fixture));
+    this.reconcile = async (args: object) =>
+      hre.run('supply:reconcile', { fromBlock: this.fromBlock, sfc: await this.sfc.getAddress(), ...args });
+  });
+
+  it('Replays the supply changes of every epoch to its snapshot', async function () {
+    const statement = await this.reconcile({});
+    expect(statement.ledger.map((e: { epoch: bigint }) => e.epoch)).to.deep.equal([2n, 3n]);
+    expect(statement.gaps).to.deep.equal([]);
+    const [epoch2, epoch3] = statement.ledger;
+
+    expect(epoch2.opening).to.equal(ethers.parseEther('1000'));
+    expect(epoch2.nativeTokensBurnt).to.equal(ethers.parseEther('15'));
+    expect(epoch2.issuances).to.deep.equal([
+      { blockNumber: this.issuance.blockNumber, amount: ethers.parseEther('50') },
+    ]);
+    const snapshot = await this.sfc.getEpochSnapshot(2);
+    expect(epoch2.feesBurnt).to.equal(snapshot.epochFee);
+    expect(epoch2.treasuryFeesMinted).to.be.greaterThan(0n);
+    expect(epoch2.closing).to.equal(snapshot.totalSupply);
+
+    expect(epoch3.opening).to.equal(epoch2.closing);
+    expect(epoch3.extraRewardsBurnt).to.equal(ethers.parseEther('20'));
+    expect(epoch3.rewardsMinted).to.be.greaterThan(0n);
+    expect(epoch3.issued).to.equal(0n);
+    expect(epoch3.closing).to.equal(await this.sfc.totalSupply());
+    expect(statement.totals.nativeTokensBurnt).to.equal(ethers.parseEther('15'));
+
+    // a range from the middle of epoch 2 to the middle of epoch 3 covers the epochs sealed in it
+    const partial = await this.reconcile({ fromBlock: this.issuance.blockNumber, toBlock: epoch3.fromBlock + 1 });
+    expect(partial.ledger.map((e: { epoch: bigint }) => e.epoch)).to.deep.equal([2n]);
+
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'supply-'));
+    try {
+      await this.reconcile({ format: 'csv', out: path.join(dir, 'supply.csv') });
+      const csv = fs.readFileSync(path.join(dir, 'supply.csv'), 'utf8').trim().split('\n');
+      expect(csv[0]).to.equal(
+        'epoch,fromBlock,toBlock,opening,rewardsMinted,treasuryFeesMinted,issued,nativeTokensBurnt,' +
+          'extraRewardsBurnt,slashingBurnt,feesBurnt,expected,closing,gap',
+      );
+      expect(csv[1].split(',').slice(0, 4)).to.deep.equal([
+        '2',
+        String(epoch2.fromBlock),
+        String(epoch2.toBlock),
+        ethers.parseEther('1000').toString(),
+      ]);
+    } finally {
+      fs.rmSync(dir, { recursive: true });
+    }
+  });
+
+  it('Flags the supply changes it cannot account for', async function () {
+    // tokens issued before the seal in the sealing block are not told apart from the seal
+    await ethers.provider.send('evm_setAutomine', [false]);
+    try {
+      // without gas limits the txs take the whole block each
+      await this.sfc.issueTokens(ethers.parseEther('7'), { gasLimit: 100000 });
+      await this.sfcAsNode.sealEpoch([0], [0], [1000], [0], { gasLimit: 1000000 });
+      await ethers.provider.send('evm_mine', []);
+    } finally {
+      await ethers.provider.send('evm_setAutomine', [true]);
+    }
+    await this.sfcAsNode.sealEpochValidators([1]);
+
+    const statement = await this.reconcile({});
+    expect(statement.gaps).to.deep.equal([4n]);
+    expect(statement.ledger[2].gap).to.equal(ethers.parseEther('7'));
+    expect(statement.totals.gap).to.equal(ethers.parseEther('7'));
+    await expect(this.reconcile({ strict: true })).to.be.rejectedWith('Supply does not reconcile: epoch 4');
+    await expect(this.reconcile({ format: 'xml' })).to.be.rejectedWith('Unknown format xml');
+  });
+
+  it('Attributes the txs after the seal in the sealing block to the next epoch', async function () {
+    // the supply in the snapshot of epoch 4 is stored before the claim
+    await ethers.provider.send('evm_setAutomine', [false]);
+    try {
+      await this.sfcAsNode.sealEpoch([0], [0], [1000], [0], { gasLimit: 1000000 });
+      await this.sfc.connect(this.validator).claimRewards(1, { gasLimit: 1000000 });
+      await ethers.provider.send('evm_mine', []);
+    } finally {
+      await ethers.provider.send('evm_setAutomine', [true]);
+    }
+    await this.sfcAsNode.sealEpochValidators([1]);
+    const [claim] = await this.sfc.queryFilter(this.sfc.filters.ClaimedRewards(), await this.sfc.getEpochEndBlock(4));
+    expect(claim.blockNumber).to.equal(await this.sfc.getEpochEndBlock(4));
+    await this.sfcAsNode.sealEpoch([0], [0], [1000], [0]);
+    await this.sfcAsNode.sealEpochValidators([1]);
+
+    const statement = await this.reconcile({});
+    expect(statement.gaps).to.deep.equal([]);
+    const [epoch4, epoch5] = statement.ledger.slice(2);
+    expect(epoch4.rewardsMinted).to.equal(0n);
+    expect(epoch5.fromBlock).to.equal(claim.blockNumber);
+    expect(epoch5.rewardsMinted).to.equal(claim.args.rewards);
+  });
+});
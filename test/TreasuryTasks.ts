@@ -0,0 +1,106 @@
+import hre, { ethers } from 'hardhat';
+import { expect } from 'chai';
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
+import { backoffDelay } from '../lib/TreasuryFees';
+import { ValidatorMetrics } from './helpers/BlockchainNode';
+import { deployNetwork, fund, randomPubkey, silenceConsole } from './helpers/Network';
+
+describe('Treasury tasks', () => {
+  const fixture = async () => {
+    const [owner, validator] = await ethers.getSigners();
+    const { sfc, node: blockchainNode } = await deployNetwork(owner);
+    await fund(validator);
+    await blockchainNode.handleTx(
+      await sfc.connect(validator).createValidator(randomPubkey(), { value: ethers.parseEther('500000') }),
+    );
+    await blockchainNode.sealEpoch(0);
+
+    // the treasury rejects the fees of the sealed epoch
+    const failingReceiver = await ethers.deployContract('FailingReceiver');
+    await sfc.updateTreasuryAddress(failingReceiver);
+    await blockchainNode.sealEpoch(
+      24 * 60 * 60,
+      new Map([[1n, new ValidatorMetrics(0, 0, 24 * 60 * 60, ethers.parseEther('100'))]]),
+    );
+    // the minted fees are not credited by the stub EVM writer
+    await ethers.provider.send('hardhat_setBalance', [
+      await sfc.getAddress(),
+      ethers.toBeHex(ethers.parseEther('1000')),
+    ]);
+
+    return { sfc, fees: ethers.parseEther('90') };
+  };
+
+  silenceConsole();
+
+  beforeEach(async function () {
+    Object.assign(this, await loadFixture(fixture));
+    this.keeper = async (args: object) =>
+      hre.run('treasury:keeper', { interval: 0.01, sfc: await this.sfc.getAddress(), ...args });
+  });
+
+  it('Backs off while the treasury rejects the fees', async function () {
+    expect(await this.sfc.unresolvedTreasuryFees()).to.equal(this.fees);
+    const report = await this.keeper({ checks: 3, maxDelay: 0.03 });
+    expect(report.checks.map((c: { action: string }) => c.action)).to.deep.equal(['alert', 'alert', 'alert']);
+    expect(report.checks[0].unresolvedFees).to.equal(this.fees);
+    expect(report.checks[0].resolveError).to.match(/^TransferFailed/);
+    expect(report.checks.map((c: { nextCheckIn: number }) => c.nextCheckIn)).to.deep.equal([0.02, 0.03, 0.03]);
+    expect(await this.sfc.unresolvedTreasuryFees()).to.equal(this.fees);
+
+    await this.sfc.updateTreasuryAddress(ethers.ZeroAddress);
+    const [check] = (await this.keeper({ checks: 1 })).checks;
+    expect(check.resolveError).to.match(/^TreasuryNotSet/);
+  });
+
+  it('Resolves the fees once the treasury accepts them', async function () {
+    const treasury = ethers.Wallet.createRandom().address;
+    await this.sfc.updateTreasuryAddress(treasury);
+    const [dryRun] = (await this.keeper({ checks: 1, dryRun: true })).checks;
+    expect(dryRun.action).to.equal('alert');
+    expect(dryRun.resolveError).to.equal(undefined);
+    expect(await this.sfc.unresolvedTreasuryFees()).to.equal(this.fees);
+
+    const report = await this.keeper({ checks: 2 });
+    expect(report.checks.map((c: { action: string }) => c.action)).to.deep.equal(['resolved', 'none']);
+    expect(report.resolved.map((e: { amount: bigint }) => e.amount)).to.deep.equal([this.fees]);
+    expect(await ethers.provider.getBalance(treasury)).to.equal(this.fees);
+    expect(await this.sfc.unresolvedTreasuryFees()).to.equal(0n);
+  });
+
+  it('Keeps running when the node fails to answer', async function () {
+    const treasury = ethers.Wallet.createRandom().address;
+    await this.sfc.updateTreasuryAddress(treasury);
+    const provider = hre.network.provider;
+    const send = provider.send;
+    let failing = true;
+    provider.send = async (method: string, params?: unknown[]) => {
+      if (method === 'eth_call' && failing) {
+        failing = false;
+        throw new Error('connection reset');
+      }
+      return send.call(provider, method, params);
+    };
+    try {
+      // a passing simulation ends the backoff in dry-run mode too
+      const dryRun = await this.keeper({ checks: 2, dryRun: true });
+      expect(dryRun.checks.map((c: { action: string }) => c.action)).to.deep.equal(['error', 'alert']);
+      expect(dryRun.checks.map((c: { nextCheckIn: number }) => c.nextCheckIn)).to.deep.equal([0.02, 0.01]);
+
+      failing = true;
+      const report = await this.keeper({ checks: 2 });
+      expect(report.checks.map((c: { action: string }) => c.action)).to.deep.equal(['error', 'resolved']);
+      expect(report.checks[0].error).to.equal('connection reset');
+      expect(report.checks.map((c: { nextCheckIn: number }) => c.nextCheckIn)).to.deep.equal([0.02, 0.01]);
+      expect(report.resolved.map((e: { amount: bigint }) => e.amount)).to.deep.equal([this.fees]);
+    } finally {
+      provider.send = send;
+    }
+    expect(await this.sfc.unresolvedTreasuryFees()).to.equal(0n);
+  });
+
+  it('Doubles the delay up to the maximum', () => {
+    expect([0, 1, 2, 6].map(failures => backoffDelay(60, failures, 300))).to.deep.equal([60, 120, 240, 300]);
+    expect(backoffDelay(60, 0, 10)).to.equal(60);
+  });
+});
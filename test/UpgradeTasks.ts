@@ -0,0 +1,130 @@
+import hre, { ethers } from 'hardhat';
+import { expect } from 'chai';
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SFC } from '../typechain-types';
+import { getImplementation } from '../lib/AddressBook';
+import { deployNetwork, fund, randomPubkey, silenceConsole } from './helpers/Network';
+
+describe('Upgrade tasks', () => {
+  const fixture = async () => {
+    const [owner, other, delegator] = await ethers.getSigners();
+    const { sfc, nodeDriver, nodeDriverAuth } = await deployNetwork(owner);
+    await fund(owner, delegator);
+    await sfc.createValidator(randomPubkey(), { value: ethers.parseEther('500000') });
+    await sfc.connect(delegator).delegate(1, { value: ethers.parseEther('1000') });
+
+    const addresses = [
+      `sfc=${await sfc.getAddress()}`,
+      `nodeDriver=${await nodeDriver.getAddress()}`,
+      `nodeDriverAuth=${await nodeDriverAuth.getAddress()}`,
+    ].join(',');
+    return { sfc, owner, other, delegator, addresses };
+  };
+
+  silenceConsole();
+
+  beforeEach(async function () {
+    Object.assign(this, await loadFixture(fixture));
+    this.upgrade = (args: object) =>
+      hre.run('upgrade:apply', {
+        contracts: 'sfc,nodeDriverAuth',
+        addresses: this.addresses,
+        delegators: this.delegator.address,
+        ...args,
+      });
+  });
+
+  it('Simulates the upgrade without applying it in dry-run mode', async function () {
+    const implementation = await getImplementation(ethers.provider, this.sfc);
+    const report = await this.upgrade({ dryRun: true });
+    expect(report.changes.map((change: { key: string }) => change.key)).to.deep.equal([
+      'nodeDriverAuth.implementation',
+      'sfc.implementation',
+    ]);
+    expect(report.unexpectedChanges).to.deep.equal([]);
+    expect(report.upgraded).to.deep.equal([]);
+    expect(await getImplementation(ethers.provider, this.sfc)).to.equal(implementation);
+  });
+
+  it('Upgrades the proxies as the owner and preserves the state', async function () {
+    const sfc: SFC = this.sfc;
+    const implementation = await getImplementation(ethers.provider, sfc);
+    const validator = await sfc.getValidator(1);
+    const report = await this.upgrade({});
+    expect(report.upgraded).to.deep.equal(['sfc', 'nodeDriverAuth']);
+    expect(await getImplementation(ethers.provider, sfc)).to.equal(report.targets[0].newImplementation);
+    expect(report.targets[0].newImplementation).to.not.equal(implementation);
+    expect(await sfc.getValidator(1)).to.deep.equal(validator);
+    expect(await sfc.getStake(this.delegator, 1)).to.equal(ethers.parseEther('1000'));
+  });
+
+  it('Rejects upgrades changing other state unless the changes are accepted', async function () {
+    const implementation = await getImplementation(ethers.provider, this.sfc);
+    const args = { contracts: 'sfc', artifacts: 'sfc=OwnerChangingSFC' };
+    await expect(this.upgrade(args)).to.be.rejectedWith(
+      'The upgrade changes sfc.owner, review the diff and pass --accept-changes',
+    );
+    expect(await getImplementation(ethers.provider, this.sfc)).to.equal(implementation);
+
+    const report = await this.upgrade({ ...args, acceptChanges: true });
+    expect(report.unexpectedChanges).to.deep.equal([
+      { key: 'sfc.owner', before: this.owner.address, after: '0x000000000000000000000000000000000000dEaD' },
+    ]);
+    expect(report.upgraded).to.deep.equal(['sfc']);
+    expect(await getImplementation(ethers.provider, this.sfc)).to.equal(report.targets[0].newImplementation);
+    expect(await this.sfc.owner()).to.equal('0x000000000000000000000000000000000000dEaD');
+  });
+
+  it('Upgrades a proxy again without a reference, the implementations are recorded in the manifest', async function () {
+    const first = await this.upgrade({ contracts: 'sfc', reference: 'sfc=SFC' });
+    const second = await this.upgrade({ contracts: 'sfc' });
+    const third = await this.upgrade({ contracts: 'sfc' });
+    expect(second.targets[0].currentImplementation).to.equal(first.targets[0].newImplementation);
+    expect(third.targets[0].currentImplementation).to.equal(second.targets[0].newImplementation);
+    expect(third.upgraded).to.deep.equal(['sfc']);
+    expect(await getImplementation(ethers.provider, this.sfc)).to.equal(third.targets[0].newImplementation);
+  });
+
+  it('Writes a Safe transaction batch when the signer is not the owner', async function () {
+    await this.sfc.transferOwnership(this.other);
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'upgrade-'));
+    try {
+      const file = path.join(dir, 'upgrade.json');
+      await expect(this.upgrade({ contracts: 'sfc' })).to.be.rejectedWith('pass --payload');
+      const report = await this.upgrade({ contracts: 'sfc', payload: file });
+      expect(report.upgraded).to.deep.equal([]);
+
+      const payload = JSON.parse(fs.readFileSync(file, 'utf8'));
+      expect(payload.chainId).to.equal('31337');
+      expect(payload.meta.createdFromSafeAddress).to.equal(this.other.address);
+      expect(payload.transactions).to.have.length(1);
+      const [tx] = payload.transactions;
+      expect(tx.to).to.equal(await this.sfc.getAddress());
+      await this.other.sendTransaction({ to: tx.to, data: tx.data, value: tx.value });
+      expect(await getImplementation(ethers.provider, this.sfc)).to.equal(report.targets[0].newImplementation);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('Fails the simulation of a NodeDriver upgrade', async function () {
+    await expect(this.upgrade({ contracts: 'nodeDriver' })).to.be.rejectedWith(
+      'Simulated upgrade of nodeDriver failed: UpgradesDisabled',
+    );
+  });
+
+  it('Rejects incompatible storage layouts and wrong references', async function () {
+    await expect(this.upgrade({ contracts: 'sfc', artifacts: 'sfc=NodeDriverAuth' })).to.be.rejectedWith(
+      'sfc storage layout check failed',
+    );
+    await expect(this.upgrade({ contracts: 'sfc', reference: 'sfc=NodeDriverAuth' })).to.be.rejectedWith(
+      'was not compiled from the reference',
+    );
+    // the deployed implementation itself is a valid reference
+    const report = await this.upgrade({ contracts: 'sfc', reference: 'sfc=SFC', dryRun: true });
+    expect(report.unexpectedChanges).to.deep.equal([]);
+  });
+});
@@ -0,0 +1,233 @@
+import hre, { ethers } from 'hardhat';
+import { expect } from 'chai';
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SFC } from '../typechain-types';
+import { pubkeyToAddress, validatePubkey } from '../lib/ValidatorPubkey';
+import { ValidatorPerformanceRow } from '../lib/ValidatorPerformance';
+import { ValidatorMetrics } from './helpers/BlockchainNode';
+import { deployNetwork, fund, randomPubkey, silenceConsole } from './helpers/Network';
+
+describe('Validator tasks', () => {
+  const fixture = async () => {
+    const [owner, other] = await ethers.getSigners();
+    const { sfc, constants, node } = await deployNetwork(owner);
+    await fund(owner, other);
+    return { sfc, owner, other, constants, node };
+  };
+
+  silenceConsole();
+
+  beforeEach(async function () {
+    Object.assign(this, await loadFixture(fixture));
+    this.createValidator = async (pubkey: string, stake: string, dryRun = false) =>
+      hre.run('sfc:create-validator', { pubkey, stake, dryRun, sfc: await this.sfc.getAddress() });
+  });
+
+  it('Validates pubkeys', async function () {
+    const pubkey = randomPubkey();
+    expect(validatePubkey(pubkey)).to.equal(undefined);
+    expect(validatePubkey('0xc004')).to.equal('pubkey must be 66 bytes long, got 2');
+    expect(validatePubkey('0xc1' + pubkey.slice(4))).to.match(/must start with 0xc0/);
+    expect(validatePubkey('0xc003' + pubkey.slice(6))).to.match(/uncompressed/);
+    expect(validatePubkey('0xc004' + 'ff'.repeat(64))).to.match(/not a point/);
+    expect(validatePubkey('xyz')).to.equal('pubkey must be a hex string');
+  });
+
+  it('Derives the pubkey address like the SFC', async function () {
+    const pubkey = randomPubkey();
+    const validatorID = await this.createValidator(pubkey, '500000');
+    expect(validatorID).to.equal(1n);
+    expect(await this.sfc.pubkeyAddressToValidatorID(pubkeyToAddress(pubkey))).to.equal(validatorID);
+  });
+
+  it('Rejects malformed pubkeys before sending', async function () {
+    await expect(this.createValidator('0xc004', '500000')).to.be.rejectedWith('pubkey must be 66 bytes long');
+    expect(await this.sfc.lastValidatorID()).to.equal(0);
+  });
+
+  it('Rejects pubkeys used by other validators', async function () {
+    const pubkey = randomPubkey();
+    await this.sfc.connect(this.other).createValidator(pubkey, { value: ethers.parseEther('500000') });
+    await expect(this.createValidator(pubkey, '500000')).to.be.rejectedWith('pubkey is already used by validator 1');
+  });
+
+  it('Rejects a self-stake below the minimum', async function () {
+    await expect(this.createValidator(randomPubkey(), '499999.9')).to.be.rejectedWith(
+      'self-stake 499999.9 is below the minimum self-stake 500000.0',
+    );
+  });
+
+  it('Rejects a second validator of the same account', async function () {
+    await this.createValidator(randomPubkey(), '500000');
+    await expect(this.createValidator(randomPubkey(), '500000')).to.be.rejectedWith(
+      'signer already created validator 1',
+    );
+  });
+
+  it('Only simulates in dry-run mode', async function () {
+    expect(await this.createValidator(randomPubkey(), '500000', true)).to.equal(undefined);
+    expect(await this.sfc.lastValidatorID()).to.equal(0);
+  });
+
+  describe('Performance', () => {
+    const performanceFixture = async () => {
+      const { sfc, owner, other, constants, node } = await fixture();
+      await constants.updateBaseRewardPerSecond(ethers.parseEther('1'));
+      await constants.updateMinAverageUptime(ethers.parseEther('0.8'));
+
+      for (const account of [owner, other]) {
+        await node.handleTx(
+          await sfc.connect(account).createValidator(randomPubkey(), { value: ethers.parseEther('500000') }),
+        );
+      }
+      await node.sealEpoch(0);
+      await node.sealEpoch(1000);
+      // validator 2 is online half of the epoch
+      await node.sealEpoch(1000, new Map([[2n, new ValidatorMetrics(500, 10, 500, 0n)]]));
+      return { sfc };
+    };
+
+    const run = async (sfc: SFC, args: object): Promise<ValidatorPerformanceRow[]> =>
+      hre.run('sfc:validator-performance', { sfc: await sfc.getAddress(), ...args });
+
+    beforeEach(async function () {
+      Object.assign(this, await loadFixture(performanceFixture));
+    });
+
+    it('Computes uptime, APR and deactivation risk per epoch', async function () {
+      const rows = await run(this.sfc, { fromEpoch: 2n, toEpoch: 3n });
+      expect(rows.map(row => [row.epoch, row.validatorID])).to.deep.equal([
+        [2, 1],
+        [2, 2],
+        [3, 1],
+        [3, 2],
+      ]);
+      const sfc: SFC = this.sfc;
+      const duration = (await sfc.epochEndTime(3)) - (await sfc.epochEndTime(2));
+      const [, , first, second] = rows;
+      expect(first.duration).to.equal(Number(duration));
+      expect(first.endBlock).to.equal(Number(await this.sfc.getEpochEndBlock(3)));
+      expect(first.uptime).to.equal(Number((1000n * 1_000_000n) / duration) / 10_000);
+      expect(second.uptime).to.equal(Number((500n * 1_000_000n) / duration) / 10_000);
+      expect(second.offlineBlocks).to.equal(10);
+      expect(second.averageUptime).to.equal(Number((await this.sfc.getEpochAverageUptime(3, 2)) / 10n ** 12n) / 10_000);
+
+      const rewardPerToken =
+        (await sfc.getEpochAccumulatedRewardPerToken(3, 1)) - (await sfc.getEpochAccumulatedRewardPerToken(2, 1));
+      const apr = (rewardPerToken * 365n * 24n * 3600n * 1_000_000n) / (duration * 10n ** 18n);
+      expect(first.apr).to.equal(Number(apr) / 10_000);
+      expect(first.apr).to.be.greaterThan(second.apr);
+
+      expect(first.risk).to.equal('ok');
+      expect(second.risk).to.equal('critical');
+      expect(second.riskReason).to.match(/below minAverageUptime/);
+    });
+
+    it('Exports CSV and JSON files', async function () {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'performance-'));
+      try {
+        await run(this.sfc, { format: 'csv', out: path.join(dir, 'performance.csv') });
+        const csv = fs.readFileSync(path.join(dir, 'performance.csv'), 'utf8').trim().split('\n');
+        expect(csv[0]).to.equal(
+          'epoch,endBlock,endTime,duration,validatorID,receivedStake,uptime,averageUptime,apr,offlineBlocks,' +
+            'offlineTime,originatedTxsFee,risk,riskReason',
+        );
+        // the default range starts at epoch 1, sealed without validators
+        expect(csv).to.have.length(5);
+
+        const multicall = await ethers.deployContract('TestingMulticall3');
+        await run(this.sfc, {
+          format: 'json',
+          out: path.join(dir, 'performance.json'),
+          multicall: await multicall.getAddress(),
+        });
+        const json = JSON.parse(fs.readFileSync(path.join(dir, 'performance.json'), 'utf8'));
+        expect(json[3].receivedStake).to.equal(ethers.parseEther('500000').toString());
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('Rejects epochs which are not sealed', async function () {
+      await expect(run(this.sfc, { fromEpoch: 2n, toEpoch: 4n })).to.be.rejectedWith(
+        'Invalid epoch range 2-4, sealed epochs are 1-3',
+      );
+    });
+  });
+
+  describe('Extra rewards', () => {
+    const extraRewardsFixture = async () => {
+      const { sfc, owner, other, constants, node } = await fixture();
+      await constants.updateExtraRewardsBurnRatio(ethers.parseEther('0.1'));
+      // distributed value is burnt from the total supply first
+      await constants.updateIssuedTokensRecipient(owner);
+      await sfc.issueTokens(ethers.parseEther('1000'));
+
+      for (const account of [owner, other]) {
+        await node.handleTx(
+          await sfc.connect(account).createValidator(randomPubkey(), { value: ethers.parseEther('500000') }),
+        );
+      }
+      await node.handleTx(await sfc.connect(other).delegate(1, { value: ethers.parseEther('250000') }));
+      // epoch 1 is sealed without validators, epoch 2 with both
+      await node.sealEpoch(0);
+      await node.sealEpoch(1000);
+      return { sfc };
+    };
+
+    const run = async (sfc: SFC, args: object) =>
+      hre.run('sfc:distribute-extra-reward', { sfc: await sfc.getAddress(), ...args });
+
+    beforeEach(async function () {
+      Object.assign(this, await loadFixture(extraRewardsFixture));
+    });
+
+    it('Distributes the previewed shares and burns the rest', async function () {
+      // the stashes hold the epoch rewards already
+      const stashes = async () =>
+        Promise.all([
+          this.sfc.rewardsStash(this.owner, 1),
+          this.sfc.rewardsStash(this.other, 2),
+          this.sfc.rewardsStash(this.other, 1),
+        ]);
+      const before = await stashes();
+      const dryRun = await run(this.sfc, { epoch: 2n, amount: '100', withBurn: true, dryRun: true });
+      expect(await stashes()).to.deep.equal(before);
+
+      const preview = await run(this.sfc, { epoch: 2n, amount: '100', withBurn: true });
+      expect(preview).to.deep.equal(dryRun);
+      expect(preview.toDistribute).to.equal(ethers.parseEther('90'));
+      expect(preview.shares.map((s: { auth: string; share: bigint }) => [s.auth, s.share])).to.deep.equal([
+        [this.owner.address, ethers.parseEther('54')],
+        [this.other.address, ethers.parseEther('36')],
+      ]);
+      expect(preview.burnt).to.equal(ethers.parseEther('10'));
+      // the delegation of other to validator 1 gets nothing
+      const after = await stashes();
+      expect(after.map((stash, i) => stash - before[i])).to.deep.equal([
+        ethers.parseEther('54'),
+        ethers.parseEther('36'),
+        0n,
+      ]);
+
+      const [event] = await this.sfc.queryFilter(this.sfc.filters.DistributedExtraRewards());
+      expect([event.args.received, event.args.distributed]).to.deep.equal([preview.received, preview.distributed]);
+    });
+
+    it('Rejects distributions which would revert or burn everything', async function () {
+      await expect(run(this.sfc, { epoch: 3n, amount: '100' })).to.be.rejectedWith(
+        'InvalidEpoch: epoch 3 is not sealed, the last sealed one is 2',
+      );
+      await expect(run(this.sfc, { epoch: 2n, amount: '0' })).to.be.rejectedWith('ZeroRewards');
+      await expect(run(this.sfc, { epoch: 2n, amount: '2000' })).to.be.rejectedWith(
+        'ValueTooLarge: the value is burnt first',
+      );
+      await expect(run(this.sfc, { epoch: 1n, amount: '100' })).to.be.rejectedWith(
+        'Epoch 1 has no validators, the whole amount would be burnt',
+      );
+    });
+  });
+});
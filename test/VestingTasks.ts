@@ -0,0 +1,140 @@
+import hre, { ethers } from 'hardhat';
+import { expect } from 'chai';
+import { loadFixture, time } from '@nomicfoundation/hardhat-network-helpers';
+import { vestingSchedule } from '../lib/VestingSchedule';
+import { silenceConsole } from './helpers/Network';
+
+describe('Vesting tasks', () => {
+  const fixture = async () => {
+    const [deployer, cto, other] = await ethers.getSigners();
+    await ethers.provider.send('hardhat_setBalance', [
+      deployer.address,
+      ethers.toBeHex(ethers.parseEther('200000000')),
+    ]);
+    return { deployer, cto, other };
+  };
+
+  silenceConsole();
+
+  beforeEach(async function () {
+    Object.assign(this, await loadFixture(fixture));
+  });
+
+  it('Deploys, funds in tranches and starts the vesting', async function () {
+    const nonce = await ethers.provider.getTransactionCount(this.deployer);
+    const vesting = await hre.run('vesting:deploy', { cto: this.cto.address, tranche: '30000000', start: true });
+
+    expect(await vesting.CTO()).to.equal(this.cto.address);
+    expect(await vesting.owner()).to.equal(this.deployer.address);
+    expect(await vesting.contractBalance()).to.equal(await vesting.TOTAL_TOKENS());
+    expect(await vesting.startTime()).to.not.equal(0);
+    // deployment, three tranches and startVesting
+    expect(await ethers.provider.getTransactionCount(this.deployer)).to.equal(nonce + 5);
+  });
+
+  it('Makes no transactions in a dry run', async function () {
+    const nonce = await ethers.provider.getTransactionCount(this.deployer);
+    expect(await hre.run('vesting:deploy', { cto: this.cto.address, start: true, dryRun: true })).to.equal(undefined);
+    expect(await ethers.provider.getTransactionCount(this.deployer)).to.equal(nonce);
+  });
+
+  it('Resumes partial funding up to TOTAL_TOKENS', async function () {
+    const vesting = await hre.run('vesting:deploy', {
+      cto: this.cto.address,
+      owner: this.other.address,
+      amount: '25000000',
+    });
+    expect(await vesting.contractBalance()).to.equal(ethers.parseEther('25000000'));
+    expect(await vesting.startTime()).to.equal(0);
+
+    const address = await vesting.getAddress();
+    await expect(hre.run('vesting:deploy', { vesting: address, amount: '50000001' })).to.be.rejectedWith(
+      'would exceed TOTAL_TOKENS',
+    );
+    await expect(hre.run('vesting:deploy', { vesting: address, owner: this.cto.address })).to.be.rejectedWith(
+      '--owner only applies to a new contract',
+    );
+    await expect(hre.run('vesting:deploy', { vesting: address, start: true })).to.be.rejectedWith(
+      `only the owner ${this.other.address} can start the vesting`,
+    );
+    await hre.run('vesting:deploy', { vesting: address, tranche: '20000000' });
+    expect(await vesting.contractBalance()).to.equal(await vesting.TOTAL_TOKENS());
+  });
+
+  it('Refuses to start the vesting before it is fully funded', async function () {
+    await expect(hre.run('vesting:deploy', { cto: this.cto.address, amount: '1000', start: true })).to.be.rejectedWith(
+      'vesting can only be started once the contract holds TOTAL_TOKENS',
+    );
+    await expect(hre.run('vesting:deploy', {})).to.be.rejectedWith('--cto is required');
+  });
+
+  describe('Inspector', () => {
+    const MONTH = 30 * 24 * 60 * 60;
+
+    beforeEach(async function () {
+      this.vesting = await hre.run('vesting:deploy', { cto: this.cto.address });
+      this.inspect = async (keeper = false) =>
+        hre.run('vesting:inspect', { vesting: await this.vesting.getAddress(), keeper });
+    });
+
+    it('Computes the schedule of the contract', async function () {
+      const schedule = vestingSchedule({
+        startTime: 1n,
+        totalTokens: await this.vesting.TOTAL_TOKENS(),
+        monthlyRelease: await this.vesting.MONTHLY_RELEASE(),
+        vestingDuration: await this.vesting.VESTING_DURATION(),
+        secondsPerMonth: await this.vesting.SECONDS_PER_MONTH(),
+      });
+      expect(schedule.length).to.equal(36);
+      expect(schedule[0].amount).to.equal(ethers.parseEther('120000'));
+      expect(schedule[34].cumulative).to.equal(ethers.parseEther('4200000'));
+      // everything left is unlocked after the vesting duration
+      expect(schedule[35].amount).to.equal(ethers.parseEther('70800000'));
+      expect(schedule[35].cumulative).to.equal(await this.vesting.TOTAL_TOKENS());
+    });
+
+    it('Reports nothing releasable before the vesting is started', async function () {
+      const report = await this.inspect(true);
+      expect(report.releasable).to.equal(0);
+      expect(report.nextUnlock).to.equal(undefined);
+      expect(report.schedule.every((row: { status: string }) => row.status === 'locked')).to.equal(true);
+      expect(await this.vesting.totalReleased()).to.equal(0);
+    });
+
+    it('Releases vested tokens in keeper mode', async function () {
+      await this.vesting.startVesting();
+      const startTime = await this.vesting.startTime();
+      await time.increase(3 * MONTH);
+
+      let report = await this.inspect();
+      expect(report.releasable).to.equal(ethers.parseEther('360000'));
+      expect(report.nextUnlock.month).to.equal(4);
+      expect(report.nextUnlock.unlockTime).to.equal(startTime + BigInt(4 * MONTH));
+      expect(report.schedule[2].status).to.equal('releasable');
+      expect(report.schedule[3].status).to.equal('locked');
+
+      const balance = await ethers.provider.getBalance(this.cto);
+      expect((await this.inspect(true)).released).to.equal(ethers.parseEther('360000'));
+      expect(await ethers.provider.getBalance(this.cto)).to.equal(balance + ethers.parseEther('360000'));
+      report = await this.inspect(true);
+      expect(report.releasable).to.equal(0);
+      expect(report.released).to.equal(undefined);
+      expect(report.schedule[2].status).to.equal('released');
+
+      await time.increaseTo(startTime + BigInt(36 * MONTH));
+      report = await this.inspect(true);
+      expect(report.released).to.equal(ethers.parseEther('74640000'));
+      expect(report.nextUnlock).to.equal(undefined);
+      expect(await this.vesting.contractBalance()).to.equal(0);
+    });
+
+    it('Refuses to release for other accounts', async function () {
+      const vesting = await hre.run('vesting:deploy', { cto: this.cto.address, owner: this.other.address });
+      await vesting.connect(this.other).startVesting();
+      await time.increase(MONTH);
+      await expect(
+        hre.run('vesting:inspect', { vesting: await vesting.getAddress(), keeper: true }),
+      ).to.be.rejectedWith('Only the CTO or the owner can release');
+    });
+  });
+});
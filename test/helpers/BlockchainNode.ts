@@ -1,7 +1,8 @@
-import { SFC } from '../../typechain-types';
-import { TransactionResponse } from 'ethers';
+import { NodeDriver__factory, SFC } from '../../typechain-types';
+import { LogDescription, TransactionResponse } from 'ethers';
 import { ethers } from 'hardhat';
 import { time } from '@nomicfoundation/hardhat-network-helpers';
+import { EpochMetrics, RewardSimulator } from '../../lib/RewardSimulator';
 
 class ValidatorMetrics {
   public readonly offlineTime: number;
@@ -17,23 +18,63 @@ class ValidatorMetrics {
   }
 }
 
+interface RecordedEvent {
+  // epoch the event was emitted in (the sealed epoch for sealing events)
+  epoch: bigint;
+  txHash: string;
+  contract: 'SFC' | 'NodeDriver';
+  name: string;
+  args: Record<string, unknown>;
+}
+
 class BlockchainNode {
   public readonly sfc: SFC;
+  public readonly simulator?: RewardSimulator;
+  public readonly recordEvents: boolean;
   public validatorWeights: Map<bigint, bigint>;
   public nextValidatorWeights: Map<bigint, bigint>;
   public totalWeight: bigint = 0n;
+  // all SFC and NodeDriver events of the handled txs, when recorded
+  public events: RecordedEvent[] = [];
+  private readonly sfcAddress: string;
 
-  constructor(sfc: SFC) {
+  // When a simulator is given, SFC events of handled txs are replayed into it and
+  // every sealed epoch is cross-checked against the contract state.
+  constructor(sfc: SFC, simulator?: RewardSimulator, recordEvents = false) {
     this.sfc = sfc;
+    this.sfcAddress = sfc.target as string;
+    this.simulator = simulator;
+    this.recordEvents = recordEvents;
     this.validatorWeights = new Map();
     this.nextValidatorWeights = new Map();
   }
 
+  // Copy of the node state to be used in tests sharing a fixture - the chain state is reverted
+  // by loadFixture() but the node state is not.
+  clone(): BlockchainNode {
+    const copy = new BlockchainNode(this.sfc, this.simulator?.clone(), this.recordEvents);
+    copy.validatorWeights = new Map(this.validatorWeights);
+    copy.nextValidatorWeights = new Map(this.nextValidatorWeights);
+    copy.totalWeight = this.totalWeight;
+    copy.events = [...this.events];
+    return copy;
+  }
+
   async handleTx(tx: TransactionResponse) {
-    const iface = new ethers.Interface(['event UpdateValidatorWeight(uint256 indexed validatorID, uint256 weight)']);
-    const logs = (await tx.wait())!.logs;
-    for (const log of logs) {
+    const iface = NodeDriver__factory.createInterface();
+    const receipt = (await tx.wait())!;
+    // read only for the recorded events, the timing of the tests depends on the calls made here
+    const epoch = this.recordEvents ? await this.sfc.currentEpoch({ blockTag: receipt.blockNumber - 1 }) : 0n;
+    for (const log of receipt.logs) {
+      if (log.address === this.sfcAddress) {
+        if (this.simulator) {
+          this.simulateSfcLog(this.simulator, log);
+        }
+        this.recordEvent(epoch, receipt.hash, 'SFC', this.sfc.interface.parseLog(log));
+        continue;
+      }
       const parsedLog = iface.parseLog(log);
+      this.recordEvent(epoch, receipt.hash, 'NodeDriver', parsedLog);
       if (parsedLog?.name === 'UpdateValidatorWeight') {
         const validatorID = ethers.toBigInt(parsedLog.args.validatorID);
         const weight = ethers.toBigInt(parsedLog.args.weight);
@@ -48,9 +89,12 @@ class BlockchainNode {
     }
   }
 
+  async deactivateValidator(validatorID: bigint, status: number) {
+    await this.handleTx(await this.sfc.deactivateValidator(validatorID, status));
+  }
+
   async sealEpoch(duration: number, validatorMetrics?: Map<bigint, ValidatorMetrics>) {
     const validatorIds = Array.from(this.validatorWeights.keys());
-    const nextValidatorIds = Array.from(this.nextValidatorWeights.keys());
 
     // unpack metrics
     const [offlineTimes, offlineBlocks, uptimes, originatedTxsFees] = validatorIds.reduce(
@@ -70,11 +114,105 @@ class BlockchainNode {
 
     await time.increase(duration);
     await this.handleTx(await this.sfc.sealEpoch(offlineTimes, offlineBlocks, uptimes, originatedTxsFees));
+    // validators deactivated while sealing (offline penalty) are excluded from the next epoch
+    const nextValidatorIds = Array.from(this.nextValidatorWeights.keys());
     await this.handleTx(await this.sfc.sealEpochValidators(nextValidatorIds));
 
     // update validators
     this.validatorWeights = new Map(this.nextValidatorWeights);
+
+    if (this.simulator) {
+      const metrics: Map<bigint, EpochMetrics> = new Map();
+      validatorIds.forEach((id, i) => {
+        metrics.set(id, {
+          offlineTime: BigInt(offlineTimes[i]),
+          offlineBlocks: BigInt(offlineBlocks[i]),
+          uptime: BigInt(uptimes[i]),
+          originatedTxsFee: originatedTxsFees[i],
+        });
+      });
+      await this.simulateSealEpoch(this.simulator, metrics, nextValidatorIds);
+    }
+  }
+
+  private recordEvent(
+    epoch: bigint,
+    txHash: string,
+    contract: RecordedEvent['contract'],
+    parsedLog: LogDescription | null,
+  ) {
+    if (parsedLog && this.recordEvents) {
+      this.events.push({ epoch, txHash, contract, name: parsedLog.name, args: parsedLog.args.toObject() });
+    }
+  }
+
+  private simulateSfcLog(simulator: RewardSimulator, log: { topics: readonly string[]; data: string }) {
+    const parsedLog = this.sfc.interface.parseLog(log);
+    switch (parsedLog?.name) {
+      case 'CreatedValidator':
+        simulator.createValidator(parsedLog.args.validatorID, parsedLog.args.auth);
+        break;
+      case 'DeactivatedValidator':
+        simulator.deactivateValidator(parsedLog.args.validatorID);
+        break;
+      case 'Delegated':
+        simulator.delegate(parsedLog.args.delegator, parsedLog.args.toValidatorID, parsedLog.args.amount);
+        break;
+      case 'Undelegated':
+        simulator.undelegate(parsedLog.args.delegator, parsedLog.args.toValidatorID, parsedLog.args.amount);
+        break;
+      case 'ClaimedRewards':
+      case 'RestakedRewards':
+        simulator.claimRewards(parsedLog.args.delegator, parsedLog.args.toValidatorID);
+        break;
+    }
+  }
+
+  private async simulateSealEpoch(
+    simulator: RewardSimulator,
+    metrics: Map<bigint, EpochMetrics>,
+    nextValidatorIds: bigint[],
+  ) {
+    const consts = await ethers.getContractAt('ConstantsManager', await this.sfc.constsAddress());
+    const sealedEpoch = await this.sfc.currentSealedEpoch();
+    const endTime = await this.sfc.epochEndTime(sealedEpoch);
+    const prevEndTime = await this.sfc.epochEndTime(sealedEpoch - 1n);
+    const treasurySet = (await this.sfc.treasuryAddress()) !== ethers.ZeroAddress;
+
+    const constants = {
+      baseRewardPerSecond: await consts.baseRewardPerSecond(),
+      validatorCommission: await consts.validatorCommission(),
+      burntFeeShare: await consts.burntFeeShare(),
+      treasuryFeeShare: await consts.treasuryFeeShare(),
+      offlinePenaltyThresholdBlocksNum: await consts.offlinePenaltyThresholdBlocksNum(),
+      offlinePenaltyThresholdTime: await consts.offlinePenaltyThresholdTime(),
+    };
+    const duration = endTime > prevEndTime ? endTime - prevEndTime : 1n;
+    simulator.sealEpoch(constants, duration, metrics, treasurySet);
+    simulator.sealEpochValidators(nextValidatorIds);
+
+    if (simulator.currentSealedEpoch !== sealedEpoch) {
+      throw new Error(`Simulator sealed epoch ${simulator.currentSealedEpoch}, SFC sealed epoch ${sealedEpoch}`);
+    }
+    for (const validatorID of metrics.keys()) {
+      const expected = simulator.getAccumulatedRewardPerToken(sealedEpoch, validatorID);
+      const actual = await this.sfc.getEpochAccumulatedRewardPerToken(sealedEpoch, validatorID);
+      if (expected !== actual) {
+        throw new Error(
+          `Accumulated reward per token of validator ${validatorID} in epoch ${sealedEpoch}: simulated ${expected}, SFC ${actual}`,
+        );
+      }
+    }
+    for (const [delegator, validatorID] of simulator.delegations()) {
+      const expected = simulator.pendingRewards(delegator, validatorID);
+      const actual = await this.sfc.pendingRewards(delegator, validatorID);
+      if (expected !== actual) {
+        throw new Error(
+          `Pending rewards of ${delegator} to validator ${validatorID} in epoch ${sealedEpoch}: simulated ${expected}, SFC ${actual}`,
+        );
+      }
+    }
   }
 }
 
-export { BlockchainNode, ValidatorMetrics };
+export { BlockchainNode, RecordedEvent, ValidatorMetrics };
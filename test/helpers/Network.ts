@@ -0,0 +1,108 @@
+import { ethers, upgrades } from 'hardhat';
+import { Addressable } from 'ethers';
+import {
+  ConstantsManager,
+  IEVMWriter,
+  NetworkInitializer,
+  NodeDriver,
+  NodeDriverAuth,
+  SFC,
+} from '../../typechain-types';
+import { Genesis } from '../../lib/Genesis';
+import { RewardSimulator } from '../../lib/RewardSimulator';
+import { BlockchainNode } from './BlockchainNode';
+
+// Network contracts of the tests: the SFC, NodeDriver and NodeDriverAuth proxies initialized by the
+// NetworkInitializer with a stub EVM writer, and a BlockchainNode sealing the epochs through the NodeDriverAuth.
+
+interface TestNetwork {
+  sfc: SFC;
+  nodeDriver: NodeDriver;
+  nodeDriverAuth: NodeDriverAuth;
+  constants: ConstantsManager;
+  // the SFC as called by the node
+  sfcAsNode: SFC;
+  node: BlockchainNode;
+}
+
+interface TestNetworkOptions {
+  totalSupply?: bigint;
+  // replayed and cross-checked by the node, see BlockchainNode
+  simulator?: RewardSimulator;
+}
+
+/** Fund the accounts with 10M native tokens. */
+async function fund(...accounts: Addressable[]) {
+  for (const account of accounts) {
+    await ethers.provider.send('hardhat_setBalance', [
+      await account.getAddress(),
+      ethers.toBeHex(ethers.parseEther('10000000')),
+    ]);
+  }
+}
+
+/** Deploy and initialize the network contracts owned by the owner. */
+async function deployNetwork(owner: Addressable, options: TestNetworkOptions = {}): Promise<TestNetwork> {
+  const deployProxy = async (name: string) =>
+    upgrades.deployProxy(await ethers.getContractFactory(name), { kind: 'uups', initializer: false });
+  const sfc: SFC = await ethers.getContractAt('SFC', await deployProxy('SFC'));
+  const nodeDriver: NodeDriver = await ethers.getContractAt('NodeDriver', await deployProxy('NodeDriver'));
+  const nodeDriverAuth: NodeDriverAuth = await ethers.getContractAt(
+    'NodeDriverAuth',
+    await deployProxy('NodeDriverAuth'),
+  );
+
+  const evmWriter: IEVMWriter = await ethers.deployContract('StubEvmWriter');
+  const initializer: NetworkInitializer = await ethers.deployContract('NetworkInitializer');
+  await initializer.initializeAll(0, options.totalSupply ?? 0n, sfc, nodeDriverAuth, nodeDriver, evmWriter, owner);
+  const constants: ConstantsManager = await ethers.getContractAt('ConstantsManager', await sfc.constsAddress());
+
+  const sfcAsNode = sfc.connect(await ethers.getImpersonatedSigner(await nodeDriverAuth.getAddress()));
+  await fund(nodeDriverAuth);
+  return {
+    sfc,
+    nodeDriver,
+    nodeDriverAuth,
+    constants,
+    sfcAsNode,
+    node: new BlockchainNode(sfcAsNode, options.simulator),
+  };
+}
+
+/** Apply the genesis to the Hardhat network the way the node does, the contracts at their system addresses. */
+async function applyGenesis(genesis: Genesis) {
+  for (const account of genesis.accounts) {
+    if (account.code) {
+      await ethers.provider.send('hardhat_setCode', [account.address, account.code]);
+    }
+    for (const [slot, value] of Object.entries(account.storage ?? {})) {
+      await ethers.provider.send('hardhat_setStorageAt', [account.address, slot, value]);
+    }
+    if (account.balance !== undefined) {
+      await ethers.provider.send('hardhat_setBalance', [account.address, ethers.toBeHex(account.balance)]);
+    }
+  }
+  const node = await ethers.getImpersonatedSigner(ethers.ZeroAddress);
+  await ethers.provider.send('hardhat_setBalance', [ethers.ZeroAddress, ethers.toBeHex(ethers.parseEther('100'))]);
+  for (const tx of genesis.txs) {
+    await (await node.sendTransaction({ to: tx.to, data: tx.data })).wait();
+  }
+}
+
+/** Random validator pubkey, in the secp256k1 format of the SFC. */
+function randomPubkey(): string {
+  return ethers.concat(['0xc0', ethers.Wallet.createRandom().signingKey.publicKey]);
+}
+
+/** Drop what the tasks print in the tests of the calling describe block. */
+function silenceConsole() {
+  const log = console.log;
+  beforeEach(() => {
+    console.log = () => {};
+  });
+  afterEach(() => {
+    console.log = log;
+  });
+}
+
+export { TestNetwork, TestNetworkOptions, applyGenesis, deployNetwork, fund, randomPubkey, silenceConsole };
@@ -0,0 +1,307 @@
+import { ConstantsManager, SFC } from '../../typechain-types';
+import { HardhatEthersSigner } from '@nomicfoundation/hardhat-ethers/signers';
+import { ethers } from 'hardhat';
+import { expect } from 'chai';
+import { BlockchainNode, RecordedEvent, ValidatorMetrics } from './BlockchainNode';
+import { RewardSimulator } from '../../lib/RewardSimulator';
+
+// Declarative scenarios replayed over a local SFC deployment.
+// Amounts are in whole tokens (parsed by ethers.parseEther), constants are raw integers,
+// accounts and validators are referred to by names declared in the scenario.
+
+type ScenarioAction =
+  | { type: 'createValidator'; account: string; stake: string; revert?: string }
+  | { type: 'delegate'; account: string; validator: string; amount: string; revert?: string }
+  | { type: 'undelegate'; account: string; validator: string; wrID: number; amount: string; revert?: string }
+  | { type: 'withdraw'; account: string; validator: string; wrID: number; revert?: string }
+  | { type: 'claimRewards'; account: string; validator: string; revert?: string }
+  | { type: 'restakeRewards'; account: string; validator: string; revert?: string }
+  | { type: 'deactivate'; validator: string; status: 'doublesign' | 'offline' | number }
+  | {
+      type: 'distributeExtraReward';
+      account: string;
+      amount: string;
+      withBurn: boolean;
+      // chain epoch; defaults to the last sealed epoch
+      epoch?: number;
+      revert?: string;
+    }
+  | { type: 'updateConstant'; name: string; value: string }
+  | { type: 'updateSlashingRefundRatio'; validator: string; ratio: string };
+
+interface ScenarioEpoch {
+  // epoch duration in seconds, defaults to Scenario.epochDuration
+  duration?: number;
+  actions?: ScenarioAction[];
+  // validator => fee of txs originated by the validator in this epoch
+  fees?: Record<string, string>;
+}
+
+interface Downtime {
+  validator: string;
+  // scenario epoch indexes, the window is [fromEpoch, toEpoch)
+  fromEpoch: number;
+  toEpoch: number;
+}
+
+interface ExpectedEvent {
+  name: string;
+  // scenario epoch index
+  epoch?: number;
+  // expected args; names of accounts are resolved to validator IDs for validator ID args, to addresses otherwise
+  args?: Record<string, string | number | boolean>;
+  // expected number of matching events, at least one by default
+  count?: number;
+}
+
+interface Scenario {
+  name: string;
+  description?: string;
+  accounts: string[];
+  epochDuration: number;
+  constants?: Record<string, string>;
+  downtimes?: Downtime[];
+  epochs: ScenarioEpoch[];
+  expectEvents?: ExpectedEvent[];
+}
+
+interface EpochRecord {
+  // scenario epoch index
+  index: number;
+  sealedEpoch: bigint;
+  totalSupply: bigint;
+  totalStake: bigint;
+  totalActiveStake: bigint;
+  balances: Record<string, bigint>;
+  // "<account>/<validator>" => stake, pending rewards
+  stakes: Record<string, bigint>;
+  pendingRewards: Record<string, bigint>;
+}
+
+interface ScenarioResult {
+  events: (RecordedEvent & { index: number })[];
+  epochs: EpochRecord[];
+}
+
+const STATUSES = { doublesign: 1 << 7, offline: 1 << 3 };
+
+class ScenarioRunner {
+  public readonly node: BlockchainNode;
+  private readonly sfc: SFC;
+  private readonly constants: ConstantsManager;
+  private readonly owner: HardhatEthersSigner;
+  private readonly accounts: Map<string, HardhatEthersSigner> = new Map();
+  private readonly validatorIDs: Map<string, bigint> = new Map();
+  private readonly accumulatedFees: Map<bigint, bigint> = new Map();
+  private readonly offline: Map<bigint, { time: number; blocks: number }> = new Map();
+
+  constructor(sfcAsNode: SFC, constants: ConstantsManager, owner: HardhatEthersSigner) {
+    this.sfc = sfcAsNode.connect(owner);
+    this.constants = constants;
+    this.owner = owner;
+    this.node = new BlockchainNode(sfcAsNode, new RewardSimulator(), true);
+  }
+
+  /**
+   * Replay the scenario epoch by epoch, recording all events and balances.
+   * Scenario accounts are bound to the given signers in the declared order.
+   */
+  async run(scenario: Scenario, signers: HardhatEthersSigner[]): Promise<ScenarioResult> {
+    if (signers.length < scenario.accounts.length) {
+      throw new Error(`Scenario ${scenario.name} needs ${scenario.accounts.length} accounts`);
+    }
+    scenario.accounts.forEach((name, i) => this.accounts.set(name, signers[i]));
+    for (const [name, value] of Object.entries(scenario.constants ?? {})) {
+      await this.updateConstant(name, value);
+    }
+
+    const result: ScenarioResult = { events: [], epochs: [] };
+    for (const [index, epoch] of scenario.epochs.entries()) {
+      const eventsBefore = this.node.events.length;
+      for (const action of epoch.actions ?? []) {
+        await this.execute(action);
+      }
+      const duration = epoch.duration ?? scenario.epochDuration;
+      await this.node.sealEpoch(duration, this.epochMetrics(scenario, index, duration, epoch.fees ?? {}));
+
+      result.events.push(...this.node.events.slice(eventsBefore).map(e => ({ ...e, index })));
+      result.epochs.push(await this.record(index));
+    }
+
+    for (const expected of scenario.expectEvents ?? []) {
+      this.expectEvent(result, expected);
+    }
+    return result;
+  }
+
+  private async execute(action: ScenarioAction) {
+    if (action.type === 'updateConstant') {
+      return this.updateConstant(action.name, action.value);
+    }
+    if (action.type === 'updateSlashingRefundRatio') {
+      const tx = this.sfc.updateSlashingRefundRatio(this.validator(action.validator), ethers.parseEther(action.ratio));
+      return this.node.handleTx(await tx);
+    }
+    if (action.type === 'deactivate') {
+      const status = typeof action.status === 'number' ? action.status : STATUSES[action.status];
+      return this.node.deactivateValidator(this.validator(action.validator), status);
+    }
+
+    const sfc = this.sfc.connect(this.account(action.account));
+    let tx;
+    // replayed into the simulator once the tx is mined
+    let extraReward: { epoch: bigint; amount: bigint; withBurn: boolean } | undefined;
+    switch (action.type) {
+      case 'createValidator': {
+        const pubkey = ethers.concat(['0xc0', new ethers.Wallet(ethers.id(action.account)).signingKey.publicKey]);
+        tx = sfc.createValidator(pubkey, { value: ethers.parseEther(action.stake) });
+        break;
+      }
+      case 'delegate':
+        tx = sfc.delegate(this.validator(action.validator), { value: ethers.parseEther(action.amount) });
+        break;
+      case 'undelegate':
+        tx = sfc.undelegate(this.validator(action.validator), action.wrID, ethers.parseEther(action.amount));
+        break;
+      case 'withdraw':
+        tx = sfc.withdraw(this.validator(action.validator), action.wrID);
+        break;
+      case 'claimRewards':
+        tx = sfc.claimRewards(this.validator(action.validator));
+        break;
+      case 'restakeRewards':
+        tx = sfc.restakeRewards(this.validator(action.validator));
+        break;
+      case 'distributeExtraReward': {
+        const epoch = action.epoch !== undefined ? BigInt(action.epoch) : await this.sfc.currentSealedEpoch();
+        const amount = ethers.parseEther(action.amount);
+        tx = sfc.distributeExtraReward(epoch, action.withBurn, { value: amount });
+        extraReward = { epoch, amount, withBurn: action.withBurn };
+        break;
+      }
+    }
+
+    if (action.revert) {
+      await expect(tx).to.be.revertedWithCustomError(this.sfc, action.revert);
+      return;
+    }
+    await this.node.handleTx(await tx);
+
+    if (extraReward && this.node.simulator) {
+      // extra rewards are stashed without per-validator events, replay them into the model directly
+      const burnRatio = await this.constants.extraRewardsBurnRatio();
+      const { epoch, amount, withBurn } = extraReward;
+      this.node.simulator.distributeExtraReward(epoch, amount, withBurn, burnRatio);
+    }
+
+    if (action.type === 'createValidator') {
+      this.validatorIDs.set(action.account, await this.sfc.getValidatorID(this.account(action.account)));
+    }
+  }
+
+  private async updateConstant(name: string, value: string) {
+    const method = `update${name.charAt(0).toUpperCase()}${name.slice(1)}`;
+    const update = this.constants.connect(this.owner).getFunction(method);
+    await (await update(BigInt(value))).wait();
+  }
+
+  private epochMetrics(
+    scenario: Scenario,
+    index: number,
+    duration: number,
+    fees: Record<string, string>,
+  ): Map<bigint, ValidatorMetrics> {
+    for (const [validator, fee] of Object.entries(fees)) {
+      const validatorID = this.validator(validator);
+      this.accumulatedFees.set(validatorID, (this.accumulatedFees.get(validatorID) ?? 0n) + ethers.parseEther(fee));
+    }
+
+    const metrics = new Map<bigint, ValidatorMetrics>();
+    for (const validatorID of this.node.validatorWeights.keys()) {
+      const down = (scenario.downtimes ?? []).some(
+        d => this.validator(d.validator) === validatorID && d.fromEpoch <= index && index < d.toEpoch,
+      );
+      // the node reports consecutive offline time and blocks, assuming one block per second
+      const offline = down ? (this.offline.get(validatorID) ?? { time: 0, blocks: 0 }) : { time: 0, blocks: 0 };
+      if (down) {
+        offline.time += duration;
+        offline.blocks += duration;
+      }
+      this.offline.set(validatorID, offline);
+      const originatedTxsFee = this.accumulatedFees.get(validatorID) ?? 0n;
+      metrics.set(
+        validatorID,
+        new ValidatorMetrics(offline.time, offline.blocks, down ? 0 : duration, originatedTxsFee),
+      );
+    }
+    return metrics;
+  }
+
+  private async record(index: number): Promise<EpochRecord> {
+    const record: EpochRecord = {
+      index,
+      sealedEpoch: await this.sfc.currentSealedEpoch(),
+      totalSupply: await this.sfc.totalSupply(),
+      totalStake: await this.sfc.totalStake(),
+      totalActiveStake: await this.sfc.totalActiveStake(),
+      balances: {},
+      stakes: {},
+      pendingRewards: {},
+    };
+    for (const [name, signer] of this.accounts) {
+      record.balances[name] = await ethers.provider.getBalance(signer);
+      for (const [validator, validatorID] of this.validatorIDs) {
+        const stake = await this.sfc.getStake(signer, validatorID);
+        const pendingRewards = await this.sfc.pendingRewards(signer, validatorID);
+        if (stake !== 0n || pendingRewards !== 0n) {
+          record.stakes[`${name}/${validator}`] = stake;
+          record.pendingRewards[`${name}/${validator}`] = pendingRewards;
+        }
+      }
+    }
+    return record;
+  }
+
+  private expectEvent(result: ScenarioResult, expected: ExpectedEvent) {
+    const matching = result.events.filter(
+      e =>
+        e.name === expected.name &&
+        (expected.epoch === undefined || e.index === expected.epoch) &&
+        Object.entries(expected.args ?? {}).every(([key, value]) => String(e.args[key]) === this.resolve(key, value)),
+    );
+    const description = `${expected.name}${JSON.stringify(expected.args ?? {})} in epoch ${expected.epoch ?? 'any'}`;
+    if (expected.count !== undefined) {
+      expect(matching).to.have.length(expected.count, description);
+    } else {
+      expect(matching.length).to.be.greaterThan(0, description);
+    }
+  }
+
+  private resolve(key: string, value: string | number | boolean): string {
+    if (typeof value === 'string' && key.toLowerCase().endsWith('validatorid') && this.validatorIDs.has(value)) {
+      return String(this.validatorIDs.get(value));
+    }
+    if (typeof value === 'string' && this.accounts.has(value)) {
+      return this.accounts.get(value)!.address;
+    }
+    return String(value);
+  }
+
+  private account(name: string): HardhatEthersSigner {
+    const signer = this.accounts.get(name);
+    if (!signer) {
+      throw new Error(`Unknown scenario account ${name}`);
+    }
+    return signer;
+  }
+
+  private validator(name: string): bigint {
+    const validatorID = this.validatorIDs.get(name);
+    if (validatorID === undefined) {
+      throw new Error(`Account ${name} has not created a validator`);
+    }
+    return validatorID;
+  }
+}
+
+export { Scenario, ScenarioAction, ScenarioEpoch, ScenarioResult, EpochRecord, ScenarioRunner };
@@ -0,0 +1,196 @@
+import { BrowserProvider, JsonRpcSigner, Transaction, ZeroAddress, ZeroHash, toQuantity } from 'ethers';
+import { network } from 'hardhat';
+import { ProviderWrapper } from 'hardhat/plugins';
+import { EIP1193Provider, EthereumProvider, JsonRpcRequest, JsonRpcResponse, RequestArguments } from 'hardhat/types';
+import { SubsidiesRegistry__factory } from '../../typechain-types';
+
+interface SponsoredTx {
+  hash: string;
+  fundId: string;
+  fee: bigint;
+  deductFeesHash: string;
+}
+
+interface PendingTx {
+  from: string;
+  to: string;
+  value: bigint;
+  nonce: bigint;
+  data: string;
+  gas: bigint;
+}
+
+const registryInterface = SubsidiesRegistry__factory.createInterface();
+
+// Stand-in for the sponsored txs handling of the Pano node on the Hardhat network.
+// Txs with a zero gas price are checked by chooseFund (called from address(0) within chooseFundGasLimit),
+// executed with a zero base fee and followed by deductFees of the chosen fund sent from address(0)
+// within deductFeesGasLimit. The fee covered is (gas limit + overhead charge) x base fee.
+// Other requests are passed to the Hardhat network unchanged.
+class SponsoredTxNode extends ProviderWrapper implements EthereumProvider {
+  public readonly registry: string;
+  // ethers provider of the node, over its EIP-1193 interface
+  public readonly provider: BrowserProvider;
+  // sponsored txs handled so far
+  public sponsored: SponsoredTx[] = [];
+
+  constructor(registry: string, wrapped: EIP1193Provider = network.provider) {
+    super(wrapped);
+    this.registry = registry;
+    // no caching, the Hardhat network mines a block per tx
+    this.provider = new BrowserProvider(this, undefined, { cacheTimeout: -1 });
+  }
+
+  /** Signer sending through the node, for the Hardhat accounts and the impersonated ones. */
+  async getSigner(address: string): Promise<JsonRpcSigner> {
+    return new JsonRpcSigner(this.provider, address);
+  }
+
+  async request(args: RequestArguments): Promise<unknown> {
+    const params = this._getParams(args);
+    if (args.method === 'eth_sendTransaction' && isZeroGasPrice(params[0])) {
+      const tx = params[0];
+      const pending: PendingTx = {
+        from: tx.from,
+        to: tx.to ?? ZeroAddress,
+        value: BigInt(tx.value ?? 0),
+        nonce: BigInt(tx.nonce ?? ((await this.send('eth_getTransactionCount', [tx.from, 'pending'])) as string)),
+        data: tx.data ?? tx.input ?? '0x',
+        gas: BigInt(tx.gas ?? ((await this.send('eth_estimateGas', [tx])) as string)),
+      };
+      return this.sponsor(pending, () => this._wrappedProvider.request(args));
+    }
+    if (args.method === 'eth_sendRawTransaction') {
+      const tx = Transaction.from(params[0]);
+      if ((tx.gasPrice ?? tx.maxFeePerGas) === 0n) {
+        const pending: PendingTx = {
+          from: tx.from!,
+          to: tx.to ?? ZeroAddress,
+          value: tx.value,
+          nonce: BigInt(tx.nonce),
+          data: tx.data,
+          gas: tx.gasLimit,
+        };
+        return this.sponsor(pending, () => this._wrappedProvider.request(args));
+      }
+    }
+    return this._wrappedProvider.request(args);
+  }
+
+  async send(method: string, params?: unknown[]): Promise<unknown> {
+    return this.request({ method, params });
+  }
+
+  sendAsync(payload: JsonRpcRequest, callback: (error: unknown, response: JsonRpcResponse) => void) {
+    this.request(payload).then(
+      result => callback(null, { jsonrpc: '2.0', id: payload.id, result }),
+      error => callback(error, { jsonrpc: '2.0', id: payload.id, error }),
+    );
+  }
+
+  private async sponsor(tx: PendingTx, send: () => Promise<unknown>): Promise<unknown> {
+    const [chooseFundGasLimit, deductFeesGasLimit, overheadCharge] = registryInterface.decodeFunctionResult(
+      'getGasConfig',
+      await this.call(registryInterface.encodeFunctionData('getGasConfig')),
+    );
+    // base fee of the block the tx would be included in
+    const baseFee = BigInt((await this.getBlock('pending')).baseFeePerGas);
+    const fee = (tx.gas + overheadCharge) * baseFee;
+
+    const chooseFundData = registryInterface.encodeFunctionData('chooseFund', [
+      tx.from,
+      tx.to,
+      tx.value,
+      tx.nonce,
+      tx.data,
+      fee,
+    ]);
+    let fundId: string;
+    try {
+      [fundId] = registryInterface.decodeFunctionResult(
+        'chooseFund',
+        await this.call(chooseFundData, chooseFundGasLimit),
+      );
+    } catch (err) {
+      throw new Error(`chooseFund failed within its gas limit ${chooseFundGasLimit}: ${(err as Error).message}`);
+    }
+    if (fundId === ZeroHash) {
+      throw new Error(`Transaction from ${tx.from} with zero gas price is not sponsored (fee ${fee})`);
+    }
+
+    let hash: string | undefined;
+    let error: unknown;
+    try {
+      hash = (await this.withZeroBaseFee(baseFee, send)) as string;
+    } catch (err) {
+      error = err;
+    }
+    // reverted txs are mined as well and their fees are deducted too
+    if (BigInt((await this.send('eth_getTransactionCount', [tx.from, 'latest'])) as string) > tx.nonce) {
+      const deductFeesHash = await this.deductFees(fundId, fee, deductFeesGasLimit, baseFee);
+      this.sponsored.push({ hash: hash ?? (await this.lastTxHash()), fundId, fee, deductFeesHash });
+    }
+    if (error !== undefined) {
+      throw error;
+    }
+    return hash;
+  }
+
+  private async deductFees(fundId: string, fee: bigint, gasLimit: bigint, baseFee: bigint): Promise<string> {
+    await this.send('hardhat_impersonateAccount', [ZeroAddress]);
+    try {
+      return (await this.withZeroBaseFee(baseFee, () =>
+        this._wrappedProvider.request({
+          method: 'eth_sendTransaction',
+          params: [
+            {
+              from: ZeroAddress,
+              to: this.registry,
+              data: registryInterface.encodeFunctionData('deductFees', [fundId, fee]),
+              gas: toQuantity(gasLimit),
+              gasPrice: '0x0',
+            },
+          ],
+        }),
+      )) as string;
+    } catch (err) {
+      throw new Error(`deductFees failed within its gas limit ${gasLimit}: ${(err as Error).message}`);
+    } finally {
+      await this.send('hardhat_stopImpersonatingAccount', [ZeroAddress]);
+    }
+  }
+
+  private async getBlock(tag: 'latest' | 'pending') {
+    return (await this.send('eth_getBlockByNumber', [tag, false])) as {
+      baseFeePerGas: string;
+      transactions: string[];
+    };
+  }
+
+  private async lastTxHash(): Promise<string> {
+    return (await this.getBlock('latest')).transactions.at(-1)!;
+  }
+
+  // internal call of the registry made by the node
+  private async call(data: string, gas?: bigint): Promise<string> {
+    const call = { from: ZeroAddress, to: this.registry, data, ...(gas !== undefined ? { gas: toQuantity(gas) } : {}) };
+    return (await this.send('eth_call', [call, 'latest'])) as string;
+  }
+
+  // the sponsored txs are mined with a zero base fee, the base fee is restored for the following blocks
+  private async withZeroBaseFee(baseFee: bigint, send: () => Promise<unknown>): Promise<unknown> {
+    await this.send('hardhat_setNextBlockBaseFeePerGas', ['0x0']);
+    try {
+      return await send();
+    } finally {
+      await this.send('hardhat_setNextBlockBaseFeePerGas', [toQuantity(baseFee)]);
+    }
+  }
+}
+
+function isZeroGasPrice(tx: { gasPrice?: string; maxFeePerGas?: string }): boolean {
+  const price = tx.gasPrice ?? tx.maxFeePerGas;
+  return price !== undefined && BigInt(price) === 0n;
+}
+
+export { SponsoredTxNode, SponsoredTx };